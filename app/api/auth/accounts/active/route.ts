@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { getBrowserSessions, setSessionCookie } from '@/lib/sessionStore';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/auth/accounts/active
+ *
+ * Switch the active account. Body: { accountId: 'usr_xxx' }, one of GET /api/auth/accounts.
+ * Every other API route acts as the active account from the next request on.
+ */
+export async function PUT(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'api');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    try {
+        const body: unknown = await req.json();
+        if (!body || typeof body !== 'object') {
+            return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+        }
+        const { accountId } = body as { accountId?: unknown };
+
+        // Input validation
+        if (typeof accountId !== 'string' || !accountId.startsWith('usr_') || accountId.length > 50) {
+            return NextResponse.json({ error: 'Invalid account ID' }, { status: 400 });
+        }
+
+        const sessions = await getBrowserSessions();
+        if (sessions.length === 0) {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+
+        const target = sessions.find(session => session.userId === accountId);
+        if (!target) {
+            return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+        }
+
+        // Move it to the front; sessions that no longer work are dropped on the way
+        const response = NextResponse.json({ success: true });
+        setSessionCookie(response, [target.token, ...sessions.filter(session => session !== target).map(session => session.token)]);
+        return response;
+    } catch (error: unknown) {
+        console.error('[Accounts] Switch error:', error);
+        return NextResponse.json({ error: 'Failed to switch account' }, { status: 500 });
+    }
+}
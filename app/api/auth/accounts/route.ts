@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { getBrowserSessions } from '@/lib/sessionStore';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/accounts
+ *
+ * VRChat accounts this browser is logged in to, the active one first.
+ * More are added by logging in again (/api/auth/login); PUT /api/auth/accounts/active switches.
+ */
+export async function GET(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'api');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    const sessions = await getBrowserSessions();
+    if (sessions.length === 0) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const accounts = sessions.map((session, i) => ({
+        id: session.userId,
+        displayName: session.displayName,
+        active: i === 0,
+    }));
+
+    return NextResponse.json({ accounts });
+}
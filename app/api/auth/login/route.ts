@@ -1,24 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
 import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { vrchatFetch, getSetCookies, parseSessionCookies, VRChatSession } from '@/lib/vrchat';
+import { startPipelineWatcher } from '@/lib/pipelineWatcher';
+import { endSession } from '@/lib/sessionRevocation';
+import { addAccountToken, completeSession, createSession, deleteSession, getCurrentSession, getPendingSessionToken, getSessionId, getSessionTokens, PENDING_SESSION_COOKIE, setPendingSessionCookie, setSessionCookie } from '@/lib/sessionStore';
+import { parseTwoFactorMethods, TwoFactorMethod } from '@/lib/twoFactor';
 
 export const dynamic = 'force-dynamic';
 
-const API_BASE = 'https://api.vrchat.cloud/api/1';
-
-// User-Agent: Specific format required by VRChat API (AppName/Version Contact)
-// Even if not strictly documented in some places, it is enforced by their WAF.
-const USER_AGENT = 'VRCSocial/1.0.0 (GitHub: vrcsocial-dev)';
-
-type HeadersWithSetCookie = Headers & {
-    getSetCookie?: () => string[];
-};
-
 export async function GET() {
     try {
-        const res = await fetch(`${API_BASE}/config`, {
-            headers: { 'User-Agent': USER_AGENT }
-        });
+        const res = await vrchatFetch('/config');
         if (res.ok) {
             const data: unknown = await res.json();
             const appName = typeof data === 'object' && data !== null && 'appName' in data && typeof data.appName === 'string'
@@ -32,9 +24,15 @@ export async function GET() {
     }
 }
 
+// 2FA methods for the login page, in the names /api/auth/verify accepts
+const getTwoFactorMethods = (requires: unknown): TwoFactorMethod[] => {
+    const methods = parseTwoFactorMethods(requires);
+    return methods.length > 0 ? methods : ['totp'];
+};
+
 export async function POST(req: NextRequest) {
     // Rate limiting check - 5 attempts per 15 minutes
-    const rateCheck = checkRateLimit(req, 'login');
+    const rateCheck = await checkRateLimit(req, 'login');
     if (rateCheck.limited) {
         return rateLimitResponse(rateCheck.resetIn);
     }
@@ -57,45 +55,28 @@ export async function POST(req: NextRequest) {
         const credentials = Buffer.from(`${username}:${password}`).toString('base64');
         const authHeader = `Basic ${credentials}`;
 
-        // Get existing cookies to potentially skip 2FA
-        const cookieStore = await cookies();
-        const existingTwoFactorAuth = cookieStore.get('twoFactorAuth')?.value;
-        
-        // Build request headers
-        const requestHeaders: Record<string, string> = {
-            'Authorization': authHeader,
-            'User-Agent': USER_AGENT,
-            'Accept': 'application/json'
-        };
-        
-        // If we have a valid twoFactorAuth cookie, send it to potentially skip 2FA
+        // The active account's session may hold a twoFactorAuth token that skips 2FA
+        // (VRChat ignores it when logging in to another account)
+        const existing = await getCurrentSession();
+        const existingTwoFactorAuth = existing?.session.twoFactorAuth;
+
         if (existingTwoFactorAuth) {
-            requestHeaders['Cookie'] = `twoFactorAuth=${existingTwoFactorAuth}`;
             console.log('[Login] Sending existing twoFactorAuth cookie to skip 2FA');
         }
 
-        const res = await fetch(`${API_BASE}/auth/user`, {
-            method: 'GET',
-            headers: requestHeaders
+        const res = await vrchatFetch('/auth/user', {
+            priority: 'interactive',
+            headers: { 'Authorization': authHeader },
+            session: existingTwoFactorAuth ? { twoFactorAuth: existingTwoFactorAuth } : null
         });
 
-        // Helper to get cookies from response
-        const getCookies = (response: Response): string[] => {
-            const headers = response.headers as HeadersWithSetCookie;
-            if (typeof headers.getSetCookie === 'function') {
-                return headers.getSetCookie();
-            }
-            // Fallback for older environments: simplistic split
-            const raw = response.headers.get('set-cookie');
-            if (!raw) return [];
-            return raw.split(/,(?=\s*[a-zA-Z0-9_-]+=)/).map(s => s.trim());
-        };
-
-        const cookieStrings = getCookies(res);
+        const cookieStrings = getSetCookies(res);
         console.log(`[Login] Received ${cookieStrings.length} cookies from VRChat`);
 
         // Prepare Frontend Response
         let response: NextResponse;
+        // Account to record on the session once login is complete
+        let user: { id: string; displayName: string } | null = null;
 
         // --- 2FA REQUIRED (401) ---
         if (res.status === 401) {
@@ -111,7 +92,7 @@ export async function POST(req: NextRequest) {
                 console.log('[Login] 2FA Required');
                 response = NextResponse.json({
                     requiresTwoFactorAuth: true,
-                    twoFactorAuthType: data.requiresTwoFactorAuth || ['totp']
+                    twoFactorAuthType: getTwoFactorMethods(data.requiresTwoFactorAuth)
                 }, { status: 401 });
             } else {
                 console.log('[Login] Unauthorized (Credentials likely wrong)');
@@ -129,11 +110,14 @@ export async function POST(req: NextRequest) {
                 console.log('[Login] 2FA actually required (found in 200 response)');
                 response = NextResponse.json({
                     requiresTwoFactorAuth: true,
-                    twoFactorAuthType: userData.requiresTwoFactorAuth
+                    twoFactorAuthType: getTwoFactorMethods(userData.requiresTwoFactorAuth)
                 }, { status: 401 }); // Force 401 so frontend switches to 2FA view
             } else {
                 // Real success - Do NOT send credentials to client for security
                 response = NextResponse.json({ user: userData, success: true });
+                if (typeof userData.id === 'string') {
+                    user = { id: userData.id, displayName: typeof userData.displayName === 'string' ? userData.displayName : userData.id };
+                }
             }
         }
 
@@ -143,54 +127,44 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: `API Error ${res.status}` }, { status: res.status });
         }
 
-        // --- FORWARD COOKIES ---
-        // We must forward VRChat cookies to the client browser.
-        // Important: VRChat cookies might be Secure/SameSite=None. 
-        // For localhost (http), we MUST relax Secure to false and SameSite to Lax.
-
-        cookieStrings.forEach(cookieStr => {
-            // Format: Name=Value; Path=/; Secure; HttpOnly...
-            const firstSemi = cookieStr.indexOf(';');
-            const nameValue = firstSemi > 0 ? cookieStr.slice(0, firstSemi) : cookieStr;
-            const [name, ...valParts] = nameValue.split('=');
-            const value = valParts.join('=');
-
-            if (name && value) {
-                const lowerName = name.trim().toLowerCase();
-                // We forward specific auth cookies. 'auth' is critical.
-                if (['auth', 'twofactorauth', 'apikey'].includes(lowerName)) {
-                    console.log(`[Login] Forwarding Valid Cookie: ${name.trim()}`);
-                    // twoFactorAuth cookie gets longer expiry to avoid repeated 2FA
-                    const maxAge = lowerName === 'twofactorauth' 
-                        ? 60 * 60 * 24 * 30  // 30 days for 2FA
-                        : 60 * 60 * 24 * 7;  // 7 days for others
-                    response.cookies.set({
-                        name: name.trim(),
-                        value: value.trim(),
-                        httpOnly: true,
-                        path: '/',
-                        secure: process.env.NODE_ENV === 'production',
-                        sameSite: 'strict',
-                        maxAge
-                    });
-                }
-            }
-        });
+        // --- START SESSION ---
+        // VRChat's tokens stay on the server; the browser only gets an opaque session cookie
+        const issued = parseSessionCookies(cookieStrings);
+        if (!issued.authToken) {
+            console.error('[Login] VRChat did not issue an auth cookie');
+            return NextResponse.json({ error: 'An error occurred during login' }, { status: 502 });
+        }
+        const session: VRChatSession = {
+            authToken: issued.authToken,
+            // Keep the existing twoFactorAuth token if VRChat didn't send a new one
+            twoFactorAuth: issued.twoFactorAuth || existingTwoFactorAuth,
+        };
 
-        // Preserve existing twoFactorAuth cookie if we have it and VRChat didn't send a new one
-        if (existingTwoFactorAuth && !cookieStrings.some(c => c.toLowerCase().startsWith('twofactorauth='))) {
-            console.log('[Login] Preserving existing twoFactorAuth cookie');
-            response.cookies.set({
-                name: 'twoFactorAuth',
-                value: existingTwoFactorAuth,
-                httpOnly: true,
-                path: '/',
-                secure: process.env.NODE_ENV === 'production',
-                sameSite: 'strict',
-                maxAge: 60 * 60 * 24 * 30 // 30 days
-            });
+        const token = createSession(session, req.headers.get('user-agent'));
+
+        // A login still waiting for 2FA is abandoned
+        const pending = await getPendingSessionToken();
+        if (pending) deleteSession(getSessionId(pending));
+
+        // Cookies from before server-side sessions
+        ['auth', 'twoFactorAuth', 'apiKey'].forEach(name => response.cookies.delete(name));
+
+        if (!user) {
+            // The browser's accounts stay as they are until /api/auth/verify completes the login
+            setPendingSessionCookie(response, token);
+            return response;
         }
 
+        // Fully logged in: the account is added to this browser and becomes the active one
+        completeSession(token, session, user);
+        const { tokens, replaced } = addAccountToken(await getSessionTokens(), token, user.id);
+        await Promise.all(replaced.map(id => endSession(id)));
+        setSessionCookie(response, tokens);
+        response.cookies.delete(PENDING_SESSION_COOKIE);
+
+        // Start recording friend events in the background
+        startPipelineWatcher(session);
+
         return response;
 
     } catch (error: unknown) {
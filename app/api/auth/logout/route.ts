@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { cookies, headers } from 'next/headers';
+import { endSession } from '@/lib/sessionRevocation';
+import { getCurrentSession, getSessionId, getSessionTokens, setSessionCookie } from '@/lib/sessionStore';
 
 export async function POST() {
     // Basic CSRF protection - verify request origin
@@ -19,36 +21,24 @@ export async function POST() {
     }
 
     const cookieStore = await cookies();
-    
-    // Get auth cookies for VRChat API logout
-    const authCookie = cookieStore.get('auth')?.value;
-    const twoFactorCookie = cookieStore.get('twoFactorAuth')?.value;
+    const tokens = await getSessionTokens();
+    const current = await getCurrentSession();
 
-    // Call VRChat API logout endpoint to invalidate the session
-    if (authCookie) {
-        try {
-            const cookieHeader = twoFactorCookie 
-                ? `auth=${authCookie}; twoFactorAuth=${twoFactorCookie}`
-                : `auth=${authCookie}`;
-            
-            await fetch('https://api.vrchat.cloud/api/1/logout', {
-                method: 'PUT',
-                headers: {
-                    'Cookie': cookieHeader,
-                    'User-Agent': 'VRC Social/1.0.0'
-                }
-            });
-        } catch (error) {
-            // Log error but continue with local logout
-            console.error('Failed to logout from VRChat API:', error);
-        }
+    // Drop the active account's session and invalidate its VRChat token
+    if (current) {
+        await endSession(current.id);
     }
 
-    // Delete all authentication cookies
+    // Other accounts of this browser stay logged in; the next one becomes active
+    const remaining = tokens.filter(token => getSessionId(token) !== current?.id);
+    const response = NextResponse.json({ success: true, accounts: remaining.length });
+    setSessionCookie(response, remaining);
+
+    // Delete any cookies from before server-side sessions
     cookieStore.delete('auth');
     cookieStore.delete('twoFactorAuth');
     cookieStore.delete('vrc_creds');
     cookieStore.delete('apiKey');
 
-    return NextResponse.json({ success: true });
+    return response;
 }
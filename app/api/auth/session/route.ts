@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { getCurrentSession, getSessionExpiry, getSessionTokens } from '@/lib/sessionStore';
+import { checkSessionValidity } from '@/lib/sessionValidity';
+import { vrchatErrorResponse } from '@/lib/vrchat';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/session
+ *
+ * Whether the active account is still logged in, checked cheaply against VRChat (GET /auth,
+ * at most every 30 seconds per session). FriendsProvider polls it and asks for the password
+ * (and 2FA) again once it reports expired.
+ *
+ *   200 { status: 'valid', account: { id, displayName }, checkedAt, expiresAt }
+ *   401 { status: 'expired', account } - VRChat no longer accepts the session; account is null
+ *       when the session itself is gone (revoked, or unused for too long)
+ *   401 { status: 'none', account: null } - not logged in
+ *
+ * expiresAt: when the session ends if left unused (VRChat may end it sooner).
+ */
+export async function GET(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'api');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    const current = await getCurrentSession();
+    if (!current?.userId) {
+        // A session cookie without a usable session: it was logged in once
+        const status = (await getSessionTokens()).length > 0 ? 'expired' : 'none';
+        return NextResponse.json({ status, account: null }, { status: 401 });
+    }
+
+    const account = { id: current.userId, displayName: current.displayName };
+
+    try {
+        const validity = await checkSessionValidity(current.session);
+        if (!validity.valid) {
+            console.log('[Session] VRChat rejected the session');
+            return NextResponse.json({ status: 'expired', account, checkedAt: validity.checkedAt }, { status: 401 });
+        }
+        return NextResponse.json({
+            status: 'valid',
+            account,
+            checkedAt: validity.checkedAt,
+            expiresAt: getSessionExpiry(current),
+        });
+    } catch (error: unknown) {
+        // Unknown, not expired: VRChat unreachable or rate limited
+        return vrchatErrorResponse(error, 'Failed to check session');
+    }
+}
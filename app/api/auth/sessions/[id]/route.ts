@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { endSession } from '@/lib/sessionRevocation';
+import { getCurrentSession, getSessionId, getSessionTokens, listSessions, setSessionCookie } from '@/lib/sessionStore';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/auth/sessions/[id]
+ *
+ * Revoke one of the current account's sessions (see GET /api/auth/sessions).
+ * The browser holding it is logged out on its next request. Revoking the
+ * current session is the same as logging out of the active account.
+ */
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'api');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    const { id } = await params;
+
+    // Input validation: session IDs are SHA-256 hex digests
+    if (!/^[0-9a-f]{64}$/.test(id)) {
+        return NextResponse.json({ error: 'Invalid session ID' }, { status: 400 });
+    }
+
+    const current = await getCurrentSession();
+    if (!current?.userId) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    // Only sessions of the same account can be revoked
+    if (!listSessions(current.userId).some(session => session.id === id)) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    await endSession(id);
+
+    // Drop it from this browser's accounts if it was one of them
+    const response = NextResponse.json({ success: true });
+    const tokens = await getSessionTokens();
+    const remaining = tokens.filter(token => getSessionId(token) !== id);
+    if (remaining.length !== tokens.length) {
+        setSessionCookie(response, remaining);
+    }
+    return response;
+}
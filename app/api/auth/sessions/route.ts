@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { getCurrentSession, listSessions } from '@/lib/sessionStore';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/sessions
+ *
+ * Login sessions of the current account (every browser it is logged in from),
+ * most recently used first. Each can be revoked with DELETE /api/auth/sessions/[id].
+ */
+export async function GET(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'api');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    const current = await getCurrentSession();
+    if (!current?.userId) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const sessions = listSessions(current.userId).map(session => ({
+        id: session.id,
+        displayName: session.displayName,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session.id === current.id,
+    }));
+
+    return NextResponse.json({ sessions });
+}
@@ -1,17 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
 import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
-
-const API_BASE = 'https://api.vrchat.cloud/api/1';
-const USER_AGENT = 'VRCSocial/1.0.0 (GitHub: vrcsocial-dev)';
-
-type HeadersWithSetCookie = Headers & {
-    getSetCookie?: () => string[];
-};
+import { createVRChatClient, parseSessionCookies, VRChatApiError, VRChatSession, vrchatErrorResponse, VrcVerifyResult } from '@/lib/vrchat';
+import { startPipelineWatcher } from '@/lib/pipelineWatcher';
+import { endSession } from '@/lib/sessionRevocation';
+import { addAccountToken, completeSession, getPendingSessionToken, getSessionTokens, getStoredSession, PENDING_SESSION_COOKIE, setSessionCookie } from '@/lib/sessionStore';
+import { isTwoFactorMethod, isValidTwoFactorCode, normalizeTwoFactorCode } from '@/lib/twoFactor';
+
+/**
+ * POST /api/auth/verify
+ *
+ * Completes a login that needs 2FA. Body: { code, type }
+ * type: one of the methods /api/auth/login listed in twoFactorAuthType
+ * ("totp", "emailOtp" or "otp" for an 8-character recovery code).
+ * Each request costs one of VRChat's 2FA attempts, so the method is required rather than guessed.
+ */
 
 export async function POST(req: NextRequest) {
     // Rate limiting check - 10 attempts per 15 minutes
-    const rateCheck = checkRateLimit(req, 'verify');
+    const rateCheck = await checkRateLimit(req, 'verify');
     if (rateCheck.limited) {
         return rateLimitResponse(rateCheck.resetIn);
     }
@@ -21,100 +27,67 @@ export async function POST(req: NextRequest) {
         if (!body || typeof body !== 'object') {
             return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
         }
-        const { code } = body as { code?: unknown };
+        const { code: rawCode, type } = body as { code?: unknown; type?: unknown };
+
+        if (!isTwoFactorMethod(type)) {
+            return NextResponse.json({ error: 'Invalid verification method' }, { status: 400 });
+        }
 
         // Input validation for 2FA code
-        if (!code || typeof code !== 'string' || !/^\d{6}$/.test(code)) {
+        if (!rawCode || typeof rawCode !== 'string' || rawCode.length > 20) {
             return NextResponse.json({ error: 'Invalid verification code format' }, { status: 400 });
         }
-        const cookieStore = await cookies();
-
-        const authCookie = cookieStore.get('auth')?.value;
-        const twoFactorCookie = cookieStore.get('twoFactorAuth')?.value;
-
-        // Build Cookie Header
-        let cookieHeaderStr = '';
-        if (authCookie) cookieHeaderStr += `auth=${authCookie}; `;
-        if (twoFactorCookie) cookieHeaderStr += `twoFactorAuth=${twoFactorCookie}; `;
-
-        if (!authCookie) {
+        const code = normalizeTwoFactorCode(type, rawCode);
+        if (!isValidTwoFactorCode(type, code)) {
+            return NextResponse.json({ error: 'Invalid verification code format' }, { status: 400 });
+        }
+        // The session started by /api/auth/login, still waiting for 2FA
+        const token = await getPendingSessionToken();
+        const stored = token ? getStoredSession(token) : null;
+        if (!token || !stored) {
             return NextResponse.json({ error: 'Session expired' }, { status: 400 });
         }
-
-        // Try TOTP
-        let verifyRes = await fetch(`${API_BASE}/auth/twofactorauth/totp/verify`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'User-Agent': USER_AGENT,
-                'Cookie': cookieHeaderStr
-            },
-            body: JSON.stringify({ code })
-        });
-
-        // Try Email OTP if failed
-        if (!verifyRes.ok) {
-            const emailRes = await fetch(`${API_BASE}/auth/twofactorauth/emailotp/verify`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'User-Agent': USER_AGENT,
-                    'Cookie': cookieHeaderStr
-                },
-                body: JSON.stringify({ code })
-            });
-            if (emailRes.ok) verifyRes = emailRes;
+        const session = stored.session;
+
+        const client = createVRChatClient(session, { priority: 'interactive' });
+
+        let result: VrcVerifyResult;
+        try {
+            result = await client.verifyTwoFactor(type, code);
+        } catch (error: unknown) {
+            // VRChat rejected the code; anything else (rate limited, down) is not the user's mistake
+            if (error instanceof VRChatApiError && (error.status === 400 || error.status === 401)) {
+                return NextResponse.json({ error: 'Verification failed' }, { status: 400 });
+            }
+            throw error;
         }
 
-        if (!verifyRes.ok) {
-            // Don't expose API error details to client
-            return NextResponse.json({ error: 'Verification failed' }, { status: 400 });
-        }
+        if (result.verified) {
+            console.log(`[Verify] Received ${result.setCookies.length} cookies from VRChat`);
 
-        const data: unknown = await verifyRes.json();
+            // VRChat issues a twoFactorAuth token that lets later logins skip 2FA
+            const issued = parseSessionCookies(result.setCookies);
+            const verifiedSession: VRChatSession = {
+                authToken: issued.authToken || session.authToken,
+                twoFactorAuth: issued.twoFactorAuth || session.twoFactorAuth,
+            };
 
-        if (typeof data === 'object' && data !== null && 'verified' in data && data.verified) {
-            const response = NextResponse.json({ verified: true });
+            const user = await createVRChatClient(verifiedSession, { priority: 'interactive' }).getCurrentUser();
+            if (!user.id) {
+                return NextResponse.json({ error: 'Verification failed' }, { status: 502 });
+            }
+            completeSession(token, verifiedSession, { id: user.id, displayName: user.displayName });
 
-            // Helper to get cookies from response (same as login route)
-            const getCookies = (res: Response): string[] => {
-                const headers = res.headers as HeadersWithSetCookie;
-                if (typeof headers.getSetCookie === 'function') {
-                    return headers.getSetCookie();
-                }
-                // Fallback for older environments
-                const raw = res.headers.get('set-cookie');
-                if (!raw) return [];
-                return raw.split(/,(?=\s*[a-zA-Z0-9_-]+=)/).map(s => s.trim());
-            };
+            // The account is added to this browser and becomes the active one
+            const response = NextResponse.json({ verified: true });
+            const { tokens, replaced } = addAccountToken(await getSessionTokens(), token, user.id);
+            await Promise.all(replaced.map(id => endSession(id)));
+            setSessionCookie(response, tokens);
+            response.cookies.delete(PENDING_SESSION_COOKIE);
 
-            // Extract and forward cookies
-            const cookieStrings = getCookies(verifyRes);
-            console.log(`[Verify] Received ${cookieStrings.length} cookies from VRChat`);
-            
-            cookieStrings.forEach(cookieStr => {
-                const firstSemi = cookieStr.indexOf(';');
-                const nameValue = firstSemi > 0 ? cookieStr.slice(0, firstSemi) : cookieStr;
-                const [name, ...valParts] = nameValue.split('=');
-                const value = valParts.join('=');
+            // Login completed: start recording friend events in the background
+            startPipelineWatcher(verifiedSession);
 
-                if (name && value) {
-                    const lowerName = name.trim().toLowerCase();
-                    if (['auth', 'twofactorauth', 'apikey'].includes(lowerName)) {
-                        console.log(`[Verify] Forwarding cookie: ${name.trim()}`);
-                        response.cookies.set({
-                            name: name.trim(),
-                            value: value.trim(),
-                            httpOnly: true,
-                            secure: process.env.NODE_ENV === 'production',
-                            path: '/',
-                            sameSite: 'strict',
-                            maxAge: 60 * 60 * 24 * 30 // 30 days for 2FA cookie
-                        });
-                    }
-                }
-            });
-            
             return response;
         }
 
@@ -122,6 +95,7 @@ export async function POST(req: NextRequest) {
 
     } catch (error: unknown) {
         console.error('[Verify] Error:', error);
-        return NextResponse.json({ error: 'Verification failed' }, { status: 500 });
+        // Don't expose API error details to client
+        return vrchatErrorResponse(error, 'Verification unavailable, please try again later');
     }
 }
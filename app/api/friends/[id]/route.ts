@@ -1,111 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
 import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { getRegionLabel, parseLocation } from '@/lib/location';
+import { createVRChatClient, getAccountId, getSession, vrchatErrorResponse, VrcGroup, VrcUser, VrcWorld } from '@/lib/vrchat';
+import { getCachedGroup, getCachedUser, getCachedWorld } from '@/lib/vrchatCache';
 
 export const dynamic = 'force-dynamic';
 
-const API_BASE = 'https://api.vrchat.cloud/api/1';
-const USER_AGENT = 'VRCSocial/1.0.0 (GitHub: vrcsocial-dev)';
-
-// Helper to build auth headers (only uses session cookies, no stored credentials)
-async function getAuthHeaders(): Promise<Record<string, string> | null> {
-    const cookieStore = await cookies();
-    const authCookie = cookieStore.get('auth')?.value;
-    const twoFactorCookie = cookieStore.get('twoFactorAuth')?.value;
-
-    // Only proceed if we have a valid auth cookie (no credential storage)
-    if (!authCookie) {
-        return null;
-    }
-
-    const headers: Record<string, string> = {
-        'User-Agent': USER_AGENT,
-        'Accept': 'application/json'
-    };
-
-    let cookieStr = `auth=${authCookie}`;
-    if (twoFactorCookie) cookieStr += `; twoFactorAuth=${twoFactorCookie}`;
-    headers['Cookie'] = cookieStr;
-
-    return headers;
-}
-
-// Parse instance info from location string
-// VRChat instance types:
-// - Public: wrld_xxx:instanceId
-// - Friends+: wrld_xxx:instanceId~hidden(usr_xxx)
-// - Friends: wrld_xxx:instanceId~friends(usr_xxx)
-// - Invite+: wrld_xxx:instanceId~private(usr_xxx)~canRequestInvite
-// - Invite: wrld_xxx:instanceId~private(usr_xxx)
-// - Group Public: wrld_xxx:instanceId~group(grp_xxx)~groupAccessType(public)
-// - Group: wrld_xxx:instanceId~group(grp_xxx)~groupAccessType(members)
-// - Group+: wrld_xxx:instanceId~group(grp_xxx)~groupAccessType(plus)
-function parseInstanceInfo(location: string) {
-    if (!location || location === 'offline' || location === 'private') {
-        return { instanceType: 'Private', region: 'Unknown', instanceId: '', ownerId: null, groupId: null };
-    }
-
-    const parts = location.split(':');
-    if (parts.length < 2) {
-        return { instanceType: 'Public', region: 'US', instanceId: '', ownerId: null, groupId: null };
-    }
-
-    const raw = parts[1];
-    const instanceId = raw.split('~')[0];
-
-    let instanceType = 'Public';
-    let ownerId: string | null = null;
-    let groupId: string | null = null;
-    
-    // Extract owner user ID
-    const usrMatch = raw.match(/\((usr_[^)]+)\)/);
-    if (usrMatch) {
-        ownerId = usrMatch[1];
-    }
-    
-    // Extract group ID
-    const grpMatch = raw.match(/~group\((grp_[^)]+)\)/);
-    if (grpMatch) {
-        groupId = grpMatch[1];
-    }
-    
-    // Check for group instances first (they may also contain other keywords)
-    if (raw.includes('~group(')) {
-        if (raw.includes('groupAccessType(public)')) {
-            instanceType = 'Group Public';
-        } else if (raw.includes('groupAccessType(plus)')) {
-            instanceType = 'Group+';
-        } else if (raw.includes('groupAccessType(members)')) {
-            instanceType = 'Group';
-        } else {
-            instanceType = 'Group';
-        }
-    } else if (raw.includes('~private(')) {
-        if (raw.includes('~canRequestInvite')) {
-            instanceType = 'Invite+';
-        } else {
-            instanceType = 'Invite';
-        }
-    } else if (raw.includes('~friends(')) {
-        instanceType = 'Friends';
-    } else if (raw.includes('~hidden(')) {
-        instanceType = 'Friends+';
-    }
-
-    let region = 'US';
-    const regionMatch = raw.match(/~region\(([^)]+)\)/);
-    if (regionMatch) {
-        const r = regionMatch[1].toLowerCase();
-        if (r === 'jp') region = 'JP';
-        else if (r === 'eu') region = 'EU';
-        else if (r === 'use') region = 'US East';
-        else if (r === 'usw') region = 'US West';
-        else if (r === 'us') region = 'US';
-    }
-
-    return { instanceType, region, instanceId, ownerId, groupId };
-}
-
 // Get trust rank display name
 // VRChat Trust System:
 // - system_trust_legend / system_trust_veteran → Trusted User (purple)
@@ -131,7 +31,7 @@ export async function GET(
     { params }: { params: Promise<{ id: string }> }
 ) {
     // Rate limiting check
-    const rateCheck = checkRateLimit(req, 'friendDetail');
+    const rateCheck = await checkRateLimit(req, 'friendDetail');
     if (rateCheck.limited) {
         return rateLimitResponse(rateCheck.resetIn);
     }
@@ -143,60 +43,59 @@ export async function GET(
         return NextResponse.json({ error: 'Invalid user ID format' }, { status: 400 });
     }
 
-    const headers = await getAuthHeaders();
-    if (!headers) {
+    const session = await getSession();
+    if (!session) {
         return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const client = createVRChatClient(session, { priority: 'interactive' });
+
     try {
-        // Fetch user details
-        const userRes = await fetch(`${API_BASE}/users/${id}`, { headers });
-        
-        if (!userRes.ok) {
-            console.error(`[FriendAPI] Failed to fetch user ${id}:`, userRes.status);
-            return NextResponse.json({ error: 'Failed to fetch user' }, { status: userRes.status });
+        // Fetch user details (always live: location and status are what this page is for)
+        let user: VrcUser;
+        try {
+            user = await client.getUser(id);
+        } catch (error: unknown) {
+            console.error(`[FriendAPI] Failed to fetch user ${id}:`, error);
+            return vrchatErrorResponse(error, 'Failed to fetch user');
         }
 
-        const user = await userRes.json();
-
         // Parse instance info first to get IDs
-        const instanceInfo = parseInstanceInfo(user.location || '');
+        const parsedLocation = parseLocation(user.location || '');
+        const instanceInfo = {
+            instanceType: parsedLocation?.type ?? 'Private',
+            region: parsedLocation ? getRegionLabel(parsedLocation.region) : 'Unknown',
+            instanceId: parsedLocation?.name ?? '',
+            ownerId: parsedLocation?.ownerId ?? null,
+            groupId: parsedLocation?.groupId ?? null,
+        };
 
         // Fetch world info if user is in a world
-        let worldData = null;
-        if (user.location && user.location.startsWith('wrld_')) {
-            const worldId = user.location.split(':')[0];
+        let worldData: VrcWorld | null = null;
+        if (parsedLocation && parsedLocation.worldId.startsWith('wrld_')) {
+            const worldId = parsedLocation.worldId;
             try {
-                const worldRes = await fetch(`${API_BASE}/worlds/${worldId}`, { headers });
-                if (worldRes.ok) {
-                    worldData = await worldRes.json();
-                }
+                worldData = await getCachedWorld(client, worldId);
             } catch (error: unknown) {
                 console.error(`[FriendAPI] Failed to fetch world ${worldId}`, error);
             }
         }
 
         // Fetch group info if it's a group instance
-        let groupData = null;
+        let groupData: VrcGroup | null = null;
         if (instanceInfo.groupId) {
             try {
-                const groupRes = await fetch(`${API_BASE}/groups/${instanceInfo.groupId}`, { headers });
-                if (groupRes.ok) {
-                    groupData = await groupRes.json();
-                }
+                groupData = await getCachedGroup(client, instanceInfo.groupId);
             } catch (error: unknown) {
                 console.error(`[FriendAPI] Failed to fetch group ${instanceInfo.groupId}`, error);
             }
         }
 
         // Fetch instance owner info if available
-        let ownerData = null;
+        let ownerData: VrcUser | null = null;
         if (instanceInfo.ownerId) {
             try {
-                const ownerRes = await fetch(`${API_BASE}/users/${instanceInfo.ownerId}`, { headers });
-                if (ownerRes.ok) {
-                    ownerData = await ownerRes.json();
-                }
+                ownerData = await getCachedUser(client, await getAccountId(session), instanceInfo.ownerId);
             } catch (error: unknown) {
                 console.error(`[FriendAPI] Failed to fetch owner ${instanceInfo.ownerId}`, error);
             }
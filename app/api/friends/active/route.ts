@@ -1,540 +1,153 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
 import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { loadActiveFriends } from '@/lib/activeFriends';
+import { FriendScope, formatFriendScope, parseFriendScope } from '@/lib/friendScope';
+import { getFriendsDelta, getFriendsSnapshot } from '@/lib/friendsSnapshot';
+import { getAccountId, getSession, VRChatApiError, VRChatSession, vrchatErrorResponse } from '@/lib/vrchat';
 
 export const dynamic = 'force-dynamic';
 
-const API_BASE = 'https://api.vrchat.cloud/api/1';
-
-const USER_AGENT = 'VRCSocial/1.0.0 (GitHub: vrcsocial-dev)';
-
-type VrcFriendApi = {
-    id: string;
-    displayName: string;
-    status?: string;
-    statusDescription?: string;
-    userIcon?: string;
-    profilePicOverride?: string;
-    currentAvatarThumbnailImageUrl?: string;
-    currentAvatarImageUrl?: string;
-    location: string;
-};
-
-type VrcFavoriteApi = {
-    favoriteId: string;
-    tags?: string[];
-};
-
-type VrcUserApi = {
-    id: string;
-    displayName: string;
-    statusDescription?: string;
-    userIcon?: string;
-    profilePicOverride?: string;
-    currentAvatarThumbnailImageUrl?: string;
-    currentAvatarImageUrl?: string;
-    last_login?: string;
-    last_activity?: string;
-};
-
-type VrcWorldApi = {
-    name?: string;
-    thumbnailImageUrl?: string;
-};
-
-type VrcGroupApi = {
-    name?: string;
-};
-
-type VrcInstanceApi = {
-    n_users?: number;
-    userCount?: number;
-};
-
-const isObject = (value: unknown): value is Record<string, unknown> =>
-    typeof value === 'object' && value !== null;
-
-const parseFriendArray = (value: unknown): VrcFriendApi[] => {
-    if (!Array.isArray(value)) return [];
-    return value.filter((item): item is VrcFriendApi =>
-        isObject(item) && typeof item.id === 'string' && typeof item.displayName === 'string' && typeof item.location === 'string'
-    );
-};
+// Whether an If-None-Match header lists etag (weak or strong)
+function matchesETag(header: string | null, etag: string): boolean {
+    if (!header) return false;
+    return header.split(',').some(tag => {
+        const value = tag.trim();
+        return value === '*' || value.replace(/^W\//, '') === etag;
+    });
+}
 
-const parseFavoriteArray = (value: unknown): VrcFavoriteApi[] => {
-    if (!Array.isArray(value)) return [];
-    return value.filter((item): item is VrcFavoriteApi =>
-        isObject(item) && typeof item.favoriteId === 'string'
-    );
-};
+// Stream the friend list as NDJSON while it loads (see ActiveFriendsProgress), then
+// { type: 'done', version } or { type: 'error', error, status }
+function streamActiveFriends(session: VRChatSession, accountId: string, scope: FriendScope, snapshotKey: string): Response {
+    const encoder = new TextEncoder();
+    let isConnectionClosed = false;
 
-const parseUser = (value: unknown): VrcUserApi | null => {
-    if (!isObject(value)) return null;
-    if (typeof value.id !== 'string' || typeof value.displayName !== 'string') return null;
-    return value as VrcUserApi;
-};
+    const stream = new ReadableStream({
+        async start(controller) {
+            const send = (line: object) => {
+                if (isConnectionClosed) return;
+                try {
+                    controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+                } catch {
+                    // Closed by the client; the load still finishes and updates the snapshot
+                    isConnectionClosed = true;
+                }
+            };
 
-const parseWorld = (value: unknown): VrcWorldApi | null =>
-    isObject(value) ? (value as VrcWorldApi) : null;
+            let streamed = false;
+            try {
+                const snapshot = await getFriendsSnapshot(snapshotKey, () =>
+                    loadActiveFriends(session, accountId, scope, (progress) => {
+                        streamed = true;
+                        send(progress);
+                    })
+                );
+                // Served from a recent (or someone else's in-flight) load, so nothing was streamed yet
+                if (!streamed) {
+                    send({ type: 'friends', friends: snapshot.result.friends });
+                    send({ type: 'offline', offlineFriends: snapshot.result.offlineFriends });
+                }
+                send({ type: 'done', version: snapshot.version });
+            } catch (error: unknown) {
+                console.error('[FriendsAPI] Stream error:', error);
+                const status = error instanceof VRChatApiError ? error.status : 500;
+                send({ type: 'error', error: 'Failed to fetch friends', status });
+            }
 
-const parseGroup = (value: unknown): VrcGroupApi | null =>
-    isObject(value) ? (value as VrcGroupApi) : null;
+            if (!isConnectionClosed) {
+                isConnectionClosed = true;
+                controller.close();
+            }
+        },
 
-const parseInstance = (value: unknown): VrcInstanceApi | null =>
-    isObject(value) ? (value as VrcInstanceApi) : null;
+        cancel() {
+            isConnectionClosed = true;
+        }
+    });
 
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'application/x-ndjson; charset=utf-8',
+            'Cache-Control': 'no-store',
+            'X-Accel-Buffering': 'no', // Disable nginx buffering
+        }
+    });
+}
 
+/**
+ * GET /api/friends/active[?scope=favorites|groups|all][&groups=group_0,...][&account=usr_xxx][&since=<version>|&stream=1]
+ *
+ * Online friends and offline friends in the scope, with a version that is also the ETag.
+ * scope: which friends to follow (default favorites; groups needs groups=). With "all" the
+ * offline list is empty and paged through /api/friends/offline instead.
+ * account: another account this browser is logged in to (see GET /api/auth/accounts) instead
+ * of the active one, for the merged view of all accounts.
+ * If-None-Match with the current version returns 304.
+ * since: a version from an earlier response; returns { delta: true, friends, offlineFriends, removed }
+ * with only the friends that changed. Unknown or expired versions get the full list.
+ * stream=1: NDJSON; the online friends come first and enrichment follows as patches,
+ * so a first load can render before worlds, groups and instances are fetched.
+ */
 export async function GET(req: NextRequest) {
     // Rate limiting check
-    const rateCheck = checkRateLimit(req, 'friends');
+    const rateCheck = await checkRateLimit(req, 'friends');
     if (rateCheck.limited) {
         return rateLimitResponse(rateCheck.resetIn);
     }
 
-    const cookieStore = await cookies();
-    const authCookie = cookieStore.get('auth')?.value;
+    const account = req.nextUrl.searchParams.get('account');
+    if (account !== null && (!account.startsWith('usr_') || account.length > 50)) {
+        return NextResponse.json({ error: 'Invalid account ID' }, { status: 400 });
+    }
+
+    const session = await getSession(account ?? undefined);
 
-    if (!authCookie) {
+    if (!session) {
         console.log('[FriendsAPI] Not authenticated. No auth cookie present.');
         return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
-    // Build Headers
-    const headers: Record<string, string> = {
-        'User-Agent': USER_AGENT,
-        'Accept': 'application/json',
-        'Cookie': `auth=${authCookie}`
-    };
-
+    const scope = parseFriendScope(req.nextUrl.searchParams);
+    if (!scope) {
+        return NextResponse.json({ error: 'Invalid scope' }, { status: 400 });
+    }
 
+    let accountId: string;
     try {
-        // Fetch ALL Online Friends with pagination
-        let allFriends: VrcFriendApi[] = [];
-        let friendOffset = 0;
-        let friendsHasMore = true;
-
-        console.log('[FriendsAPI] Starting to fetch all online friends...');
-
-        while (friendsHasMore) {
-            try {
-                const res = await fetch(`${API_BASE}/auth/user/friends?offline=false&n=100&offset=${friendOffset}`, {
-                    method: 'GET',
-                    headers
-                });
-
-                if (!res.ok) {
-                    console.error('Fetch Friends Error:', res.status);
-                    friendsHasMore = false;
-                    // If first request fails seriously, return error, but if we have data, continue
-                    if (allFriends.length === 0) {
-                        return NextResponse.json({ error: 'Failed to fetch friends' }, { status: res.status });
-                    }
-                    break;
-                }
-
-                const pageFriends = parseFriendArray(await res.json());
-                if (pageFriends.length > 0) {
-                    allFriends = allFriends.concat(pageFriends);
-                    if (pageFriends.length < 100) {
-                        friendsHasMore = false; // Less than 100 means end of list
-                    } else {
-                        friendOffset += 100; // Next page
-                    }
-                } else {
-                    friendsHasMore = false;
-                }
-            } catch (error: unknown) {
-                console.error('Error fetching friends page', error);
-                friendsHasMore = false;
-                if (allFriends.length === 0) return NextResponse.json({ error: 'Internal Error' }, { status: 500 });
-            }
-        }
-
-        const friends = allFriends;
-        console.log(`[FriendsAPI] Total online friends fetched: ${friends.length}`);
-
-
-        // Fetch ALL Favorites to filter (pagination loop)
-        // Also store favorite group info for sorting
-        const favoriteIds = new Set<string>();
-        const favoriteGroups = new Map<string, string>(); // userId -> group (e.g., "group_0")
-        let offset = 0;
-        let hasMore = true;
-
-        while (hasMore) {
-            try {
-                const favRes = await fetch(`${API_BASE}/favorites?type=friend&n=100&offset=${offset}`, { headers });
-                if (favRes.ok) {
-                    const favs = parseFavoriteArray(await favRes.json());
-                    if (favs.length > 0) {
-                        favs.forEach((fav) => {
-                            favoriteIds.add(fav.favoriteId);
-                            // Extract favorite group from tags (e.g., ["group_0"])
-                            if (fav.tags && Array.isArray(fav.tags) && fav.tags.length > 0) {
-                                favoriteGroups.set(fav.favoriteId, fav.tags[0]);
-                            }
-                        });
-                        if (favs.length < 100) {
-                            hasMore = false; // End of list
-                        } else {
-                            offset += 100; // Next page
-                        }
-                    } else {
-                        hasMore = false;
-                    }
-                } else {
-                    console.error(`[FriendsAPI] Failed to fetch favorites offset=${offset}`, favRes.status);
-                    hasMore = false;
-                }
-            } catch (error: unknown) {
-                console.error('[FriendsAPI] Error fetching favorites', error);
-                hasMore = false;
-            }
-        }
-
-        console.log(`[FriendsAPI] Total favorites loaded: ${favoriteIds.size}. Filtering ${friends.length} online friends.`);
-
-        // Split friends into favorites and non-favorites
-        // For non-favorites, only include those with visible locations (not private/offline)
-        const activeFavoriteFriends = friends.filter((f) => favoriteIds.has(f.id));
-        const activeNonFavoriteFriends = friends.filter((f) => {
-            if (favoriteIds.has(f.id)) return false;  // Already in favorites
-            if (!f.location || f.location === 'offline' || f.location === 'private') return false;
-            return true;  // Has visible location
-        });
-        
-        // Combine all friends that need processing
-        const allActiveFriends = [...activeFavoriteFriends, ...activeNonFavoriteFriends];
-
-        // Batch size for API requests
-        const BATCH_SIZE = 10;
-
-        // Fetch offline favorite friends
-        const offlineFavoriteIds = new Set<string>();
-        favoriteIds.forEach(id => {
-            if (!friends.some((f) => f.id === id)) {
-                offlineFavoriteIds.add(id);
-            }
-        });
-
-        // Fetch offline favorites info in batches
-        const offlineFavoriteFriends: VrcUserApi[] = [];
-        const offlineFavoriteIdList = Array.from(offlineFavoriteIds);
-        
-        if (offlineFavoriteIdList.length > 0) {
-            console.log(`[FriendsAPI] Fetching info for ${offlineFavoriteIdList.length} offline favorite friends`);
-            
-            for (let i = 0; i < offlineFavoriteIdList.length; i += BATCH_SIZE) {
-                const batch = offlineFavoriteIdList.slice(i, i + BATCH_SIZE);
-                await Promise.all(batch.map(async (userId) => {
-                    try {
-                        const userRes = await fetch(`${API_BASE}/users/${userId}`, { headers });
-                        if (userRes.ok) {
-                            const userData = parseUser(await userRes.json());
-                            if (userData) {
-                                offlineFavoriteFriends.push(userData);
-                            }
-                        }
-                    } catch {
-                        console.error(`Failed to fetch offline favorite ${userId}`);
-                    }
-                }));
-
-                if (i + BATCH_SIZE < offlineFavoriteIdList.length) {
-                    await new Promise(r => setTimeout(r, 100));
-                }
-            }
-        }
-
-        // Create a map of all friends for quick lookup (for instance owner names)
-        const allFriendsMap = new Map<string, string>();
-        friends.forEach((f) => allFriendsMap.set(f.id, f.displayName));
-
-        // Helper function to parse instance info
-        const parseLocation = (location: string) => {
-            if (!location || location === 'offline' || location === 'private') {
-                return { instanceType: 'Private', ownerId: null, groupId: null };
-            }
-            const parts = location.split(':');
-            if (parts.length < 2) return { instanceType: 'Public', ownerId: null, groupId: null };
-            
-            const raw = parts[1];
-            let instanceType = 'Public';
-            let ownerId: string | null = null;
-            let groupId: string | null = null;
-            
-            // Extract owner ID
-            const usrMatch = raw.match(/\((usr_[^)]+)\)/);
-            if (usrMatch) ownerId = usrMatch[1];
-            
-            // Extract group ID
-            const grpMatch = raw.match(/~group\((grp_[^)]+)\)/);
-            if (grpMatch) groupId = grpMatch[1];
-            
-            // Determine instance type
-            if (raw.includes('~group(')) {
-                if (raw.includes('groupAccessType(public)')) instanceType = 'Group Public';
-                else if (raw.includes('groupAccessType(plus)')) instanceType = 'Group+';
-                else if (raw.includes('groupAccessType(members)')) instanceType = 'Group';
-                else instanceType = 'Group';
-            } else if (raw.includes('~private(')) {
-                instanceType = raw.includes('~canRequestInvite') ? 'Invite+' : 'Invite';
-            } else if (raw.includes('~friends(')) {
-                instanceType = 'Friends';
-            } else if (raw.includes('~hidden(')) {
-                instanceType = 'Friends+';
-            }
-            
-            return { instanceType, ownerId, groupId };
-        };
-
-        // Extract unique world IDs and group IDs from all active friends
-        const worldIds = new Set<string>();
-        const groupIds = new Set<string>();
-        allActiveFriends.forEach((f) => {
-            if (typeof f.location === 'string' && f.location.startsWith('wrld_')) {
-                const wid = f.location.split(':')[0];
-                worldIds.add(wid);
-                
-                // Extract group ID if present
-                const grpMatch = f.location.match(/~group\((grp_[^)]+)\)/);
-                if (grpMatch) groupIds.add(grpMatch[1]);
-            }
-        });
-
-        // Fetch world details with BATCHING to avoid 429 Rate Limits
-        const worldMap = new Map<string, VrcWorldApi>();
-        const worldIdList = Array.from(worldIds);
-
-        console.log(`[FriendsAPI] Fetching info for ${worldIdList.length} unique worlds (Batch Size: ${BATCH_SIZE})`);
-
-        for (let i = 0; i < worldIdList.length; i += BATCH_SIZE) {
-            const batch = worldIdList.slice(i, i + BATCH_SIZE);
-            await Promise.all(batch.map(async (wid) => {
-                try {
-                    const wRes = await fetch(`${API_BASE}/worlds/${wid}`, { headers });
-                    if (wRes.ok) {
-                        const wData = parseWorld(await wRes.json());
-                        if (wData) {
-                            worldMap.set(wid, wData);
-                        }
-                    }
-                } catch {
-                    console.error(`Failed to fetch world ${wid}`);
-                }
-            }));
-
-            if (i + BATCH_SIZE < worldIdList.length) {
-                await new Promise(r => setTimeout(r, 100));
-            }
-        }
-
-        // Fetch group details
-        const groupMap = new Map<string, VrcGroupApi>();
-        const groupIdList = Array.from(groupIds);
-        
-        console.log(`[FriendsAPI] Fetching info for ${groupIdList.length} unique groups`);
-
-        for (let i = 0; i < groupIdList.length; i += BATCH_SIZE) {
-            const batch = groupIdList.slice(i, i + BATCH_SIZE);
-            await Promise.all(batch.map(async (gid) => {
-                try {
-                    const gRes = await fetch(`${API_BASE}/groups/${gid}`, { headers });
-                    if (gRes.ok) {
-                        const gData = parseGroup(await gRes.json());
-                        if (gData) {
-                            groupMap.set(gid, gData);
-                        }
-                    }
-                } catch {
-                    console.error(`Failed to fetch group ${gid}`);
-                }
-            }));
-
-            if (i + BATCH_SIZE < groupIdList.length) {
-                await new Promise(r => setTimeout(r, 100));
-            }
-        }
+        accountId = await getAccountId(session);
+    } catch (error: unknown) {
+        return vrchatErrorResponse(error, 'Failed to fetch friends');
+    }
 
-        // Collect unique instance locations (for fetching instance user counts)
-        const instanceLocations = new Set<string>();
-        allActiveFriends.forEach((f) => {
-            if (f.location && f.location.startsWith('wrld_') && !f.location.includes('private')) {
-                instanceLocations.add(f.location);
-            }
-        });
+    // Versions are tracked per account and scope
+    const snapshotKey = `${accountId}:${formatFriendScope(scope)}`;
 
-        // Fetch instance details to get total user count
-        const instanceMap = new Map<string, VrcInstanceApi>();
-        const instanceList = Array.from(instanceLocations);
-        
-        console.log(`[FriendsAPI] Fetching info for ${instanceList.length} unique instances`);
+    if (req.nextUrl.searchParams.get('stream') === '1') {
+        return streamActiveFriends(session, accountId, scope, snapshotKey);
+    }
 
-        for (let i = 0; i < instanceList.length; i += BATCH_SIZE) {
-            const batch = instanceList.slice(i, i + BATCH_SIZE);
-            await Promise.all(batch.map(async (loc) => {
-                try {
-                    // Instance API format: /instances/{worldId}:{instanceId}
-                    const instRes = await fetch(`${API_BASE}/instances/${loc}`, { headers });
-                    if (instRes.ok) {
-                        const instData = parseInstance(await instRes.json());
-                        if (instData) {
-                            instanceMap.set(loc, instData);
-                        }
-                    }
-                } catch {
-                    console.error(`Failed to fetch instance ${loc}`);
-                }
-            }));
+    try {
+        const snapshot = await getFriendsSnapshot(snapshotKey, () => loadActiveFriends(session, accountId, scope));
 
-            if (i + BATCH_SIZE < instanceList.length) {
-                await new Promise(r => setTimeout(r, 100));
-            }
+        // Revalidate on every use; the ETag makes unchanged lists cheap
+        const headers = { ETag: `"${snapshot.version}"`, 'Cache-Control': 'private, no-cache' };
+        if (matchesETag(req.headers.get('if-none-match'), headers.ETag)) {
+            return new NextResponse(null, { status: 304, headers });
         }
 
-        // Collect instance owner IDs that are not in friends list
-        const nonFriendOwnerIds = new Set<string>();
-        allActiveFriends.forEach((f) => {
-            const instanceInfo = parseLocation(f.location);
-            if (instanceInfo.ownerId && !allFriendsMap.has(instanceInfo.ownerId)) {
-                nonFriendOwnerIds.add(instanceInfo.ownerId);
-            }
-        });
-
-        // Fetch non-friend owner info
-        const ownerMap = new Map<string, string>(); // userId -> displayName
-        const ownerIdList = Array.from(nonFriendOwnerIds);
-        
-        if (ownerIdList.length > 0) {
-            console.log(`[FriendsAPI] Fetching info for ${ownerIdList.length} non-friend instance owners`);
-            
-            for (let i = 0; i < ownerIdList.length; i += BATCH_SIZE) {
-                const batch = ownerIdList.slice(i, i + BATCH_SIZE);
-                await Promise.all(batch.map(async (userId) => {
-                    try {
-                        const userRes = await fetch(`${API_BASE}/users/${userId}`, { headers });
-                        if (userRes.ok) {
-                            const userData = parseUser(await userRes.json());
-                            if (userData) {
-                                ownerMap.set(userId, userData.displayName);
-                            }
-                        }
-                    } catch {
-                        console.error(`Failed to fetch user ${userId}`);
-                    }
-                }));
-
-                if (i + BATCH_SIZE < ownerIdList.length) {
-                    await new Promise(r => setTimeout(r, 100));
-                }
-            }
+        const since = req.nextUrl.searchParams.get('since');
+        const delta = since ? getFriendsDelta(snapshotKey, since) : null;
+        if (delta) {
+            return NextResponse.json({ delta: true, ...delta }, { headers });
         }
 
-        // Transform all active friends
-        const simplifiedFriends = allActiveFriends.map((f) => {
-            let worldName = f.location || 'Unknown';
-            let worldImageUrl = null;
-            let isPrivate = false;
-            const isFavorite = favoriteIds.has(f.id);
-            
-            // Parse instance info
-            const instanceInfo = parseLocation(f.location);
-            let ownerName: string | null = null;
-            let groupName: string | null = null;
-            
-            // Get owner name from friends map or non-friend owner map
-            if (instanceInfo.ownerId) {
-                ownerName = allFriendsMap.get(instanceInfo.ownerId) || ownerMap.get(instanceInfo.ownerId) || null;
-            }
-            
-            // Get group name from group map
-            if (instanceInfo.groupId) {
-                const gData = groupMap.get(instanceInfo.groupId);
-                if (gData) groupName = gData.name || null;
-            }
-
-            if (f.location === 'private') {
-                isPrivate = true;
-                worldName = 'Private World';
-            } else if (typeof f.location === 'string' && f.location.startsWith('wrld_')) {
-                const wid = f.location.split(':')[0];
-                const wData = worldMap.get(wid);
-
-                if (wData) {
-                    worldName = wData.name || worldName;
-                    worldImageUrl = wData.thumbnailImageUrl;
-                }
-
-                // Check if instance is private
-                if (f.location.includes('private')) {
-                    isPrivate = true;
-                }
-            } else if (f.location === 'offline') {
-                worldName = 'Offline';
-            }
-
-            // Get instance user count
-            const instData = instanceMap.get(f.location);
-            const instanceUserCount = instData?.n_users || instData?.userCount || null;
-
-            // Get favorite group for this friend
-            const favoriteGroup = favoriteGroups.get(f.id) || null;
-
-            return {
-                id: f.id,
-                name: f.displayName,
-                status: f.status,
-                statusMsg: f.statusDescription,
-                icon: f.userIcon || f.profilePicOverride || f.currentAvatarThumbnailImageUrl || f.currentAvatarImageUrl || '',
-                location: f.location,
-                worldName,
-                worldImageUrl,
-                isPrivate,
-                isFavorite,
-                favoriteGroup,  // e.g., "group_0", "group_1", etc.
-                instanceType: instanceInfo.instanceType,
-                ownerId: instanceInfo.ownerId,
-                ownerName,
-                groupId: instanceInfo.groupId,
-                groupName,
-                instanceUserCount,
-            };
-        });
-
-        // Transform offline favorite friends
-        const simplifiedOfflineFriends = offlineFavoriteFriends.map((f) => {
-            const favoriteGroup = favoriteGroups.get(f.id) || null;
-            return {
-                id: f.id,
-                name: f.displayName,
-                status: 'offline',
-                statusMsg: f.statusDescription,
-                icon: f.userIcon || f.profilePicOverride || f.currentAvatarThumbnailImageUrl || f.currentAvatarImageUrl || '',
-                location: 'offline',
-                worldName: 'Offline',
-                worldImageUrl: null,
-                isPrivate: false,
-                isFavorite: true,
-                favoriteGroup,
-                instanceType: 'Offline',
-                ownerId: null,
-                ownerName: null,
-                groupId: null,
-                groupName: null,
-                instanceUserCount: null,
-                last_login: f.last_login,
-                last_activity: f.last_activity,
-            };
-        });
-
-        return NextResponse.json({ 
-            friends: simplifiedFriends,
-            offlineFriends: simplifiedOfflineFriends
-        });
-
-
+        return NextResponse.json({
+            version: snapshot.version,
+            friends: snapshot.result.friends,
+            offlineFriends: snapshot.result.offlineFriends,
+        }, { headers });
     } catch (error: unknown) {
-        console.error('API Error:', error);
-        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+        console.error('[FriendsAPI] Error:', error);
+        return vrchatErrorResponse(error, 'Failed to fetch friends');
     }
 }
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { loadOfflineFriendsPage } from '@/lib/activeFriends';
+import { getSession, vrchatErrorResponse } from '@/lib/vrchat';
+
+export const dynamic = 'force-dynamic';
+
+// VRChat returns at most 100 friends per page
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * GET /api/friends/offline?offset=<n>&n=<page size>[&account=usr_xxx]
+ *
+ * One page of all offline friends (favorites or not) for the "all friends" scope,
+ * where /api/friends/active leaves the offline list out.
+ * account: another account this browser is logged in to instead of the active one, for the
+ * merged view of all accounts.
+ * Returns { offlineFriends, hasMore }.
+ */
+export async function GET(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'offlineFriends');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    const offset = Number(req.nextUrl.searchParams.get('offset') ?? 0);
+    const n = Number(req.nextUrl.searchParams.get('n') ?? DEFAULT_PAGE_SIZE);
+
+    // Input validation
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(n) || n < 1 || n > MAX_PAGE_SIZE) {
+        return NextResponse.json({ error: 'Invalid offset or n' }, { status: 400 });
+    }
+
+    const account = req.nextUrl.searchParams.get('account');
+    if (account !== null && (!account.startsWith('usr_') || account.length > 50)) {
+        return NextResponse.json({ error: 'Invalid account ID' }, { status: 400 });
+    }
+
+    const session = await getSession(account ?? undefined);
+
+    if (!session) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    try {
+        return NextResponse.json(await loadOfflineFriendsPage(session, { offset, n }));
+    } catch (error: unknown) {
+        console.error('[FriendsAPI] Offline page error:', error);
+        return vrchatErrorResponse(error, 'Failed to fetch offline friends');
+    }
+}
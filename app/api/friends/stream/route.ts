@@ -1,28 +1,26 @@
 import { NextRequest } from 'next/server';
-import { cookies } from 'next/headers';
-import WebSocket from 'ws';
 import { checkRateLimit } from '@/lib/rateLimit';
+import { getSession } from '@/lib/vrchat';
+import { startPipelineWatcher } from '@/lib/pipelineWatcher';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
-const WEBSOCKET_URL = 'wss://pipeline.vrchat.cloud';
-const USER_AGENT = 'VRCSocial/1.0.0 (GitHub: vrcsocial-dev)';
-
-interface VRChatWebSocketMessage {
-    type: string;
-    content: string;
-}
-
 /**
  * GET /api/friends/stream
  * 
- * Server-Sent Events endpoint that connects to VRChat WebSocket
- * and forwards real-time friend events to the client.
+ * Server-Sent Events endpoint that subscribes to the account's background
+ * pipeline watcher and forwards real-time friend events to the client.
+ * Events carry ids; reconnecting with Last-Event-ID (header or ?lastEventId=)
+ * replays the events missed in between, or sends 'resync' if they are gone.
+ *
+ * Connection status events: 'connected', 'reconnecting' (upstream dropped, the
+ * server retries with backoff) and 'auth-expired' (VRChat rejected the session;
+ * the stream is closed and the client must log in again).
  */
 export async function GET(req: NextRequest) {
     // Rate limiting check for SSE connections
-    const rateCheck = checkRateLimit(req, 'stream');
+    const rateCheck = await checkRateLimit(req, 'stream');
     if (rateCheck.limited) {
         return new Response(JSON.stringify({ 
             error: 'Too many requests',
@@ -36,29 +34,48 @@ export async function GET(req: NextRequest) {
         });
     }
 
-    const cookieStore = await cookies();
-    const authCookie = cookieStore.get('auth')?.value;
+    const session = await getSession();
 
-    if (!authCookie) {
+    if (!session) {
         return new Response(JSON.stringify({ error: 'Not authenticated' }), {
             status: 401,
             headers: { 'Content-Type': 'application/json' }
         });
     }
 
+    // Resume point sent by the browser (EventSource sets the header on auto-reconnect)
+    const lastEventIdRaw = req.headers.get('last-event-id') || req.nextUrl.searchParams.get('lastEventId');
+    const lastEventId = lastEventIdRaw && /^\d+$/.test(lastEventIdRaw) ? Number(lastEventIdRaw) : undefined;
+
     // Create a TransformStream to handle SSE
     const encoder = new TextEncoder();
-    let ws: WebSocket | null = null;
+    let unsubscribe: (() => void) | null = null;
     let isConnectionClosed = false;
     let pingInterval: NodeJS.Timeout | null = null;
 
+    // Stop pings and release our reference; the shared connection outlives this tab
+    const cleanup = () => {
+        isConnectionClosed = true;
+
+        if (pingInterval) {
+            clearInterval(pingInterval);
+            pingInterval = null;
+        }
+
+        if (unsubscribe) {
+            unsubscribe();
+            unsubscribe = null;
+        }
+    };
+
     const stream = new ReadableStream({
         start(controller) {
             // Send initial connection message
-            const sendSSE = (event: string, data: unknown) => {
+            const sendSSE = (event: string, data: unknown, id?: number) => {
                 if (isConnectionClosed) return;
                 try {
-                    const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+                    const idLine = id !== undefined ? `id: ${id}\n` : '';
+                    const message = `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
                     controller.enqueue(encoder.encode(message));
                 } catch (e) {
                     console.error('[SSE] Failed to send message:', e);
@@ -72,79 +89,32 @@ export async function GET(req: NextRequest) {
                 }
             }, 15000);
 
-            // Connect to VRChat WebSocket
-            const wsUrl = `${WEBSOCKET_URL}/?authToken=${encodeURIComponent(authCookie)}`;
-            console.log('[SSE] Connecting to VRChat WebSocket...');
-
-            ws = new WebSocket(wsUrl, {
-                headers: {
-                    'User-Agent': USER_AGENT
-                }
-            });
-
-            ws.on('open', () => {
-                console.log('[SSE] VRChat WebSocket connected');
+            // Subscribe to the shared pipeline connection for this session
+            const watcher = startPipelineWatcher(session);
+            if (watcher.isConnected()) {
                 sendSSE('connected', { status: 'connected', timestamp: Date.now() });
-            });
+            }
 
-            ws.on('message', (data: WebSocket.Data) => {
-                try {
-                    const message: VRChatWebSocketMessage = JSON.parse(data.toString());
-                    
-                    // Parse the content field (it's a JSON string)
-                    const content = typeof message.content === 'string'
-                        ? JSON.parse(message.content)
-                        : message.content;
-
-                    console.log(`[SSE] VRChat event: ${message.type}`);
-
-                    // Forward relevant events to client
-                    const relevantEvents = [
-                        'friend-online',
-                        'friend-offline',
-                        'friend-location',
-                        'friend-update',
-                        'friend-add',
-                        'friend-delete',
-                        'friend-active'  // Friend became active (similar to online)
-                    ];
-
-                    if (relevantEvents.includes(message.type)) {
-                        sendSSE(message.type, content);
+            unsubscribe = watcher.subscribe(({ id, type, data }) => {
+                sendSSE(type, data, id);
+
+                // The watcher is gone (VRChat rejected the session, or it was stopped by logout,
+                // revocation or idle shutdown): nothing more will arrive on this stream
+                if (type === 'auth-expired' || type === 'disconnected') {
+                    cleanup();
+                    try {
+                        controller.close();
+                    } catch {
+                        // Already closed by the client
                     }
-                } catch (e) {
-                    console.error('[SSE] Failed to parse WebSocket message:', e);
-                }
-            });
-
-            ws.on('close', (code, reason) => {
-                console.log(`[SSE] VRChat WebSocket closed: code=${code}, reason=${reason}`);
-                if (!isConnectionClosed) {
-                    sendSSE('disconnected', { code, reason: reason?.toString() });
                 }
-            });
-
-            ws.on('error', (error) => {
-                console.error('[SSE] VRChat WebSocket error:', error.message);
-                if (!isConnectionClosed) {
-                    sendSSE('error', { message: error.message });
-                }
-            });
+            }, lastEventId);
+            console.log(`[SSE] Client subscribed (${watcher.subscriberCount()} on this connection)`);
         },
 
         cancel() {
             console.log('[SSE] Client disconnected');
-            isConnectionClosed = true;
-            
-            if (pingInterval) {
-                clearInterval(pingInterval);
-                pingInterval = null;
-            }
-            
-            if (ws) {
-                ws.close();
-                ws = null;
-            }
+            cleanup();
         }
     });
 
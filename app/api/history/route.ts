@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { getAccountId, getSession, vrchatErrorResponse } from '@/lib/vrchat';
+import { clearHistory, HISTORY_EVENT_TYPES, HistoryEventType, queryHistory } from '@/lib/history';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Parse an optional timestamp parameter (ms since epoch or ISO date)
+const parseTime = (value: string | null): number | undefined | null => {
+    if (!value) return undefined;
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    return Number.isFinite(time) ? time : null;
+};
+
+/**
+ * GET /api/history
+ *
+ * Friend event history recorded from the pipeline for the logged-in account.
+ * Query: from, to (ms or ISO date), userId, types (comma-separated),
+ * favorites=1 (favorite friends only), limit (default 500, max 5000).
+ */
+export async function GET(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'history');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const params = req.nextUrl.searchParams;
+
+    const from = parseTime(params.get('from'));
+    const to = parseTime(params.get('to'));
+    if (from === null || to === null) {
+        return NextResponse.json({ error: 'Invalid time range' }, { status: 400 });
+    }
+
+    const types = params.get('types')?.split(',').map(t => t.trim()).filter(Boolean);
+    if (types?.some(t => !HISTORY_EVENT_TYPES.includes(t as HistoryEventType))) {
+        return NextResponse.json({ error: 'Invalid event type' }, { status: 400 });
+    }
+
+    const limitParam = params.get('limit');
+    const limit = limitParam ? Number(limitParam) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+        return NextResponse.json({ error: 'Invalid limit' }, { status: 400 });
+    }
+
+    try {
+        const accountId = await getAccountId(session);
+        const entries = queryHistory(accountId, {
+            from,
+            to,
+            userId: params.get('userId') || undefined,
+            types: types as HistoryEventType[] | undefined,
+            favoritesOnly: params.get('favorites') === '1',
+            limit
+        });
+        return NextResponse.json({ entries });
+    } catch (error: unknown) {
+        console.error('[HistoryAPI] Error:', error);
+        return vrchatErrorResponse(error, 'Failed to fetch history');
+    }
+}
+
+/**
+ * DELETE /api/history
+ *
+ * Clear all recorded history for the logged-in account.
+ */
+export async function DELETE(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'history');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    try {
+        const accountId = await getAccountId(session);
+        const deleted = clearHistory(accountId);
+        console.log(`[HistoryAPI] Cleared ${deleted} entries`);
+        return NextResponse.json({ success: true, deleted });
+    } catch (error: unknown) {
+        console.error('[HistoryAPI] Error:', error);
+        return vrchatErrorResponse(error, 'Failed to clear history');
+    }
+}
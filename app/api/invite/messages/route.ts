@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { INVITE_MESSAGE_SLOTS, InviteMessageType, isInviteMessageType, MAX_INVITE_MESSAGE_LENGTH } from '@/lib/invites';
+import { createVRChatClient, getAccountId, getSession, vrchatErrorResponse } from '@/lib/vrchat';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/invite/messages?type=request
+ *
+ * Invite message templates of the logged-in user, sorted by slot.
+ * type: message | response | request | requestResponse (default: request)
+ */
+export async function GET(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'inviteMessages');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    const type = req.nextUrl.searchParams.get('type') || 'request';
+    if (!isInviteMessageType(type)) {
+        return NextResponse.json({ error: 'Invalid message type' }, { status: 400 });
+    }
+
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    try {
+        const accountId = await getAccountId(session);
+        const messages = await createVRChatClient(session).getInviteMessages(accountId, type);
+        return NextResponse.json({ messages: messages.sort((a, b) => a.slot - b.slot) });
+    } catch (error: unknown) {
+        console.error('[InviteMessagesAPI] Error:', error);
+        return vrchatErrorResponse(error, 'Failed to fetch invite messages');
+    }
+}
+
+/**
+ * PUT /api/invite/messages
+ *
+ * Edit one template. Body: { type, slot: 0-11, message }
+ * VRChat puts edited slots on a cooldown; editing too early returns its error status.
+ */
+export async function PUT(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'inviteMessages');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    let type: InviteMessageType;
+    let slot: number;
+    let message: string;
+    try {
+        const body: unknown = await req.json();
+        const input = body && typeof body === 'object' ? body as { type?: unknown; slot?: unknown; message?: unknown } : {};
+        if (!isInviteMessageType(input.type)) {
+            return NextResponse.json({ error: 'Invalid message type' }, { status: 400 });
+        }
+        if (typeof input.slot !== 'number' || !Number.isInteger(input.slot) || input.slot < 0 || input.slot >= INVITE_MESSAGE_SLOTS) {
+            return NextResponse.json({ error: 'Invalid message slot' }, { status: 400 });
+        }
+        if (typeof input.message !== 'string' || !input.message.trim() || input.message.length > MAX_INVITE_MESSAGE_LENGTH) {
+            return NextResponse.json({ error: `Message must be 1-${MAX_INVITE_MESSAGE_LENGTH} characters` }, { status: 400 });
+        }
+        type = input.type;
+        slot = input.slot;
+        message = input.message.trim();
+    } catch {
+        return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    try {
+        const accountId = await getAccountId(session);
+        const messages = await createVRChatClient(session).updateInviteMessage(accountId, type, slot, message);
+        return NextResponse.json({ messages: messages.sort((a, b) => a.slot - b.slot) });
+    } catch (error: unknown) {
+        console.error('[InviteMessagesAPI] Error:', error);
+        return vrchatErrorResponse(error, 'Failed to update invite message');
+    }
+}
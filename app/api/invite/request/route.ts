@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { getRequestInviteDenial, INVITE_MESSAGE_SLOTS } from '@/lib/invites';
+import { parseLocation } from '@/lib/location';
+import { createVRChatClient, getSession, isGroupMember, vrchatErrorResponse } from '@/lib/vrchat';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/invite/request
+ *
+ * Ask a friend to invite us to their instance.
+ * Body: { userId: 'usr_xxx', messageSlot?: 0-11 }  (messageSlot picks a 'request' template)
+ * Returns 409 when the friend isn't in an instance, and 403 with a { code } from
+ * lib/invites when the instance type means they can't invite us.
+ */
+export async function POST(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'invite');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    let userId: string;
+    let messageSlot: number | undefined;
+    try {
+        const body: unknown = await req.json();
+        const input = body && typeof body === 'object' ? body as { userId?: unknown; messageSlot?: unknown } : {};
+        // Input validation: User ID must match VRChat format
+        if (typeof input.userId !== 'string' || !input.userId.startsWith('usr_') || input.userId.length > 50) {
+            return NextResponse.json({ error: 'Invalid user ID format' }, { status: 400 });
+        }
+        if (input.messageSlot !== undefined && (
+            typeof input.messageSlot !== 'number' || !Number.isInteger(input.messageSlot) ||
+            input.messageSlot < 0 || input.messageSlot >= INVITE_MESSAGE_SLOTS
+        )) {
+            return NextResponse.json({ error: 'Invalid message slot' }, { status: 400 });
+        }
+        userId = input.userId;
+        messageSlot = input.messageSlot as number | undefined;
+    } catch {
+        return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const client = createVRChatClient(session, { priority: 'interactive' });
+
+    try {
+        const location = (await client.getUser(userId)).location || 'offline';
+        const parsed = parseLocation(location);
+        const groupMember = parsed?.type === 'Group' && parsed.groupId
+            ? await isGroupMember(client, parsed.groupId)
+            : undefined;
+
+        const denial = getRequestInviteDenial(location, userId, { isGroupMember: groupMember });
+        if (denial) {
+            const status = denial.code === 'not-in-instance' ? 409 : 403;
+            return NextResponse.json({ error: denial.message, code: denial.code }, { status });
+        }
+
+        await client.requestInvite(userId, messageSlot);
+        console.log(`[InviteAPI] Requested invite (${parsed?.type || location})`);
+        return NextResponse.json({ success: true });
+    } catch (error: unknown) {
+        console.error('[InviteAPI] Error:', error);
+        return vrchatErrorResponse(error, 'Failed to request invite');
+    }
+}
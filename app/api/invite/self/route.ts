@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { getSelfInviteDenial } from '@/lib/invites';
+import { parseLocation } from '@/lib/location';
+import { createVRChatClient, getAccountId, getSession, isGroupMember, vrchatErrorResponse } from '@/lib/vrchat';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/invite/self
+ *
+ * Send ourselves an invite to an instance so the game client can join it.
+ * Body: { location: 'wrld_xxx:instance' }
+ * Invite / Invite+ instances (unless we own them) and group-members-only instances
+ * we don't belong to are rejected with 403 and a { code } from lib/invites.
+ */
+export async function POST(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'invite');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    let location: string;
+    try {
+        const body: unknown = await req.json();
+        const input = body && typeof body === 'object' ? body as { location?: unknown } : {};
+        if (typeof input.location !== 'string' || input.location.length > 500 || !parseLocation(input.location)) {
+            return NextResponse.json({ error: 'Invalid location' }, { status: 400 });
+        }
+        location = input.location;
+    } catch {
+        return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const client = createVRChatClient(session, { priority: 'interactive' });
+
+    try {
+        const parsed = parseLocation(location);
+        const selfId = await getAccountId(session);
+        const groupMember = parsed?.type === 'Group' && parsed.groupId
+            ? await isGroupMember(client, parsed.groupId)
+            : undefined;
+
+        const denial = getSelfInviteDenial(location, { selfId, isGroupMember: groupMember });
+        if (denial) {
+            return NextResponse.json({ error: denial.message, code: denial.code }, { status: 403 });
+        }
+
+        await client.inviteSelf(location);
+        console.log(`[InviteAPI] Self-invite to ${parsed?.type} instance`);
+        return NextResponse.json({ success: true });
+    } catch (error: unknown) {
+        console.error('[InviteAPI] Error:', error);
+        return vrchatErrorResponse(error, 'Failed to send self-invite');
+    }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { getCurrentSession } from '@/lib/sessionStore';
+import { getVRChatSchedulerMetrics } from '@/lib/vrchatScheduler';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/metrics/vrchat
+ *
+ * Outbound VRChat API scheduler metrics for this server process: requests sent,
+ * 429s and retries, queue length and wait time per priority, remaining budget.
+ * The numbers cover every user of the server, so only accounts listed in
+ * METRICS_ACCOUNTS may read them.
+ */
+export async function GET(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'api');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    const stored = await getCurrentSession();
+    if (!stored?.userId) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+    if (!getConfig().metricsAccounts.includes(stored.userId)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    return NextResponse.json(getVRChatSchedulerMetrics());
+}
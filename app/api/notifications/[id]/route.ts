@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { getOwnLocation, parseLocation } from '@/lib/location';
+import { NotificationAction, NotificationSource, parseDetails } from '@/lib/notifications';
+import { createVRChatClient, getSession, VRChatClient, vrchatErrorResponse, VrcNotification } from '@/lib/vrchat';
+
+export const dynamic = 'force-dynamic';
+
+const ACTIONS: readonly string[] = ['read', 'accept', 'decline'];
+
+// Notifications fetched per page, and how many pages are searched for the one to accept
+const NOTIFICATION_PAGE_SIZE = 100;
+const MAX_NOTIFICATION_PAGES = 10;
+
+// Find a v1 notification by id; it may be older than the first page the inbox loaded
+async function findNotification(client: VRChatClient, id: string): Promise<VrcNotification | null> {
+    for (let page = 0; page < MAX_NOTIFICATION_PAGES; page++) {
+        const notifications = await client.getNotifications({ n: NOTIFICATION_PAGE_SIZE, offset: page * NOTIFICATION_PAGE_SIZE });
+        const notification = notifications.find(n => n.id === id);
+        if (notification) return notification;
+        if (notifications.length < NOTIFICATION_PAGE_SIZE) break;
+    }
+    return null;
+}
+
+// Accept a v1 notification according to its type
+async function acceptNotification(client: VRChatClient, id: string): Promise<NextResponse | null> {
+    const notification = await findNotification(client, id);
+    if (!notification) {
+        return NextResponse.json({ error: 'Notification not found' }, { status: 404 });
+    }
+
+    switch (notification.type) {
+        case 'friendRequest':
+            await client.acceptFriendRequest(id);
+            return null;
+
+        // Join the instance we were invited to by inviting ourselves there
+        case 'invite': {
+            const details = parseDetails(notification.details);
+            const location = typeof details.worldId === 'string' ? details.worldId : '';
+            if (!parseLocation(location)) {
+                return NextResponse.json({ error: 'Invite has no joinable instance' }, { status: 400 });
+            }
+            await client.inviteSelf(location);
+            await client.hideNotification(id);
+            return null;
+        }
+
+        // Send the requester an invite to where we are
+        case 'requestInvite': {
+            if (!notification.senderUserId) {
+                return NextResponse.json({ error: 'Unknown sender' }, { status: 400 });
+            }
+            const location = getOwnLocation(await client.getCurrentUser());
+            if (!parseLocation(location)) {
+                return NextResponse.json({ error: 'You are not in an instance' }, { status: 409 });
+            }
+            await client.inviteUser(notification.senderUserId, location);
+            await client.hideNotification(id);
+            return null;
+        }
+
+        default:
+            return NextResponse.json({ error: 'This notification cannot be accepted' }, { status: 400 });
+    }
+}
+
+/**
+ * POST /api/notifications/[id]
+ *
+ * Act on a notification. Body: { action: 'read' | 'accept' | 'decline', source?: 'v1' | 'v2' }
+ * - read:    mark as seen
+ * - accept:  friendRequest → accept, invite → self-invite to the instance,
+ *            requestInvite → invite the sender to our current instance (v1 only)
+ * - decline: hide (v1) / delete (v2)
+ */
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'notifications');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    const { id } = await params;
+
+    // Input validation: notification IDs are not_xxx (v1) or ntf_xxx (v2)
+    if (!id || !/^(not|ntf)_[A-Za-z0-9_-]+$/.test(id) || id.length > 100) {
+        return NextResponse.json({ error: 'Invalid notification ID format' }, { status: 400 });
+    }
+
+    let action: NotificationAction;
+    let source: NotificationSource;
+    try {
+        const body: unknown = await req.json();
+        if (!body || typeof body !== 'object') {
+            return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+        }
+        const input = body as { action?: unknown; source?: unknown };
+        if (typeof input.action !== 'string' || !ACTIONS.includes(input.action)) {
+            return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+        }
+        if (input.source !== undefined && input.source !== 'v1' && input.source !== 'v2') {
+            return NextResponse.json({ error: 'Invalid source' }, { status: 400 });
+        }
+        action = input.action as NotificationAction;
+        source = (input.source as NotificationSource | undefined) || (id.startsWith('ntf_') ? 'v2' : 'v1');
+    } catch {
+        return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const client = createVRChatClient(session, { priority: 'interactive' });
+
+    try {
+        if (source === 'v2') {
+            if (action === 'accept') {
+                return NextResponse.json({ error: 'This notification cannot be accepted' }, { status: 400 });
+            }
+            if (action === 'read') await client.markNotificationV2Seen(id);
+            else await client.deleteNotificationV2(id);
+        } else if (action === 'read') {
+            await client.markNotificationSeen(id);
+        } else if (action === 'decline') {
+            await client.hideNotification(id);
+        } else {
+            const errorResponse = await acceptNotification(client, id);
+            if (errorResponse) return errorResponse;
+        }
+
+        console.log(`[NotificationsAPI] ${action} ${source} notification`);
+        return NextResponse.json({ success: true });
+    } catch (error: unknown) {
+        console.error('[NotificationsAPI] Error:', error);
+        return vrchatErrorResponse(error, `Failed to ${action} notification`);
+    }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { createVRChatClient, getSession, vrchatErrorResponse } from '@/lib/vrchat';
+import { AppNotification, normalizeNotification, normalizeNotificationV2, sortNotifications } from '@/lib/notifications';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/notifications
+ *
+ * Pending notifications for the logged-in user: v1 (invite, requestInvite,
+ * friendRequest, ...) and v2 (group announcements, ...), newest first.
+ */
+export async function GET(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'notifications');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
+
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const client = createVRChatClient(session);
+
+    try {
+        const notifications: AppNotification[] = (await client.getNotifications())
+            .map(normalizeNotification);
+
+        // v2 notifications are optional; the inbox still works without them
+        try {
+            const v2 = await client.getNotificationsV2();
+            notifications.push(...v2.map(normalizeNotificationV2));
+        } catch (error) {
+            console.error('[NotificationsAPI] Failed to fetch v2 notifications:', error);
+        }
+
+        return NextResponse.json({ notifications: sortNotifications(notifications) });
+    } catch (error: unknown) {
+        console.error('[NotificationsAPI] Error:', error);
+        return vrchatErrorResponse(error, 'Failed to fetch notifications');
+    }
+}
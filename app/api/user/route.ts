@@ -1,46 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { parseProfileUpdate, ProfileUpdate } from '@/lib/profile';
+import { createVRChatClient, getAccountId, getSession, vrchatErrorResponse } from '@/lib/vrchat';
 
 export const dynamic = 'force-dynamic';
 
-const API_BASE = 'https://api.vrchat.cloud/api/1';
-
 export async function GET(req: NextRequest) {
     // Rate limiting check
-    const rateCheck = checkRateLimit(req, 'user');
+    const rateCheck = await checkRateLimit(req, 'user');
     if (rateCheck.limited) {
         return rateLimitResponse(rateCheck.resetIn);
     }
 
-    // Only forward VRChat-specific cookies (security: don't leak other cookies)
-    const cookieStore = req.cookies;
-    const authCookie = cookieStore.get('auth')?.value;
-    const twoFactorCookie = cookieStore.get('twoFactorAuth')?.value;
-
-    if (!authCookie) {
+    // Only VRChat-specific cookies are forwarded (security: don't leak other cookies)
+    const session = await getSession();
+    if (!session) {
         return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
-    // Build cookie header with only VRChat cookies
-    let cookieHeader = `auth=${authCookie}`;
-    if (twoFactorCookie) cookieHeader += `; twoFactorAuth=${twoFactorCookie}`;
+    try {
+        const data = await createVRChatClient(session).getCurrentUser();
+        return NextResponse.json(data);
+    } catch (error: unknown) {
+        console.error('[UserAPI] Error:', error);
+        return vrchatErrorResponse(error, 'Failed to fetch user');
+    }
+}
 
-    const headers: Record<string, string> = {
-        'User-Agent': 'VRCSocial/1.0.0 (GitHub: vrcsocial-dev)',
-        'Cookie': cookieHeader
-    };
+/**
+ * PUT /api/user
+ *
+ * Edit the logged-in user's profile. Body: { status?, statusDescription?, bio? }
+ * (at least one; limits in lib/profile). Returns the updated user like GET.
+ */
+export async function PUT(req: NextRequest) {
+    // Rate limiting check
+    const rateCheck = await checkRateLimit(req, 'profileUpdate');
+    if (rateCheck.limited) {
+        return rateLimitResponse(rateCheck.resetIn);
+    }
 
+    let update: ProfileUpdate;
     try {
-        const apiRes = await fetch(`${API_BASE}/auth/user`, { headers });
-
-        if (!apiRes.ok) {
-            return NextResponse.json({ error: 'Failed to fetch user' }, { status: apiRes.status });
+        const parsed = parseProfileUpdate(await req.json());
+        if ('error' in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
         }
+        update = parsed.update;
+    } catch {
+        return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
 
-        const data = await apiRes.json();
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    try {
+        const accountId = await getAccountId(session);
+        const data = await createVRChatClient(session, { priority: 'interactive' }).updateUser(accountId, update);
         return NextResponse.json(data);
     } catch (error: unknown) {
-        console.error('[UserAPI] Error:', error);
-        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+        console.error('[UserAPI] Failed to update profile:', error);
+        return vrchatErrorResponse(error, 'Failed to update profile');
     }
 }
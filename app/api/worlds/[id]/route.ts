@@ -1,16 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
 import { checkRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { createVRChatClient, getSession, vrchatErrorResponse } from '@/lib/vrchat';
+import { getCachedWorld } from '@/lib/vrchatCache';
 
 export const dynamic = 'force-dynamic';
 
-const API_BASE = 'https://api.vrchat.cloud/api/1';
-const USER_AGENT = 'VRCSocial/1.0.0 (GitHub: vrcsocial-dev)';
-
 /**
  * GET /api/worlds/[id]
  * 
- * Fetches world information from VRChat API.
+ * Fetches world information from VRChat API (through the server cache).
  * Used to get world details when WebSocket events don't include world info.
  */
 export async function GET(
@@ -18,7 +16,7 @@ export async function GET(
     { params }: { params: Promise<{ id: string }> }
 ) {
     // Rate limiting check
-    const rateCheck = checkRateLimit(req, 'worlds');
+    const rateCheck = await checkRateLimit(req, 'worlds');
     if (rateCheck.limited) {
         return rateLimitResponse(rateCheck.resetIn);
     }
@@ -33,34 +31,17 @@ export async function GET(
         );
     }
 
-    const cookieStore = await cookies();
-    const authCookie = cookieStore.get('auth')?.value;
+    const session = await getSession();
 
-    if (!authCookie) {
+    if (!session) {
         return NextResponse.json(
             { error: 'Not authenticated' },
             { status: 401 }
         );
     }
 
-    const headers: Record<string, string> = {
-        'User-Agent': USER_AGENT,
-        'Accept': 'application/json',
-        'Cookie': `auth=${authCookie}`
-    };
-
     try {
-        const res = await fetch(`${API_BASE}/worlds/${worldId}`, { headers });
-
-        if (!res.ok) {
-            console.error(`[WorldsAPI] Failed to fetch world ${worldId}:`, res.status);
-            return NextResponse.json(
-                { error: 'Failed to fetch world' },
-                { status: res.status }
-            );
-        }
-
-        const worldData = await res.json();
+        const worldData = await getCachedWorld(createVRChatClient(session, { priority: 'interactive' }), worldId);
 
         // Return simplified world data
         return NextResponse.json({
@@ -85,10 +66,7 @@ export async function GET(
         });
 
     } catch (error: unknown) {
-        console.error('[WorldsAPI] Error:', error);
-        return NextResponse.json(
-            { error: 'Internal server error' },
-            { status: 500 }
-        );
+        console.error(`[WorldsAPI] Failed to fetch world ${worldId}:`, error);
+        return vrchatErrorResponse(error, 'Failed to fetch world');
     }
 }
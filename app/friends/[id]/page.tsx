@@ -6,6 +6,7 @@ import Image from "next/image";
 import { useParams } from "next/navigation";
 import { useEffect, useState } from "react";
 import { useFriends } from "@/components/providers/FriendsProvider";
+import { InviteActions } from "@/components/invite/InviteActions";
 
 type FriendData = {
     id: string;
@@ -238,6 +239,17 @@ export default function FriendDetailsPage() {
                         </a>
                     )}
                 </div>
+
+                {/* Invite Actions */}
+                {isOnline && (isInWorld || friend.location === 'private') && (
+                    <div className="mt-3 pt-3 border-t border-white/5">
+                        <InviteActions
+                            location={friend.location}
+                            target={{ id: friend.id, name: friend.name }}
+                            showMessagePicker
+                        />
+                    </div>
+                )}
             </div>
 
             {/* Bio */}
@@ -32,12 +32,11 @@ const formatStatusLabel = (status: string): string => {
 // 型定義
 type LogEntry = {
     id: number;
-    date: string;
-    timestamp?: number;
+    timestamp: number;
     type: string;
     user: string;
     detail: string;
-    status?: string;
+    status?: string | null;
 };
 
 type TimelineEntry = {
@@ -78,15 +77,6 @@ const formatDateTime = (date: Date): string => `${formatDate(date)} ${formatTime
 const formatNumber = (value: number): string => new Intl.NumberFormat('ja-JP').format(value);
 const getEntryDurationMs = (entry: TimelineEntry): number => Math.max(0, entry.endTime.getTime() - entry.startTime.getTime());
 
-// ログの日付をパース
-const parseLogTime = (log: LogEntry): Date | null => {
-    if (log.timestamp) return new Date(log.timestamp);
-    const m = log.date.match(/(\d+)\/(\d+)\s+(\d+):(\d+)/);
-    if (!m) return null;
-    const now = new Date();
-    return new Date(now.getFullYear(), parseInt(m[1]) - 1, parseInt(m[2]), parseInt(m[3]), parseInt(m[4]));
-};
-
 const DAYS_TO_SHOW = 7;
 const DAY_WIDTH_BASE = 800;
 
@@ -202,16 +192,25 @@ export default function GraphPage() {
         return { start: startDate, end: today };
     }, []);
 
-    // ログ読み込み（手動のみ）
-    const loadLogs = useCallback(() => {
+    // ログ読み込み（手動のみ）: サーバーの履歴から表示範囲分を取得
+    const loadLogs = useCallback(async () => {
         try {
-            const data = localStorage.getItem('vrc_logs');
-            setLogs(data ? JSON.parse(data) : []);
+            const params = new URLSearchParams({
+                from: String(dateRange.start.getTime()),
+                to: String(dateRange.end.getTime()),
+                types: 'OnLine,GPS,Offline,Status',
+                favorites: '1',
+                limit: '5000',
+            });
+            const res = await fetch(`/api/history?${params}`);
+            if (!res.ok) return;
+            const data = await res.json();
+            setLogs(data.entries || []);
             setLastLoadedAt(new Date());
         } catch (e) {
             console.error(e);
         }
-    }, []);
+    }, [dateRange]);
 
     useEffect(() => {
         loadLogs();
@@ -261,16 +260,14 @@ export default function GraphPage() {
     const allEntries = useMemo((): TimelineEntry[] => {
         const { start, end } = dateRange;
         const rangeLogs = logs
-            .map(log => ({ log, time: parseLogTime(log) }))
-            .filter(({ time }) => time && time >= start && time <= end)
-            .sort((a, b) => a.time!.getTime() - b.time!.getTime());
+            .map(log => ({ log, time: new Date(log.timestamp) }))
+            .filter(({ time }) => time >= start && time <= end)
+            .sort((a, b) => a.time.getTime() - b.time.getTime());
 
         const sessions = new Map<string, { world: string; start: Date; status: string }>();
         const entries: TimelineEntry[] = [];
 
         for (const { log, time } of rangeLogs) {
-            if (!time) continue;
-
             if (log.type === 'OnLine') {
                 sessions.set(log.user, { world: log.detail || 'Unknown', start: time, status: log.status || 'active' });
             } else if (log.type === 'GPS') {
@@ -384,7 +381,7 @@ export default function GraphPage() {
         }
     }, []);
 
-    // テストデータ生成
+    // テストデータ生成（表示のみ、サーバーには保存しない）
     const addTestData = useCallback(() => {
         const testLogs: LogEntry[] = [];
         const now = new Date();
@@ -404,19 +401,17 @@ export default function GraphPage() {
                 const world2 = worlds[(userIdx + dayOffset + 1) % worlds.length];
 
                 testLogs.push(
-                    { id: Date.now() + userIdx * 100 + dayOffset * 10, date: '', timestamp: start.getTime(), type: 'OnLine', user, detail: world1, status: statuses[userIdx % 4] },
-                    { id: Date.now() + userIdx * 100 + dayOffset * 10 + 1, date: '', timestamp: mid.getTime(), type: 'GPS', user, detail: `${world1} → ${world2}`, status: statuses[(userIdx + 1) % 4] },
+                    { id: Date.now() + userIdx * 100 + dayOffset * 10, timestamp: start.getTime(), type: 'OnLine', user, detail: world1, status: statuses[userIdx % 4] },
+                    { id: Date.now() + userIdx * 100 + dayOffset * 10 + 1, timestamp: mid.getTime(), type: 'GPS', user, detail: `${world1} → ${world2}`, status: statuses[(userIdx + 1) % 4] },
                 );
                 if (dayOffset > 0) {
                     const end = new Date(baseDate); end.setHours(22, 0, 0, 0);
-                    testLogs.push({ id: Date.now() + userIdx * 100 + dayOffset * 10 + 2, date: '', timestamp: end.getTime(), type: 'Offline', user, detail: 'Offline', status: 'offline' });
+                    testLogs.push({ id: Date.now() + userIdx * 100 + dayOffset * 10 + 2, timestamp: end.getTime(), type: 'Offline', user, detail: 'Offline', status: 'offline' });
                 }
             });
         }
 
-        const existing = JSON.parse(localStorage.getItem('vrc_logs') || '[]');
-        localStorage.setItem('vrc_logs', JSON.stringify([...testLogs, ...existing].slice(0, 500)));
-        setLogs([...testLogs, ...existing].slice(0, 500));
+        setLogs(existing => [...testLogs, ...existing]);
         setLastLoadedAt(new Date());
     }, []);
 
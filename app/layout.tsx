@@ -2,7 +2,9 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import Sidebar from "@/components/layout/Sidebar";
+import { SessionExpiredModal } from "@/components/auth/SessionExpiredModal";
 import { FriendsProvider } from "@/components/providers/FriendsProvider";
+import { NotificationsProvider } from "@/components/providers/NotificationsProvider";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -20,21 +22,25 @@ export default function RootLayout({
     <html lang="en" className="dark">
       <body className={`${inter.className} min-h-screen bg-background text-foreground antialiased selection:bg-indigo-500/30`}>
         <FriendsProvider>
-          <div className="flex min-h-screen relative overflow-hidden">
-            {/* Background Ambient Glow */}
-            <div className="fixed inset-0 z-0 pointer-events-none">
-              <div className="absolute top-[-10%] left-[-10%] w-[40%] h-[40%] rounded-full bg-indigo-600/10 blur-[120px]" />
-              <div className="absolute bottom-[-10%] right-[-10%] w-[40%] h-[40%] rounded-full bg-cyan-600/10 blur-[120px]" />
-            </div>
+          <NotificationsProvider>
+            <div className="flex min-h-screen relative overflow-hidden">
+              {/* Background Ambient Glow */}
+              <div className="fixed inset-0 z-0 pointer-events-none">
+                <div className="absolute top-[-10%] left-[-10%] w-[40%] h-[40%] rounded-full bg-indigo-600/10 blur-[120px]" />
+                <div className="absolute bottom-[-10%] right-[-10%] w-[40%] h-[40%] rounded-full bg-cyan-600/10 blur-[120px]" />
+              </div>
 
-            <Sidebar />
+              <Sidebar />
 
-            <main className="flex-1 ml-0 md:ml-64 relative z-10 p-4 md:p-8 pb-24 md:pb-8">
-              <div className="max-w-7xl mx-auto">
-                {children}
-              </div>
-            </main>
-          </div>
+              <main className="flex-1 ml-0 md:ml-64 relative z-10 p-4 md:p-8 pb-24 md:pb-8">
+                <div className="max-w-7xl mx-auto">
+                  {children}
+                </div>
+              </main>
+            </div>
+
+            <SessionExpiredModal />
+          </NotificationsProvider>
         </FriendsProvider>
       </body>
     </html>
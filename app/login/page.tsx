@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { Lock, User, ArrowRight, Loader2, ShieldCheck } from 'lucide-react';
+import { normalizeTwoFactorCode, parseTwoFactorMethods, TWO_FACTOR_METHOD_INFO, TwoFactorMethod } from '@/lib/twoFactor';
 
 const getErrorMessage = (error: unknown): string => {
     if (error instanceof Error) return error.message;
@@ -13,10 +14,29 @@ export default function LoginPage() {
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [code, setCode] = useState('');
+    // 2FA methods VRChat offered for this login, and the one being used
+    const [methods, setMethods] = useState<TwoFactorMethod[]>(['totp']);
+    const [method, setMethod] = useState<TwoFactorMethod>('totp');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
     const [debugInfo, setDebugInfo] = useState('');
 
+    const startTwoFactor = (offered: unknown) => {
+        const parsed = parseTwoFactorMethods(offered);
+        const available: TwoFactorMethod[] = parsed.length > 0 ? parsed : ['totp'];
+        setMethods(available);
+        setMethod(available[0]);
+        setCode('');
+        setStep('2fa');
+    };
+
+    const changeMethod = (next: TwoFactorMethod) => {
+        setMethod(next);
+        setCode('');
+        setError('');
+        setDebugInfo('');
+    };
+
     const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsLoading(true);
@@ -38,13 +58,13 @@ export default function LoginPage() {
                 // No credentials stored in localStorage for security
 
                 if (data.requiresTwoFactorAuth) {
-                    setStep('2fa');
+                    startTwoFactor(data.twoFactorAuthType);
                 } else {
                     // Full page reload to reinitialize FriendsProvider
                     window.location.href = '/';
                 }
             } else if (res.status === 401 && data.requiresTwoFactorAuth) {
-                setStep('2fa');
+                startTwoFactor(data.twoFactorAuthType);
             } else {
                 setError(`Login failed: ${res.status}`);
                 // Show full response data for debugging
@@ -68,7 +88,7 @@ export default function LoginPage() {
             const res = await fetch('/api/auth/verify', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ code }),
+                body: JSON.stringify({ code, type: method }),
             });
 
             const data = await res.json();
@@ -180,33 +200,52 @@ export default function LoginPage() {
                 ) : (
 
                     <form onSubmit={handleVerify} className="space-y-6">
+                        {methods.length > 1 && (
+                            <div className="flex gap-1 p-1 bg-slate-900/50 border border-slate-700 rounded-xl">
+                                {methods.map((m) => (
+                                    <button
+                                        key={m}
+                                        type="button"
+                                        onClick={() => changeMethod(m)}
+                                        className={`flex-1 py-2 rounded-lg text-xs font-medium transition-colors ${m === method
+                                            ? 'bg-indigo-600 text-white'
+                                            : 'text-slate-400 hover:text-white hover:bg-white/5'}`}
+                                        aria-pressed={m === method}
+                                    >
+                                        {TWO_FACTOR_METHOD_INFO[m].label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
                         <div className="space-y-2">
-                            <label className="text-xs font-bold text-slate-400 uppercase ml-1">Authentication Code</label>
+                            <label className="text-xs font-bold text-slate-400 uppercase ml-1">
+                                {method === 'otp' ? 'Recovery Code' : 'Authentication Code'}
+                            </label>
                             <div className="relative">
                                 <ShieldCheck className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
                                 <input
+                                    key={method}
                                     type="text"
-                                    inputMode="numeric"
-                                    pattern="[0-9]*"
+                                    inputMode={TWO_FACTOR_METHOD_INFO[method].numeric ? 'numeric' : 'text'}
                                     autoComplete="one-time-code"
+                                    autoCapitalize="off"
+                                    spellCheck={false}
                                     value={code}
                                     onChange={(e) => {
-                                        // Convert full-width numbers to half-width, then filter non-numeric
-                                        const halfWidth = e.target.value.replace(/[０-９]/g, (s) => 
-                                            String.fromCharCode(s.charCodeAt(0) - 0xFEE0)
-                                        );
-                                        const numericValue = halfWidth.replace(/[^0-9]/g, '');
-                                        setCode(numericValue);
+                                        // Convert full-width characters to half-width, then drop separators
+                                        // and anything the method's codes can't contain
+                                        setCode(normalizeTwoFactorCode(method, e.target.value));
                                     }}
                                     className="w-full bg-slate-900/50 border border-slate-700 rounded-xl pl-10 pr-4 py-3 text-white focus:outline-none focus:border-indigo-500 transition-colors tracking-widest text-center text-lg"
                                     style={{ imeMode: 'disabled' }}
-                                    placeholder="000000"
-                                    maxLength={6}
+                                    placeholder={TWO_FACTOR_METHOD_INFO[method].placeholder}
+                                    maxLength={TWO_FACTOR_METHOD_INFO[method].maxInputLength}
                                     required
                                 />
                             </div>
                             <p className="text-xs text-slate-500 text-center mt-2">
-                                Check your authenticator app or email.
+                                {TWO_FACTOR_METHOD_INFO[method].hint}
                             </p>
                         </div>
 
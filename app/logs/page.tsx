@@ -20,11 +20,18 @@ const getWsStatusDisplay = (state: ConnectionState) => {
 
 type LogEntry = {
     id: number;
-    date: string;
+    timestamp: number;
     type: string;
+    userId: string;
     user: string;
     detail: string;
-    color?: string;
+};
+
+// Format a timestamp as "MM/DD HH:mm"
+const formatDate = (timestamp: number) => {
+    const d = new Date(timestamp);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${pad(d.getMonth() + 1)}/${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
 };
 
 export default function LogsPage() {
@@ -34,28 +41,30 @@ export default function LogsPage() {
     const [filterType, setFilterType] = useState<string>('all');
 
     useEffect(() => {
-        const loadLogs = () => {
-            if (typeof window !== 'undefined') {
-                const stored = localStorage.getItem('vrc_logs');
-                if (stored) {
-                    try {
-                        setLogs(JSON.parse(stored));
-                    } catch (e) {
-                        console.error(e);
-                    }
+        if (!isAuthenticated) return;
+
+        // History is recorded on the server (favorite friends only are shown here)
+        const loadLogs = async () => {
+            const params = new URLSearchParams({ favorites: '1', limit: '500' });
+            if (filterType !== 'all') params.set('types', filterType);
+            try {
+                const res = await fetch(`/api/history?${params}`);
+                if (res.ok) {
+                    const data = await res.json();
+                    setLogs(data.entries || []);
                 }
+            } catch (e) {
+                console.error(e);
             }
         };
 
         loadLogs();
-        const interval = setInterval(loadLogs, 2000);
+        const interval = setInterval(loadLogs, 5000);
         return () => clearInterval(interval);
-    }, []);
+    }, [isAuthenticated, filterType]);
 
     const filteredLogs = useMemo(() => {
         return logs.filter(log => {
-            // Filter by type
-            if (filterType !== 'all' && log.type !== filterType) return false;
             // Filter by search query
             if (searchQuery) {
                 const query = searchQuery.toLowerCase();
@@ -66,12 +75,16 @@ export default function LogsPage() {
             }
             return true;
         });
-    }, [logs, searchQuery, filterType]);
+    }, [logs, searchQuery]);
 
-    const clearLogs = () => {
+    const clearLogs = async () => {
         if (confirm('ログを全て削除しますか？')) {
-            localStorage.removeItem('vrc_logs');
-            setLogs([]);
+            try {
+                const res = await fetch('/api/history', { method: 'DELETE' });
+                if (res.ok) setLogs([]);
+            } catch (e) {
+                console.error(e);
+            }
         }
     };
 
@@ -188,7 +201,7 @@ export default function LogsPage() {
                                         className="hover:bg-white/5 transition-colors"
                                     >
                                         <td className="px-3 py-2 text-slate-500 font-mono text-xs whitespace-nowrap">
-                                            {log.date}
+                                            {formatDate(log.timestamp)}
                                         </td>
                                         <td className={`px-3 py-2 ${style.color} text-xs`}>
                                             {log.type}
@@ -0,0 +1,341 @@
+'use client';
+
+import { Globe, Home, Loader2, MapPin, Save, UserCircle, UserX } from "lucide-react";
+import Image from "next/image";
+import { useEffect, useRef, useState } from "react";
+import { useFriends } from "@/components/providers/FriendsProvider";
+import { getOwnLocation, getRegionLabel, parseLocation } from "@/lib/location";
+import { isUserStatus, MAX_BIO_LENGTH, MAX_STATUS_DESCRIPTION_LENGTH, ProfileUpdate, USER_STATUSES, UserStatus } from "@/lib/profile";
+
+// Fields of GET /api/user (VRChat's current user) shown here
+type CurrentUser = {
+    id: string;
+    displayName: string;
+    status?: string;
+    statusDescription?: string;
+    bio?: string;
+    location?: string;
+    homeLocation?: string;
+    presence?: {
+        world?: string;
+        instance?: string;
+    };
+    userIcon?: string;
+    currentAvatarThumbnailImageUrl?: string;
+};
+
+type WorldSummary = {
+    id: string;
+    name: string;
+    authorName?: string;
+    thumbnailImageUrl?: string;
+    imageUrl?: string;
+};
+
+const STATUS_STYLES: Record<UserStatus, { label: string; className: string }> = {
+    'join me': { label: 'Join Me', className: 'bg-blue-500' },
+    'active': { label: 'Active', className: 'bg-green-500' },
+    'ask me': { label: 'Ask Me', className: 'bg-orange-500' },
+    'busy': { label: 'Busy', className: 'bg-red-500' },
+};
+
+const WorldCard = ({ world, children }: { world: WorldSummary | null | undefined; children?: React.ReactNode }) => {
+    if (world === undefined) {
+        return (
+            <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-indigo-500" />
+            </div>
+        );
+    }
+    if (!world) {
+        return <p className="text-center py-8 text-slate-500">World information unavailable</p>;
+    }
+    const image = world.thumbnailImageUrl || world.imageUrl;
+    return (
+        <div className="space-y-3">
+            <div className="relative rounded-xl overflow-hidden aspect-video bg-slate-800">
+                {image && (
+                    <Image src={image} alt={world.name} fill sizes="(max-width: 1024px) 100vw, 50vw" className="object-cover" unoptimized />
+                )}
+                <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent flex items-end p-4">
+                    <div>
+                        <h4 className="text-lg font-bold text-white">{world.name}</h4>
+                        {world.authorName && <p className="text-xs text-slate-300">by {world.authorName}</p>}
+                    </div>
+                </div>
+            </div>
+            {children}
+        </div>
+    );
+};
+
+export default function MyProfilePage() {
+    const { myLocation } = useFriends();
+    const [user, setUser] = useState<CurrentUser | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    // Looked-up worlds by ID; null when the lookup failed
+    const [worlds, setWorlds] = useState<Record<string, WorldSummary | null>>({});
+    const requestedWorlds = useRef(new Set<string>());
+
+    const [status, setStatus] = useState<UserStatus>('active');
+    const [statusDescription, setStatusDescription] = useState('');
+    const [bio, setBio] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
+
+    const resetForm = (data: CurrentUser) => {
+        setStatus(isUserStatus(data.status) ? data.status : 'active');
+        setStatusDescription(data.statusDescription || '');
+        setBio(data.bio || '');
+    };
+
+    useEffect(() => {
+        const fetchUser = async () => {
+            try {
+                const res = await fetch('/api/user', { credentials: 'include' });
+                if (!res.ok) {
+                    setError(res.status === 401 ? 'Log in to see your profile.' : 'Failed to load your profile.');
+                    return;
+                }
+                const data: CurrentUser = await res.json();
+                setUser(data);
+                resetForm(data);
+            } catch (e) {
+                console.error('Failed to fetch profile:', e);
+                setError('Failed to load your profile.');
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchUser();
+    }, []);
+
+    // The live location from the event stream when we have one, else what VRChat reported
+    const location = myLocation || (user ? getOwnLocation(user) : '');
+    const parsedLocation = parseLocation(location);
+    const currentWorldId = parsedLocation?.worldId ?? null;
+    const homeWorldId = user?.homeLocation?.startsWith('wrld_') ? user.homeLocation : null;
+
+    // Look up world names and images for the current and home world
+    useEffect(() => {
+        [currentWorldId, homeWorldId].forEach(async (worldId) => {
+            if (!worldId || requestedWorlds.current.has(worldId)) return;
+            requestedWorlds.current.add(worldId);
+            let world: WorldSummary | null = null;
+            try {
+                const res = await fetch(`/api/worlds/${worldId}`, { credentials: 'include' });
+                if (res.ok) world = await res.json();
+            } catch (e) {
+                console.error(`Failed to fetch world ${worldId}:`, e);
+            }
+            setWorlds(prev => ({ ...prev, [worldId]: world }));
+        });
+    }, [currentWorldId, homeWorldId]);
+
+    if (loading) {
+        return (
+            <div className="flex flex-col items-center justify-center py-20 gap-4">
+                <Loader2 className="w-10 h-10 animate-spin text-indigo-500" />
+                <p className="text-slate-400">Loading...</p>
+            </div>
+        );
+    }
+
+    if (error || !user) {
+        return (
+            <div className="glass-card rounded-xl p-12 text-center">
+                <UserX className="w-16 h-16 text-slate-500 mx-auto mb-4" />
+                <p className="text-slate-400">{error || 'Failed to load your profile.'}</p>
+            </div>
+        );
+    }
+
+    // Only changed fields are sent
+    const changes: ProfileUpdate = {};
+    if (status !== user.status) changes.status = status;
+    if (statusDescription.trim() !== (user.statusDescription || '')) changes.statusDescription = statusDescription;
+    if (bio.trim() !== (user.bio || '')) changes.bio = bio;
+    const isDirty = Object.keys(changes).length > 0;
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setSaveError(null);
+        setSaved(false);
+        try {
+            const res = await fetch('/api/user', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(changes),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setSaveError(data.error || 'Failed to save your profile.');
+                return;
+            }
+            setUser(data);
+            resetForm(data);
+            setSaved(true);
+        } catch {
+            setSaveError('Failed to save your profile.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const icon = user.userIcon || user.currentAvatarThumbnailImageUrl;
+    const statusStyle = isUserStatus(user.status) ? STATUS_STYLES[user.status] : null;
+
+    return (
+        <div className="space-y-6 pb-24 md:pb-20">
+            {/* Header */}
+            <div className="glass-card rounded-2xl p-6 flex items-center gap-5">
+                <div className="relative shrink-0">
+                    <div className="w-20 h-20 rounded-full bg-slate-800 overflow-hidden">
+                        {icon ? (
+                            <Image src={icon} alt={user.displayName} width={80} height={80} className="w-full h-full object-cover" unoptimized />
+                        ) : (
+                            <div className="w-full h-full flex items-center justify-center text-3xl text-slate-500">
+                                {user.displayName.charAt(0)}
+                            </div>
+                        )}
+                    </div>
+                    <div className={`absolute bottom-0.5 right-0.5 w-5 h-5 rounded-full border-4 border-[#0f172a] ${statusStyle?.className || 'bg-slate-500'}`}></div>
+                </div>
+                <div className="min-w-0">
+                    <h2 className="text-2xl font-bold text-white truncate">{user.displayName}</h2>
+                    <p className="text-sm text-slate-300 mt-1 truncate">
+                        <span className="text-slate-400">{statusStyle?.label || user.status || 'Offline'}</span>
+                        {user.statusDescription && <> · {user.statusDescription}</>}
+                    </p>
+                </div>
+            </div>
+
+            {/* Edit */}
+            <form onSubmit={handleSave} className="glass-card rounded-2xl p-6 space-y-5">
+                <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                    <UserCircle className="w-5 h-5 text-indigo-400" /> Profile
+                </h3>
+
+                <div>
+                    <p className="text-xs text-slate-400 uppercase mb-2">Status</p>
+                    <div className="flex flex-wrap gap-2">
+                        {USER_STATUSES.map((value) => (
+                            <button
+                                key={value}
+                                type="button"
+                                onClick={() => setStatus(value)}
+                                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${value === status
+                                    ? 'bg-indigo-600 text-white'
+                                    : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                                aria-pressed={value === status}
+                            >
+                                <span className={`w-2.5 h-2.5 rounded-full ${STATUS_STYLES[value].className}`}></span>
+                                {STATUS_STYLES[value].label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <label className="block">
+                    <span className="flex justify-between text-xs text-slate-400 uppercase mb-2">
+                        Status description
+                        <span className="normal-case">{statusDescription.length}/{MAX_STATUS_DESCRIPTION_LENGTH}</span>
+                    </span>
+                    <input
+                        type="text"
+                        value={statusDescription}
+                        onChange={(e) => setStatusDescription(e.target.value)}
+                        maxLength={MAX_STATUS_DESCRIPTION_LENGTH}
+                        className="w-full bg-slate-900/50 border border-slate-700 rounded-xl px-4 py-2.5 text-white focus:outline-none focus:border-indigo-500 transition-colors"
+                    />
+                </label>
+
+                <label className="block">
+                    <span className="flex justify-between text-xs text-slate-400 uppercase mb-2">
+                        Bio
+                        <span className="normal-case">{bio.length}/{MAX_BIO_LENGTH}</span>
+                    </span>
+                    <textarea
+                        value={bio}
+                        onChange={(e) => setBio(e.target.value)}
+                        maxLength={MAX_BIO_LENGTH}
+                        rows={6}
+                        className="w-full bg-slate-900/50 border border-slate-700 rounded-xl px-4 py-2.5 text-white text-sm focus:outline-none focus:border-indigo-500 transition-colors resize-y"
+                    />
+                </label>
+
+                <div className="flex items-center justify-end gap-3">
+                    {saveError && <p className="text-sm text-rose-400 mr-auto">{saveError}</p>}
+                    {saved && !isDirty && <p className="text-sm text-green-400 mr-auto">Saved</p>}
+                    <button
+                        type="button"
+                        onClick={() => { resetForm(user); setSaveError(null); }}
+                        disabled={!isDirty || saving}
+                        className="px-4 py-2 rounded-xl text-sm text-slate-400 hover:text-white disabled:opacity-50 transition-colors"
+                    >
+                        Reset
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!isDirty || saving}
+                        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl text-sm font-bold transition-colors disabled:opacity-50 flex items-center gap-2"
+                    >
+                        {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                        Save
+                    </button>
+                </div>
+            </form>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Current Location */}
+                <div className="glass-card p-6 rounded-2xl">
+                    <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                        <MapPin className="w-5 h-5 text-indigo-400" /> Current Location
+                    </h3>
+                    {parsedLocation ? (
+                        <WorldCard world={worlds[parsedLocation.worldId]}>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="p-3 rounded-xl bg-white/5 border border-white/5">
+                                    <p className="text-xs text-slate-400 uppercase">Instance</p>
+                                    <p className="text-white font-medium mt-1">
+                                        {parsedLocation.type} {parsedLocation.name && `#${parsedLocation.name}`}
+                                    </p>
+                                </div>
+                                <div className="p-3 rounded-xl bg-white/5 border border-white/5">
+                                    <p className="text-xs text-slate-400 uppercase">Region</p>
+                                    <p className="text-white font-medium mt-1 flex items-center gap-2">
+                                        <Globe className="w-4 h-4 text-slate-400" /> {getRegionLabel(parsedLocation.region)}
+                                    </p>
+                                </div>
+                            </div>
+                        </WorldCard>
+                    ) : (
+                        <p className="text-center py-8 text-slate-500">
+                            {location === 'private'
+                                ? 'In a private world'
+                                : location === 'traveling'
+                                    ? 'Traveling'
+                                    : 'Not in VRChat right now'}
+                        </p>
+                    )}
+                </div>
+
+                {/* Home World */}
+                <div className="glass-card p-6 rounded-2xl">
+                    <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                        <Home className="w-5 h-5 text-cyan-400" /> Home World
+                    </h3>
+                    {homeWorldId ? (
+                        <WorldCard world={worlds[homeWorldId]} />
+                    ) : (
+                        <p className="text-center py-8 text-slate-500">No home world set</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { Bell, Check, X, Eye, UserPlus, Mail, Send, Megaphone, RefreshCw, MapPin } from "lucide-react";
+import { useMemo, useState } from "react";
+import { useFriends } from "@/components/providers/FriendsProvider";
+import { useNotifications } from "@/components/providers/NotificationsProvider";
+import { AppNotification, NotificationAction } from "@/lib/notifications";
+
+// Format an ISO date as "MM/DD HH:mm"
+const formatDate = (iso: string | null) => {
+    if (!iso) return '';
+    const d = new Date(iso);
+    if (Number.isNaN(d.getTime())) return '';
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${pad(d.getMonth() + 1)}/${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const getNotificationStyle = (notification: AppNotification) => {
+    switch (notification.type) {
+        case 'friendRequest': return { icon: UserPlus, color: 'text-green-400', bg: 'bg-green-500/10', label: 'Friend Request' };
+        case 'invite': return { icon: Mail, color: 'text-blue-400', bg: 'bg-blue-500/10', label: 'Invite' };
+        case 'requestInvite': return { icon: Send, color: 'text-orange-400', bg: 'bg-orange-500/10', label: 'Invite Request' };
+        default:
+            return notification.source === 'v2'
+                ? { icon: Megaphone, color: 'text-purple-400', bg: 'bg-purple-500/10', label: notification.type.startsWith('group.') ? 'Group' : 'Notice' }
+                : { icon: Bell, color: 'text-slate-400', bg: 'bg-slate-500/10', label: notification.type };
+    }
+};
+
+// Default text when VRChat sends no message
+const getDescription = (notification: AppNotification) => {
+    if (notification.message) return notification.message;
+    switch (notification.type) {
+        case 'friendRequest': return 'wants to be your friend';
+        case 'invite': return `invited you to ${notification.worldName || 'their instance'}`;
+        case 'requestInvite': return 'asked you for an invite';
+        default: return '';
+    }
+};
+
+const ACCEPT_LABELS: Record<string, string> = {
+    friendRequest: 'Accept',
+    invite: 'Join',
+    requestInvite: 'Invite',
+};
+
+export default function NotificationsPage() {
+    const { isAuthenticated } = useFriends();
+    const { notifications, unreadCount, loading, act, refresh } = useNotifications();
+    const [showUnreadOnly, setShowUnreadOnly] = useState(false);
+    const [pendingId, setPendingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const visible = useMemo(() => {
+        return showUnreadOnly ? notifications.filter(n => !n.seen) : notifications;
+    }, [notifications, showUnreadOnly]);
+
+    const handleAction = async (notification: AppNotification, action: NotificationAction) => {
+        setPendingId(notification.id);
+        setError(null);
+        const message = await act(notification, action);
+        if (message) setError(message);
+        setPendingId(null);
+    };
+
+    return (
+        <div className="space-y-4 md:space-y-6 pb-24 md:pb-20">
+            {/* Header */}
+            <div className="flex items-center justify-between gap-2 px-1">
+                <div className="flex items-center gap-2 md:gap-3">
+                    <h2 className="text-xl md:text-2xl font-bold text-white flex items-center gap-2">
+                        <Bell className="w-5 h-5 md:w-6 md:h-6 text-blue-500" /> Notifications
+                    </h2>
+                    <span className="text-xs text-slate-600">
+                        {unreadCount} unread
+                    </span>
+                </div>
+
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setShowUnreadOnly(v => !v)}
+                        className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                            showUnreadOnly
+                                ? 'bg-indigo-600 text-white'
+                                : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                        }`}
+                    >
+                        Unread
+                    </button>
+                    <button
+                        onClick={refresh}
+                        className="p-1.5 bg-slate-800 hover:bg-slate-700 text-slate-400 rounded-lg transition-colors"
+                        title="Refresh"
+                    >
+                        <RefreshCw className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="glass-card rounded-xl px-4 py-3 text-sm text-rose-400 flex items-center justify-between gap-2">
+                    <span>{error}</span>
+                    <button onClick={() => setError(null)} className="text-slate-500 hover:text-white">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
+            {/* List */}
+            {!isAuthenticated || (!loading && visible.length === 0) ? (
+                <div className="glass-card rounded-xl p-6 md:p-8 text-center">
+                    <div className="w-12 h-12 md:w-14 md:h-14 bg-blue-500/10 rounded-full flex items-center justify-center mx-auto mb-3">
+                        <Bell className="w-6 h-6 md:w-7 md:h-7 text-blue-400" />
+                    </div>
+                    <h3 className="text-base md:text-lg font-bold text-white mb-1">No Notifications</h3>
+                    <p className="text-muted-foreground text-xs md:text-sm">
+                        {!isAuthenticated
+                            ? "Log in to see your notifications."
+                            : notifications.length === 0
+                                ? "Invites and friend requests will appear here."
+                                : "No unread notifications."}
+                    </p>
+                </div>
+            ) : (
+                <div className="glass-card rounded-xl divide-y divide-white/5 overflow-hidden">
+                    {visible.map((notification) => {
+                        const style = getNotificationStyle(notification);
+                        const Icon = style.icon;
+                        const isPending = pendingId === notification.id;
+                        return (
+                            <div
+                                key={notification.id}
+                                className={`flex items-start gap-3 px-3 md:px-4 py-3 transition-colors ${notification.seen ? '' : 'bg-indigo-500/5'}`}
+                            >
+                                <div className={`w-9 h-9 rounded-full ${style.bg} flex items-center justify-center shrink-0`}>
+                                    <Icon className={`w-4 h-4 ${style.color}`} />
+                                </div>
+
+                                <div className="flex-1 min-w-0">
+                                    <div className="flex items-center gap-2 text-xs">
+                                        <span className={style.color}>{style.label}</span>
+                                        <span className="text-slate-600 font-mono">{formatDate(notification.createdAt)}</span>
+                                        {!notification.seen && <span className="w-1.5 h-1.5 rounded-full bg-rose-500" />}
+                                    </div>
+                                    <p className="text-sm text-white truncate mt-0.5">
+                                        {notification.title || notification.senderUsername || 'VRChat'}
+                                    </p>
+                                    {getDescription(notification) && (
+                                        <p className="text-xs text-slate-400 mt-0.5 break-words">
+                                            {getDescription(notification)}
+                                        </p>
+                                    )}
+                                    {notification.location && notification.worldName && (
+                                        <p className="text-xs text-slate-500 mt-0.5 flex items-center gap-1">
+                                            <MapPin className="w-3 h-3" /> {notification.worldName}
+                                        </p>
+                                    )}
+                                </div>
+
+                                <div className="flex items-center gap-1.5 shrink-0">
+                                    {!notification.seen && (
+                                        <button
+                                            onClick={() => handleAction(notification, 'read')}
+                                            disabled={isPending}
+                                            className="p-1.5 bg-slate-800 hover:bg-slate-700 text-slate-400 rounded-lg transition-colors disabled:opacity-50"
+                                            title="Mark as read"
+                                        >
+                                            <Eye className="w-3.5 h-3.5" />
+                                        </button>
+                                    )}
+                                    {notification.canAccept && (
+                                        <button
+                                            onClick={() => handleAction(notification, 'accept')}
+                                            disabled={isPending}
+                                            className="flex items-center gap-1 px-2 py-1 bg-green-600/20 hover:bg-green-600/30 text-green-400 rounded-lg text-xs transition-colors disabled:opacity-50"
+                                        >
+                                            <Check className="w-3.5 h-3.5" />
+                                            <span className="hidden sm:inline">{ACCEPT_LABELS[notification.type] || 'Accept'}</span>
+                                        </button>
+                                    )}
+                                    {notification.canDecline && (
+                                        <button
+                                            onClick={() => handleAction(notification, 'decline')}
+                                            disabled={isPending}
+                                            className="flex items-center gap-1 px-2 py-1 bg-red-600/20 hover:bg-red-600/30 text-red-400 rounded-lg text-xs transition-colors disabled:opacity-50"
+                                        >
+                                            <X className="w-3.5 h-3.5" />
+                                            <span className="hidden sm:inline">{notification.canAccept ? 'Decline' : 'Dismiss'}</span>
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
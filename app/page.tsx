@@ -4,8 +4,20 @@ import { Globe, User, Star, Users, Loader2, RefreshCw, Clock, Wifi, WifiOff, Loc
 import Link from "next/link";
 import Image from "next/image";
 import { useFriends, ConnectionState } from "@/components/providers/FriendsProvider";
+import { InviteActions } from "@/components/invite/InviteActions";
+import { FriendScopePicker, getFavoriteGroupLabel } from "@/components/friends/FriendScopePicker";
 import { useState, useEffect } from "react";
 
+// Merged view: which of your accounts have this friend
+const AccountTags = ({ accounts, className = '' }: { accounts?: string[]; className?: string }) => {
+    if (!accounts || accounts.length === 0) return null;
+    return (
+        <p className={`text-[10px] text-indigo-400/80 truncate mt-0.5 ${className}`} title={`Friend of ${accounts.join(', ')}`}>
+            {accounts.join(' · ')}
+        </p>
+    );
+};
+
 // Format duration from timestamp
 const formatDuration = (joinedAt: number | undefined): string => {
     if (!joinedAt) return '';
@@ -57,7 +69,12 @@ const getWsStatusDisplay = (state: ConnectionState) => {
 };
 
 export default function FavoritesPage() {
-    const { instances, offlineFriends, loading, isAuthenticated, lastUpdated, wsConnectionState, refresh } = useFriends();
+    const {
+        instances, offlineFriends, loading, isAuthenticated, lastUpdated, wsConnectionState, refresh,
+        scope, setScope, offlineHasMore, loadingMoreOffline, loadMoreOffline,
+        accounts, mergeAccounts, setMergeAccounts
+    } = useFriends();
+    const isAllFriends = scope.mode === 'all';
     
     // Force re-render every second to update duration display
     const [, setTick] = useState(0);
@@ -71,8 +88,27 @@ export default function FavoritesPage() {
             <div className="flex items-center justify-between gap-2 px-1">
                 <div className="flex items-center gap-2 md:gap-3">
                     <h2 className="text-xl md:text-2xl font-bold text-white flex items-center gap-2">
-                        <Star className="w-5 h-5 md:w-6 md:h-6 text-yellow-500 fill-yellow-500" /> Favorites
+                        {isAllFriends ? (
+                            <><Users className="w-5 h-5 md:w-6 md:h-6 text-indigo-400" /> Friends</>
+                        ) : (
+                            <><Star className="w-5 h-5 md:w-6 md:h-6 text-yellow-500 fill-yellow-500" /> Favorites</>
+                        )}
                     </h2>
+                    {isAuthenticated && (
+                        <FriendScopePicker scope={scope} onChange={setScope} disabled={loading} />
+                    )}
+                    {isAuthenticated && accounts.length > 1 && (
+                        <button
+                            onClick={() => setMergeAccounts(!mergeAccounts)}
+                            className={`px-2 py-1 rounded-lg text-xs border transition-colors flex items-center gap-1 ${mergeAccounts
+                                ? 'bg-indigo-500/20 border-indigo-500/30 text-indigo-300'
+                                : 'bg-white/5 border-white/10 text-slate-500 hover:text-slate-300'}`}
+                            title="Show the friends of all your accounts, tagged with the accounts that have them"
+                        >
+                            <Users className="w-3 h-3" />
+                            <span className="hidden sm:inline">All accounts</span>
+                        </button>
+                    )}
                     {isAuthenticated && (
                         <span className={`text-xs flex items-center gap-1 ${getWsStatusDisplay(wsConnectionState).color}`} title={`Connection: ${wsConnectionState}`}>
                             {(() => {
@@ -118,10 +154,10 @@ export default function FavoritesPage() {
                     <div className="w-16 h-16 md:w-20 md:h-20 bg-indigo-500/10 rounded-full flex items-center justify-center mx-auto mb-4 md:mb-6">
                         <Users className="w-8 h-8 md:w-10 md:h-10 text-indigo-400" />
                     </div>
-                    <h3 className="text-lg md:text-xl font-bold text-white mb-2">No Active Favorites</h3>
+                    <h3 className="text-lg md:text-xl font-bold text-white mb-2">{isAllFriends ? 'No Active Friends' : 'No Active Favorites'}</h3>
                     <p className="text-muted-foreground max-w-sm mx-auto mb-6 text-sm md:text-base">
                         {isAuthenticated
-                            ? "None of your favorite friends seem to be online right now."
+                            ? (isAllFriends ? "None of your friends seem to be online right now." : "None of your favorite friends seem to be online right now.")
                             : "Log in to see your VRChat friends activity."}
                     </p>
                     {!isAuthenticated && (
@@ -186,11 +222,11 @@ export default function FavoritesPage() {
                                                     </div>
                                                 </div>
                                             </div>
-                                            <span className="flex items-center gap-1.5 px-2.5 py-1 bg-white/5 rounded-lg text-xs md:text-sm font-medium text-white shrink-0" title={`${group.userCount} favorites / ${group.instanceUserCount || '?'} total`}>
+                                            <span className="flex items-center gap-1.5 px-2.5 py-1 bg-white/5 rounded-lg text-xs md:text-sm font-medium text-white shrink-0" title={`${group.userCount} ${isAllFriends ? 'friends' : 'favorites'} / ${group.instanceUserCount || '?'} total`}>
                                                 <Users className="w-3.5 h-3.5 md:w-4 md:h-4 text-emerald-400" />
                                                 {group.instanceUserCount || group.userCount}
                                                 {group.instanceUserCount && group.instanceUserCount !== group.userCount && (
-                                                    <span className="text-slate-400 text-[10px] md:text-xs">({group.userCount}★)</span>
+                                                    <span className="text-slate-400 text-[10px] md:text-xs">({group.userCount}{isAllFriends ? '' : '★'})</span>
                                                 )}
                                             </span>
                                         </div>
@@ -221,7 +257,7 @@ export default function FavoritesPage() {
                                                             <div className="flex items-center justify-between gap-2">
                                                                 <p className="text-xs md:text-sm font-medium text-slate-200 group-hover/friend:text-white truncate flex items-center gap-1">
                                                                     {friend.name}
-                                                                    <Star className="w-3 h-3 text-yellow-500 fill-yellow-500 shrink-0" />
+                                                                    {friend.isFavorite && <Star className="w-3 h-3 text-yellow-500 fill-yellow-500 shrink-0" />}
                                                                 </p>
                                                                 {friend.joinedAt && (
                                                                     <span className="text-xs md:text-sm text-slate-400 flex items-center gap-1 shrink-0 font-mono">
@@ -235,6 +271,7 @@ export default function FavoritesPage() {
                                                                     {friend.statusMsg}
                                                                 </p>
                                                             )}
+                                                            <AccountTags accounts={friend.accounts} />
                                                         </div>
                                                     </Link>
                                                 ))}
@@ -286,12 +323,22 @@ export default function FavoritesPage() {
                                                                     {friend.statusMsg}
                                                                 </p>
                                                             )}
+                                                            <AccountTags accounts={friend.accounts} />
                                                         </div>
                                                     </Link>
                                                 ))}
                                             </div>
                                         )}
                                     </div>
+
+                                    {/* Invite Actions (ask the first friend listed for an invite) */}
+                                    <div className="px-3 md:px-4 py-2.5 border-t border-white/5">
+                                        <InviteActions
+                                            compact
+                                            location={group.id}
+                                            target={group.friends[0] || group.otherFriends?.[0]}
+                                        />
+                                    </div>
                                 </div>
                             ))}
                         </div>
@@ -332,7 +379,7 @@ export default function FavoritesPage() {
                                                 </div>
                                                 <p className="text-[10px] md:text-xs font-medium text-amber-300 group-hover/friend:text-amber-200 truncate max-w-full text-center flex items-center gap-1">
                                                     {friend.name}
-                                                    <Star className="w-3 h-3 text-yellow-500 fill-yellow-500 shrink-0" />
+                                                    {friend.isFavorite && <Star className="w-3 h-3 text-yellow-500 fill-yellow-500 shrink-0" />}
                                                 </p>
                                                 <p className="text-[10px] text-amber-500/70">Moving...</p>
                                             </Link>
@@ -378,9 +425,9 @@ export default function FavoritesPage() {
                                     {sortedGroups.map(([groupName, friends]) => (
                                         <div key={groupName} className="glass-card rounded-xl p-3 md:p-4">
                                             <div className="flex items-center gap-2 mb-3">
-                                                <Star className="w-4 h-4 text-yellow-500 fill-yellow-500" />
+                                                {groupName !== 'group_unknown' && <Star className="w-4 h-4 text-yellow-500 fill-yellow-500" />}
                                                 <span className="text-xs font-medium text-slate-400">
-                                                    Group {parseInt(groupName.replace('group_', ''), 10) + 1 || '?'}
+                                                    {groupName === 'group_unknown' ? 'Other Friends' : getFavoriteGroupLabel(groupName)}
                                                 </span>
                                                 <span className="text-xs text-slate-600">({friends.length})</span>
                                             </div>
@@ -405,7 +452,7 @@ export default function FavoritesPage() {
                                                             <div className="flex items-center justify-between gap-2">
                                                                 <p className="text-xs md:text-sm font-medium text-slate-200 group-hover/friend:text-white truncate flex items-center gap-1">
                                                                     {friend.name}
-                                                                    <Star className="w-3 h-3 text-yellow-500 fill-yellow-500 shrink-0" />
+                                                                    {friend.isFavorite && <Star className="w-3 h-3 text-yellow-500 fill-yellow-500 shrink-0" />}
                                                                 </p>
                                                                 {friend.joinedAt && (
                                                                     <span className="text-xs md:text-sm text-slate-400 flex items-center gap-1 shrink-0 font-mono">
@@ -419,6 +466,7 @@ export default function FavoritesPage() {
                                                                     {friend.statusMsg}
                                                                 </p>
                                                             )}
+                                                            <AccountTags accounts={friend.accounts} />
                                                         </div>
                                                     </Link>
                                                 ))}
@@ -430,14 +478,14 @@ export default function FavoritesPage() {
                         );
                     })()}
 
-                    {/* Offline Favorites Section - Grouped by favorite group */}
+                    {/* Offline Friends Section - Grouped by favorite group (paged for all friends) */}
                     {offlineFriends.length > 0 && (
                         <div className="mt-8">
                             <div className="flex items-center gap-3 mb-4 px-1">
                                 <div className="flex-1 h-px bg-white/10"></div>
                                 <h3 className="text-sm font-medium text-slate-500 flex items-center gap-2">
                                     <WifiOff className="w-4 h-4" />
-                                    Offline Favorites ({offlineFriends.length})
+                                    {isAllFriends ? 'Offline Friends' : 'Offline Favorites'} ({offlineFriends.length}{offlineHasMore ? '+' : ''})
                                 </h3>
                                 <div className="flex-1 h-px bg-white/10"></div>
                             </div>
@@ -461,9 +509,9 @@ export default function FavoritesPage() {
                                     return sortedGroups.map(([groupName, friends]) => (
                                         <div key={groupName} className="glass-card rounded-xl p-3 md:p-4">
                                             <div className="flex items-center gap-2 mb-3">
-                                                <Star className="w-4 h-4 text-yellow-600 fill-yellow-600" />
+                                                {groupName !== 'group_unknown' && <Star className="w-4 h-4 text-yellow-600 fill-yellow-600" />}
                                                 <span className="text-xs font-medium text-slate-400">
-                                                    Group {parseInt(groupName.replace('group_', ''), 10) + 1 || '?'}
+                                                    {groupName === 'group_unknown' ? 'Other Friends' : getFavoriteGroupLabel(groupName)}
                                                 </span>
                                                 <span className="text-xs text-slate-600">({friends.length})</span>
                                             </div>
@@ -487,6 +535,7 @@ export default function FavoritesPage() {
                                                         <p className="text-[10px] font-medium text-slate-500 group-hover/friend:text-slate-300 truncate max-w-full text-center">
                                                             {friend.displayName || friend.name}
                                                         </p>
+                                                        <AccountTags accounts={friend.accounts} className="text-center max-w-full" />
                                                     </Link>
                                                 ))}
                                             </div>
@@ -494,6 +543,18 @@ export default function FavoritesPage() {
                                     ));
                                 })()}
                             </div>
+                            {offlineHasMore && (
+                                <div className="flex justify-center mt-4">
+                                    <button
+                                        onClick={() => loadMoreOffline()}
+                                        disabled={loadingMoreOffline}
+                                        className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-white/5 hover:bg-white/10 text-slate-300 border border-white/10 transition-colors disabled:opacity-50"
+                                    >
+                                        {loadingMoreOffline && <Loader2 className="w-4 h-4 animate-spin" />}
+                                        Load more
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     )}
                 </>
@@ -0,0 +1,204 @@
+'use client';
+
+import { ArrowRight, Loader2, Lock, ShieldCheck, User } from "lucide-react";
+import { usePathname } from "next/navigation";
+import { useState } from "react";
+import { useFriends } from "@/components/providers/FriendsProvider";
+import { normalizeTwoFactorCode, parseTwoFactorMethods, TWO_FACTOR_METHOD_INFO, TwoFactorMethod } from "@/lib/twoFactor";
+
+const inputClass = 'w-full bg-slate-900/50 border border-slate-700 rounded-xl pl-10 pr-4 py-2.5 text-white focus:outline-none focus:border-indigo-500 transition-colors';
+
+// Shown over the current page once the login expires: logs in again in place
+// (password, then 2FA if VRChat asks) so the view underneath is kept.
+export function SessionExpiredModal() {
+    const { sessionExpired, resumeSession } = useFriends();
+    const pathname = usePathname();
+    const [step, setStep] = useState<'login' | '2fa'>('login');
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [code, setCode] = useState('');
+    const [methods, setMethods] = useState<TwoFactorMethod[]>(['totp']);
+    const [method, setMethod] = useState<TwoFactorMethod>('totp');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    // The login page is the same thing already
+    if (!sessionExpired || pathname === '/login') return null;
+
+    const finish = async () => {
+        if (await resumeSession()) {
+            setStep('login');
+            setPassword('');
+            setCode('');
+        } else {
+            setError('Still not logged in. Please try again.');
+        }
+    };
+
+    const handleLogin = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError('');
+        try {
+            const res = await fetch('/api/auth/login', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username, password }),
+            });
+            const data = await res.json();
+            if (data.requiresTwoFactorAuth) {
+                const parsed = parseTwoFactorMethods(data.twoFactorAuthType);
+                const available: TwoFactorMethod[] = parsed.length > 0 ? parsed : ['totp'];
+                setMethods(available);
+                setMethod(available[0]);
+                setCode('');
+                setStep('2fa');
+            } else if (res.ok) {
+                await finish();
+            } else {
+                setError(`Login failed: ${res.status}`);
+            }
+        } catch {
+            setError('An error occurred during login request.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleVerify = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError('');
+        try {
+            const res = await fetch('/api/auth/verify', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ code, type: method }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                await finish();
+            } else {
+                setError(data.error || 'Verification failed');
+            }
+        } catch {
+            setError('An error occurred during verification.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" role="dialog" aria-modal="true">
+            <div className="w-full max-w-sm glass-card bg-[#0f172a]/95 p-6 rounded-2xl shadow-xl">
+                <h2 className="text-lg font-bold text-white">Session expired</h2>
+                <p className="text-sm text-slate-400 mt-1 mb-5">
+                    {sessionExpired.accountName
+                        ? <>VRChat signed <span className="text-slate-200">{sessionExpired.accountName}</span> out. </>
+                        : 'This login has ended. '}
+                    {step === 'login' ? 'Enter your password to continue where you left off.' : TWO_FACTOR_METHOD_INFO[method].hint}
+                </p>
+
+                {step === 'login' ? (
+                    <form onSubmit={handleLogin} className="space-y-3">
+                        <div className="relative">
+                            <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+                            <input
+                                type="text"
+                                value={username}
+                                onChange={(e) => setUsername(e.target.value)}
+                                className={inputClass}
+                                placeholder="VRChat Username"
+                                autoComplete="username"
+                                required
+                            />
+                        </div>
+                        <div className="relative">
+                            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                className={inputClass}
+                                placeholder="Password"
+                                autoComplete="current-password"
+                                required
+                            />
+                        </div>
+                        {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+                        <button
+                            type="submit"
+                            disabled={isLoading}
+                            className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                        >
+                            {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <>Log in again <ArrowRight className="w-4 h-4" /></>}
+                        </button>
+                    </form>
+                ) : (
+                    <form onSubmit={handleVerify} className="space-y-3">
+                        {methods.length > 1 && (
+                            <div className="flex gap-1 p-1 bg-slate-900/50 border border-slate-700 rounded-xl">
+                                {methods.map((m) => (
+                                    <button
+                                        key={m}
+                                        type="button"
+                                        onClick={() => { setMethod(m); setCode(''); setError(''); }}
+                                        className={`flex-1 py-1.5 rounded-lg text-xs font-medium transition-colors ${m === method
+                                            ? 'bg-indigo-600 text-white'
+                                            : 'text-slate-400 hover:text-white hover:bg-white/5'}`}
+                                        aria-pressed={m === method}
+                                    >
+                                        {TWO_FACTOR_METHOD_INFO[m].label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        <div className="relative">
+                            <ShieldCheck className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+                            <input
+                                key={method}
+                                type="text"
+                                inputMode={TWO_FACTOR_METHOD_INFO[method].numeric ? 'numeric' : 'text'}
+                                autoComplete="one-time-code"
+                                autoCapitalize="off"
+                                spellCheck={false}
+                                value={code}
+                                onChange={(e) => setCode(normalizeTwoFactorCode(method, e.target.value))}
+                                className={`${inputClass} tracking-widest text-center`}
+                                placeholder={TWO_FACTOR_METHOD_INFO[method].placeholder}
+                                maxLength={TWO_FACTOR_METHOD_INFO[method].maxInputLength}
+                                required
+                            />
+                        </div>
+                        {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+                        <button
+                            type="submit"
+                            disabled={isLoading}
+                            className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                        >
+                            {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <>Verify <ArrowRight className="w-4 h-4" /></>}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => { setStep('login'); setError(''); }}
+                            className="w-full text-xs text-slate-500 hover:text-white transition-colors"
+                        >
+                            Back
+                        </button>
+                    </form>
+                )}
+
+                <div className="text-center mt-4">
+                    {/* Full reload: this prompt would otherwise stay over the login page */}
+                    <button
+                        type="button"
+                        onClick={() => { window.location.href = '/login'; }}
+                        className="text-xs text-indigo-400 hover:text-indigo-300 underline"
+                    >
+                        Go to the login page instead
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
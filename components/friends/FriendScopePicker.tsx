@@ -0,0 +1,69 @@
+'use client';
+
+import { FRIEND_FAVORITE_GROUPS, FriendScope, FriendScopeMode } from "@/lib/friendScope";
+
+type FriendScopePickerProps = {
+    scope: FriendScope;
+    onChange: (scope: FriendScope) => void;
+    disabled?: boolean;
+};
+
+const MODE_LABELS: Record<FriendScopeMode, string> = {
+    favorites: 'Favorites',
+    groups: 'Favorite groups',
+    all: 'All friends',
+};
+
+// "group_0" -> "Group 1" (VRChat shows favorite groups 1-based)
+export const getFavoriteGroupLabel = (group: string) => `Group ${parseInt(group.replace('group_', ''), 10) + 1 || '?'}`;
+
+export function FriendScopePicker({ scope, onChange, disabled = false }: FriendScopePickerProps) {
+    const selectedGroups = scope.mode === 'groups' ? scope.groups : [];
+
+    const changeMode = (mode: FriendScopeMode) => {
+        if (mode === scope.mode) return;
+        // Start from the first group; more can be toggled on below
+        onChange(mode === 'groups' ? { mode, groups: [FRIEND_FAVORITE_GROUPS[0]] } : { mode });
+    };
+
+    const toggleGroup = (group: string) => {
+        const groups = selectedGroups.includes(group)
+            ? selectedGroups.filter(g => g !== group)
+            : [...selectedGroups, group].sort();
+        // At least one group has to stay selected
+        if (groups.length === 0) return;
+        onChange({ mode: 'groups', groups });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5">
+            <select
+                value={scope.mode}
+                onChange={(e) => changeMode(e.target.value as FriendScopeMode)}
+                disabled={disabled}
+                className="px-2 py-1 rounded-lg bg-slate-800 border border-white/10 text-xs text-slate-300 disabled:opacity-50"
+                title="Which friends get instance cards and the offline list"
+            >
+                {(Object.keys(MODE_LABELS) as FriendScopeMode[]).map((mode) => (
+                    <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+                ))}
+            </select>
+            {scope.mode === 'groups' && FRIEND_FAVORITE_GROUPS.map((group) => {
+                const selected = selectedGroups.includes(group);
+                return (
+                    <button
+                        key={group}
+                        onClick={() => toggleGroup(group)}
+                        disabled={disabled}
+                        className={`px-2 py-1 rounded-lg text-xs border transition-colors disabled:opacity-50 ${selected
+                            ? 'bg-yellow-500/20 border-yellow-500/30 text-yellow-300'
+                            : 'bg-white/5 border-white/10 text-slate-500 hover:text-slate-300'}`}
+                        aria-pressed={selected}
+                    >
+                        {getFavoriteGroupLabel(group)}
+                    </button>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { Check, Loader2, LogIn, Send } from "lucide-react";
+import { useEffect, useState } from "react";
+import { getRequestInviteDenial, getSelfInviteDenial, InviteMessage } from "@/lib/invites";
+
+type InviteActionsProps = {
+    // Instance the actions target (wrld_xxx:instance, or 'private' / 'offline')
+    location: string;
+    // Friend to ask for an invite; omit to hide "Request invite"
+    target?: { id: string; name: string };
+    // Let the user pick one of their 'request' message templates
+    showMessagePicker?: boolean;
+    compact?: boolean;
+};
+
+type ActionKind = 'self' | 'request';
+
+export function InviteActions({ location, target, showMessagePicker = false, compact = false }: InviteActionsProps) {
+    const [pending, setPending] = useState<ActionKind | null>(null);
+    const [done, setDone] = useState<ActionKind | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [messages, setMessages] = useState<InviteMessage[]>([]);
+    const [messageSlot, setMessageSlot] = useState<number | null>(null);
+
+    // Group membership isn't known here; the server re-checks and explains the rejection
+    const selfDenial = getSelfInviteDenial(location);
+    const requestDenial = target ? getRequestInviteDenial(location, target.id) : null;
+
+    useEffect(() => {
+        if (!showMessagePicker) return;
+        const fetchMessages = async () => {
+            try {
+                const res = await fetch('/api/invite/messages?type=request', { credentials: 'include' });
+                if (res.ok) {
+                    const data = await res.json();
+                    setMessages(data.messages || []);
+                }
+            } catch (e) {
+                console.error('[InviteActions] Failed to fetch messages:', e);
+            }
+        };
+        fetchMessages();
+    }, [showMessagePicker]);
+
+    const send = async (kind: ActionKind) => {
+        setPending(kind);
+        setError(null);
+        setDone(null);
+        try {
+            const res = kind === 'self'
+                ? await fetch('/api/invite/self', {
+                    method: 'POST',
+                    credentials: 'include',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ location })
+                })
+                : await fetch('/api/invite/request', {
+                    method: 'POST',
+                    credentials: 'include',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ userId: target?.id, messageSlot: messageSlot ?? undefined })
+                });
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}));
+                setError(data.error || (kind === 'self' ? 'Failed to send self-invite' : 'Failed to request invite'));
+                return;
+            }
+            setDone(kind);
+        } catch (e) {
+            console.error('[InviteActions] Error:', e);
+            setError('Network error');
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const buttonClass = compact
+        ? 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs transition-colors disabled:opacity-40 disabled:cursor-not-allowed'
+        : 'inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors border disabled:opacity-40 disabled:cursor-not-allowed';
+
+    return (
+        <div className="flex flex-col gap-1.5">
+            <div className="flex flex-wrap items-center gap-2">
+                {location !== 'private' && (
+                    <button
+                        onClick={() => send('self')}
+                        disabled={pending !== null || selfDenial !== null}
+                        title={selfDenial?.message || 'Send yourself an invite to this instance'}
+                        className={`${buttonClass} bg-green-500/20 hover:bg-green-500/30 text-green-300 border-green-500/30`}
+                    >
+                        {pending === 'self' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : done === 'self' ? <Check className="w-3.5 h-3.5" /> : <LogIn className="w-3.5 h-3.5" />}
+                        Invite me
+                    </button>
+                )}
+                {target && (
+                    <button
+                        onClick={() => send('request')}
+                        disabled={pending !== null || requestDenial !== null}
+                        title={requestDenial?.message || `Ask ${target.name} for an invite`}
+                        className={`${buttonClass} bg-orange-500/20 hover:bg-orange-500/30 text-orange-300 border-orange-500/30`}
+                    >
+                        {pending === 'request' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : done === 'request' ? <Check className="w-3.5 h-3.5" /> : <Send className="w-3.5 h-3.5" />}
+                        Request invite
+                    </button>
+                )}
+                {target && showMessagePicker && messages.length > 0 && (
+                    <select
+                        value={messageSlot ?? ''}
+                        onChange={(e) => setMessageSlot(e.target.value === '' ? null : Number(e.target.value))}
+                        className="px-3 py-2 rounded-lg bg-slate-800 border border-white/10 text-sm text-slate-300 max-w-[220px]"
+                        title="Message sent with the invite request"
+                    >
+                        <option value="">No message</option>
+                        {messages.map((m) => (
+                            <option key={m.slot} value={m.slot}>{m.message}</option>
+                        ))}
+                    </select>
+                )}
+            </div>
+            {error ? (
+                <p className="text-xs text-rose-400">{error}</p>
+            ) : done ? (
+                <p className="text-xs text-green-400">
+                    {done === 'self' ? 'Invite sent — check your in-game notifications' : `Invite requested from ${target?.name}`}
+                </p>
+            ) : !compact && (selfDenial || requestDenial) ? (
+                <p className="text-xs text-slate-500">{(requestDenial || selfDenial)?.message}</p>
+            ) : null}
+        </div>
+    );
+}
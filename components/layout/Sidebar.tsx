@@ -2,8 +2,10 @@
 
 import Link from 'next/link';
 import Image from 'next/image';
-import { Star, History, LogOut, BarChart3 } from 'lucide-react';
+import { Star, History, LogOut, BarChart3, Bell, Check, ChevronsUpDown, UserPlus, UserCircle } from 'lucide-react';
 import { useEffect, useState } from 'react';
+import { useFriends } from '@/components/providers/FriendsProvider';
+import { useNotifications } from '@/components/providers/NotificationsProvider';
 
 type SidebarUser = {
   displayName?: string;
@@ -13,6 +15,10 @@ type SidebarUser = {
 const Sidebar = () => {
   const [user, setUser] = useState<SidebarUser | null>(null);
   const [loading, setLoading] = useState(true);
+  const [showAccounts, setShowAccounts] = useState(false);
+  const [switching, setSwitching] = useState(false);
+  const { unreadCount } = useNotifications();
+  const { accounts, switchAccount } = useFriends();
 
   useEffect(() => {
     const fetchUser = async () => {
@@ -39,8 +45,16 @@ const Sidebar = () => {
   }, []);
 
   const handleLogout = async () => {
+    // Logs out of the active account only; another logged-in account takes over
+    let remaining = 0;
     try {
-      await fetch('/api/auth/logout', { method: 'POST', credentials: 'include' });
+      const res = await fetch('/api/auth/logout', { method: 'POST', credentials: 'include' });
+      if (res.ok) {
+        const data: unknown = await res.json();
+        if (data && typeof data === 'object' && 'accounts' in data && typeof data.accounts === 'number') {
+          remaining = data.accounts;
+        }
+      }
     } catch (e) {
       console.error('Logout error:', e);
     }
@@ -48,15 +62,27 @@ const Sidebar = () => {
     if (typeof window !== 'undefined') {
       localStorage.removeItem('vrc_logs');
     }
-    window.location.href = '/login';
+    window.location.href = remaining > 0 ? '/' : '/login';
+  };
+
+  const handleSwitch = async (accountId: string) => {
+    setSwitching(true);
+    // Reloads the app on success
+    if (!(await switchAccount(accountId))) {
+      setSwitching(false);
+    }
   };
 
   const navItems = [
     { icon: Star, label: 'Favorites', href: '/' },
     { icon: History, label: 'Logs', href: '/logs' },
     { icon: BarChart3, label: 'Graph', href: '/graph' },
+    { icon: Bell, label: 'Notifications', href: '/notifications', badge: unreadCount },
+    { icon: UserCircle, label: 'Profile', href: '/me' },
   ];
 
+  const badgeLabel = (count: number) => (count > 99 ? '99+' : String(count));
+
   return (
     <>
       <aside className="hidden md:flex fixed left-0 top-0 h-screen w-64 glass border-r border-white/5 flex-col z-50">
@@ -76,11 +102,40 @@ const Sidebar = () => {
             >
               <item.icon className="w-5 h-5 text-indigo-400 group-hover:text-cyan-400 transition-colors" />
               {item.label}
+              {!!item.badge && (
+                <span className="ml-auto min-w-5 h-5 px-1.5 rounded-full bg-rose-500 text-white text-[10px] font-bold flex items-center justify-center">
+                  {badgeLabel(item.badge)}
+                </span>
+              )}
             </Link>
           ))}
         </nav>
 
-        <div className="p-4 border-t border-white/5">
+        <div className="p-4 border-t border-white/5 relative">
+          {showAccounts && !loading && user && (
+            <div className="absolute bottom-full left-4 right-4 mb-2 glass-card rounded-xl p-1.5 bg-[#0f172a]/95 shadow-xl">
+              <p className="px-2.5 pt-1 pb-1.5 text-[10px] font-semibold uppercase tracking-wider text-slate-500">Accounts</p>
+              {accounts.map((account) => (
+                <button
+                  key={account.id}
+                  onClick={() => !account.active && handleSwitch(account.id)}
+                  disabled={switching || account.active}
+                  className="w-full flex items-center gap-2 px-2.5 py-2 text-sm rounded-lg text-left text-slate-300 enabled:hover:bg-white/5 enabled:hover:text-white disabled:cursor-default transition-colors"
+                >
+                  <span className="truncate flex-1">{account.displayName}</span>
+                  {account.active && <Check className="w-4 h-4 text-indigo-400 shrink-0" />}
+                </button>
+              ))}
+              <Link
+                href="/login"
+                className="flex items-center gap-2 px-2.5 py-2 text-sm rounded-lg text-slate-400 hover:bg-white/5 hover:text-white transition-colors border-t border-white/5 mt-1"
+              >
+                <UserPlus className="w-4 h-4" />
+                Add account
+              </Link>
+            </div>
+          )}
+
           <div className="glass-card p-3 rounded-xl flex items-center gap-3 relative pr-10">
             {loading ? (
               <>
@@ -99,10 +154,20 @@ const Sidebar = () => {
                     'U'
                   )}
                 </div>
-                <div className="overflow-hidden min-w-0">
-                  <p className="text-sm font-medium text-white truncate leading-tight">{user?.displayName || 'Guest'}</p>
-                  <p className="text-xs text-green-400 truncate mt-0.5">{user ? 'Online' : 'Offline'}</p>
-                </div>
+                <button
+                  onClick={() => setShowAccounts(open => !open)}
+                  disabled={!user}
+                  className="overflow-hidden min-w-0 flex-1 text-left flex items-center gap-1 disabled:cursor-default group"
+                  title={user ? 'Switch account' : undefined}
+                >
+                  <div className="overflow-hidden min-w-0">
+                    <p className="text-sm font-medium text-white truncate leading-tight">{user?.displayName || 'Guest'}</p>
+                    <p className="text-xs text-green-400 truncate mt-0.5">
+                      {user ? (accounts.length > 1 ? `Online · ${accounts.length} accounts` : 'Online') : 'Offline'}
+                    </p>
+                  </div>
+                  {user && <ChevronsUpDown className="w-3.5 h-3.5 text-slate-500 group-hover:text-slate-300 shrink-0" />}
+                </button>
               </>
             )}
 
@@ -123,9 +188,14 @@ const Sidebar = () => {
           <Link
             key={item.href}
             href={item.href}
-            className="flex flex-col items-center justify-center w-full h-full text-slate-400 hover:text-indigo-400 transition-colors gap-1"
+            className="relative flex flex-col items-center justify-center w-full h-full text-slate-400 hover:text-indigo-400 transition-colors gap-1"
           >
             <item.icon className="w-5 h-5" />
+            {!!item.badge && (
+              <span className="absolute top-1.5 left-1/2 ml-1 min-w-4 h-4 px-1 rounded-full bg-rose-500 text-white text-[9px] font-bold flex items-center justify-center">
+                {badgeLabel(item.badge)}
+              </span>
+            )}
             <span className="text-[10px] font-medium">{item.label}</span>
           </Link>
         ))}
@@ -1,6 +1,9 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { DEFAULT_FRIEND_SCOPE, formatFriendScope, FriendScope, isFriendScope, isInFriendScope } from '@/lib/friendScope';
+import { getRegionLabel, parseLocation } from '@/lib/location';
+import { PIPELINE_EVENT_TYPES, VRChatPipelineEvent } from '@/lib/pipelineEvents';
 
 // Types
 type Friend = {
@@ -26,6 +29,8 @@ type Friend = {
     instanceUserCount?: number;
     last_login?: string;
     last_activity?: string;
+    // Merged view: display names of the accounts that have this friend
+    accounts?: string[];
 };
 
 type WorldInfo = {
@@ -60,12 +65,76 @@ type TimestampEntry = {
 };
 
 type ActiveFriendsResponse = {
+    version?: string;
+    // true: friends/offlineFriends hold only what changed since the requested version
+    delta?: boolean;
     friends?: Friend[];
     offlineFriends?: Friend[];
+    removed?: string[];
 };
 
+// Enrichment for a friend already in the list, valid while they stay at location
+type FriendPatch = Partial<Friend> & {
+    id: string;
+    location: string;
+};
+
+// A VRChat account this browser is logged in to (GET /api/auth/accounts)
+export type LoggedInAccount = {
+    id: string;
+    displayName: string;
+    active: boolean;
+};
+
+// GET /api/auth/session
+type SessionStatus = 'valid' | 'expired' | 'none';
+
+type SessionCheck = {
+    status: SessionStatus;
+    account: { id: string; displayName: string | null } | null;
+};
+
+// The login that stopped working, for the re-login prompt (null: the session itself is gone)
+export type ExpiredSession = {
+    accountName: string | null;
+};
+
+// Friend lists of another account, for the merged view
+type AccountFriends = {
+    displayName: string;
+    version: string | null;
+    friends: Map<string, Friend>;
+    offlineFriends: Map<string, Friend>;
+    // Paging through the offline list (scope "all")
+    offlineOffset: number;
+    offlineHasMore: boolean;
+};
+
+type OfflineFriendsPageResponse = {
+    offlineFriends?: Friend[];
+    hasMore?: boolean;
+};
+
+// Lines of /api/friends/active?stream=1
+type FriendsStreamMessage =
+    | { type: 'friends'; friends: Friend[] }
+    | { type: 'patch'; friends: FriendPatch[] }
+    | { type: 'offline'; offlineFriends: Friend[] }
+    | { type: 'done'; version: string }
+    | { type: 'error'; error: string; status: number };
+
 const WORLD_CACHE_TTL = 24 * 60 * 60 * 1000;
 
+// Offline friends per "load more" page (scope "all")
+const OFFLINE_PAGE_SIZE = 50;
+
+// Merged view: how often the other accounts' lists are refreshed (only the active
+// account gets pipeline events)
+const MERGED_REFRESH_INTERVAL = 60 * 1000;
+
+// How often the login is checked while nothing else would notice it expiring
+const SESSION_CHECK_INTERVAL = 5 * 60 * 1000;
+
 const isObject = (value: unknown): value is Record<string, unknown> =>
     typeof value === 'object' && value !== null;
 
@@ -79,8 +148,41 @@ const isWorldInfo = (value: unknown): value is WorldInfo => {
     return typeof value.id === 'string' && typeof value.name === 'string' && typeof value.cachedAt === 'number';
 };
 
+const isLoggedInAccount = (value: unknown): value is LoggedInAccount => {
+    if (!isObject(value)) return false;
+    return typeof value.id === 'string' && typeof value.displayName === 'string' && typeof value.active === 'boolean';
+};
+
+// Merge the same list of several accounts, tagging each friend with the accounts that have them.
+// The first list (the active account's, kept current by pipeline events) wins, except that a
+// friend is a favorite if any account has them as one.
+const mergeFriendLists = (lists: { accountName: string; friends: Map<string, Friend> }[]): Map<string, Friend> => {
+    const merged = new Map<string, Friend>();
+    lists.forEach(({ accountName, friends }) => {
+        friends.forEach((f, id) => {
+            const seen = merged.get(id);
+            if (!seen) {
+                merged.set(id, { ...f, accounts: [accountName] });
+                return;
+            }
+            merged.set(id, {
+                ...seen,
+                accounts: [...(seen.accounts || []), accountName],
+                isFavorite: seen.isFavorite || f.isFavorite,
+                favoriteGroup: seen.isFavorite ? seen.favoriteGroup : f.favoriteGroup,
+            });
+        });
+    });
+    return merged;
+};
+
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
 
+export type PipelineEventListener = (event: VRChatPipelineEvent) => void;
+
+// Events that update the friend list kept by this provider
+const FRIEND_LIST_EVENTS: readonly string[] = ['friend-online', 'friend-offline', 'friend-location', 'friend-update', 'friend-active'];
+
 interface FriendsContextType {
     instances: InstanceGroup[];
     offlineFriends: Friend[];
@@ -88,7 +190,29 @@ interface FriendsContextType {
     isAuthenticated: boolean;
     lastUpdated: Date | null;
     wsConnectionState: ConnectionState;
+    // Logged-in user's own location, from user-location events (null until the first one)
+    myLocation: string | null;
+    // Receive every pipeline event (notifications, user-*, group-*, ...); returns an unsubscribe function
+    subscribeEvents: (listener: PipelineEventListener) => () => void;
     refresh: () => void;
+    // Which friends get instance cards and the offline list (saved in localStorage)
+    scope: FriendScope;
+    setScope: (scope: FriendScope) => void;
+    // Scope "all": the offline list is loaded a page at a time
+    offlineHasMore: boolean;
+    loadingMoreOffline: boolean;
+    loadMoreOffline: () => void;
+    // Accounts this browser is logged in to, the active one first
+    accounts: LoggedInAccount[];
+    // Make another account the active one (reloads the app)
+    switchAccount: (accountId: string) => Promise<boolean>;
+    // Show the friends of every account, tagged with the accounts that have them (saved in localStorage)
+    mergeAccounts: boolean;
+    setMergeAccounts: (merge: boolean) => void;
+    // Set once VRChat stops accepting the login; the view stays as it was until the user logs in again
+    sessionExpired: ExpiredSession | null;
+    // For the re-login prompt once the login went through: picks up where the view left off
+    resumeSession: () => Promise<boolean>;
 }
 
 const FriendsContext = createContext<FriendsContextType>({
@@ -98,54 +222,22 @@ const FriendsContext = createContext<FriendsContextType>({
     isAuthenticated: false,
     lastUpdated: null,
     wsConnectionState: 'disconnected',
+    myLocation: null,
+    subscribeEvents: () => () => { },
     refresh: () => { },
+    scope: DEFAULT_FRIEND_SCOPE,
+    setScope: () => { },
+    offlineHasMore: false,
+    loadingMoreOffline: false,
+    loadMoreOffline: () => { },
+    accounts: [],
+    switchAccount: async () => false,
+    mergeAccounts: false,
+    setMergeAccounts: () => { },
+    sessionExpired: null,
+    resumeSession: async () => false,
 });
 
-// Parse instance info from location string
-const parseInstanceInfo = (location: string) => {
-    if (!location || location === 'offline' || location === 'private' || location === 'traveling') return null;
-    const parts = location.split(':');
-    if (parts.length < 2) return { name: '', type: 'Public', region: 'US', creatorId: null, groupId: null };
-
-    const raw = parts[1];
-    const name = raw.split('~')[0];
-
-    let type = 'Public';
-    let creatorId: string | null = null;
-    let groupId: string | null = null;
-
-    const usrMatch = raw.match(/\((usr_[^)]+)\)/);
-    if (usrMatch) creatorId = usrMatch[1];
-
-    const grpMatch = raw.match(/~group\((grp_[^)]+)\)/);
-    if (grpMatch) groupId = grpMatch[1];
-
-    if (raw.includes('~group(')) {
-        if (raw.includes('groupAccessType(public)')) type = 'Group Public';
-        else if (raw.includes('groupAccessType(plus)')) type = 'Group+';
-        else if (raw.includes('groupAccessType(members)')) type = 'Group';
-        else type = 'Group';
-    } else if (raw.includes('~private(')) {
-        type = raw.includes('~canRequestInvite') ? 'Invite+' : 'Invite';
-    } else if (raw.includes('~friends(')) {
-        type = 'Friends';
-    } else if (raw.includes('~hidden(')) {
-        type = 'Friends+';
-    }
-
-    let region = 'US';
-    const regionMatch = raw.match(/~region\(([^)]+)\)/);
-    if (regionMatch) {
-        const r = regionMatch[1].toLowerCase();
-        if (r === 'jp') region = 'JP';
-        else if (r === 'eu') region = 'EU';
-        else if (r === 'use') region = 'US East';
-        else if (r === 'usw') region = 'US West';
-    }
-
-    return { name, type, region, creatorId, groupId };
-};
-
 // Convert VRChat API instance type to display type
 const convertInstanceType = (apiType: string | undefined): string => {
     if (!apiType) return 'Public';
@@ -161,29 +253,6 @@ const convertInstanceType = (apiType: string | undefined): string => {
     }
 };
 
-// Helper to add a log entry
-const addLogEntry = (type: string, user: string, detail: string, color: string) => {
-    const now = new Date();
-    const timeStr = `${(now.getMonth() + 1).toString().padStart(2, '0')}/${now.getDate().toString().padStart(2, '0')} ${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-    
-    const newLog = {
-        id: Date.now() + Math.random(),
-        date: timeStr,
-        type,
-        user,
-        detail,
-        color
-    };
-
-    try {
-        const existing = JSON.parse(localStorage.getItem('vrc_logs') || '[]');
-        const updated = [newLog, ...existing].slice(0, 500);
-        localStorage.setItem('vrc_logs', JSON.stringify(updated));
-    } catch (error: unknown) {
-        console.error('Log save error', error);
-    }
-};
-
 export const FriendsProvider = ({ children }: { children: React.ReactNode }) => {
     const [instances, setInstances] = useState<InstanceGroup[]>([]);
     const [offlineFriends, setOfflineFriends] = useState<Friend[]>([]);
@@ -191,6 +260,14 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
     const [isAuthenticated, setIsAuthenticated] = useState(false);
     const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
     const [wsConnectionState, setWsConnectionState] = useState<ConnectionState>('disconnected');
+    const [myLocation, setMyLocation] = useState<string | null>(null);
+    const [scope, setScopeState] = useState<FriendScope>(DEFAULT_FRIEND_SCOPE);
+    const [offlineHasMore, setOfflineHasMore] = useState(false);
+    const [loadingMoreOffline, setLoadingMoreOffline] = useState(false);
+    const [accounts, setAccounts] = useState<LoggedInAccount[]>([]);
+    const [mergeAccounts, setMergeAccountsState] = useState(false);
+    const [sessionExpired, setSessionExpired] = useState<ExpiredSession | null>(null);
+    const eventListenersRef = useRef<Set<PipelineEventListener>>(new Set());
 
     // Refs for data management
     const friendsDataRef = useRef<Map<string, Friend>>(new Map());
@@ -200,11 +277,38 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
     const worldCacheRef = useRef<Map<string, WorldInfo>>(new Map());
     const eventSourceRef = useRef<EventSource | null>(null);
     const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+    // Id of the last stream event received, used to resume after a reconnect
+    const lastEventIdRef = useRef<string | null>(null);
     const isFirstLoadRef = useRef(true);
+    // Current scope for callbacks (state lags behind within a render)
+    const scopeRef = useRef<FriendScope>(DEFAULT_FRIEND_SCOPE);
+    // Next offset into the offline friend list (scope "all")
+    const offlineOffsetRef = useRef(0);
+    // Whether the active account's offline list has more pages (scope "all")
+    const offlineHasMoreRef = useRef(false);
+    const accountsRef = useRef<LoggedInAccount[]>([]);
+    const mergeAccountsRef = useRef(false);
+    // Merged view: the other accounts' friend lists, by account ID
+    const accountFriendsRef = useRef<Map<string, AccountFriends>>(new Map());
+    const sessionExpiredRef = useRef(false);
 
     // Load cached data from localStorage
     useEffect(() => {
         try {
+            const savedScope = localStorage.getItem('vrc_friend_scope');
+            if (savedScope) {
+                const parsed: unknown = JSON.parse(savedScope);
+                if (isFriendScope(parsed)) {
+                    scopeRef.current = parsed;
+                    setScopeState(parsed);
+                }
+            }
+
+            if (localStorage.getItem('vrc_merge_accounts') === 'true') {
+                mergeAccountsRef.current = true;
+                setMergeAccountsState(true);
+            }
+
             const savedTimestamps = localStorage.getItem('vrc_location_timestamps');
             if (savedTimestamps) {
                 const parsed: unknown = JSON.parse(savedTimestamps);
@@ -277,15 +381,30 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
         return null;
     }, [saveWorldCache]);
 
+    // Lists to show, by account name: the active account's, plus the others' in the merged view
+    const getAccountLists = useCallback((pick: (data: AccountFriends) => Map<string, Friend>, own: Map<string, Friend>) => {
+        const lists = [{ accountName: accountsRef.current[0]?.displayName || '', friends: own }];
+        if (!mergeAccountsRef.current) return lists;
+        accountFriendsRef.current.forEach((data) => lists.push({ accountName: data.displayName, friends: pick(data) }));
+        return lists;
+    }, []);
+
+    // Online friends to show (friendsDataRef, merged with the other accounts' in the merged view)
+    const getShownFriends = useCallback((): Map<string, Friend> => {
+        if (!mergeAccountsRef.current || accountFriendsRef.current.size === 0) return friendsDataRef.current;
+        return mergeFriendLists(getAccountLists(data => data.friends, friendsDataRef.current));
+    }, [getAccountLists]);
+
     // Rebuild instances from friendsDataRef
     const rebuildInstances = useCallback(() => {
         const grouped: Record<string, InstanceGroup> = {};
         const friendMap = new Map<string, string>();
         const now = Date.now();
+        const shownFriends = getShownFriends();
 
-        friendsDataRef.current.forEach((f, id) => friendMap.set(id, f.name || f.displayName || id));
+        shownFriends.forEach((f, id) => friendMap.set(id, f.name || f.displayName || id));
 
-        friendsDataRef.current.forEach((f) => {
+        shownFriends.forEach((f) => {
             const loc = f.location || "offline";
             if (loc === "offline") return;
 
@@ -293,9 +412,9 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
             const effectiveLoc = loc === "traveling" ? "traveling" : loc;
 
             if (!grouped[effectiveLoc]) {
-                const info = parseInstanceInfo(loc);
+                const info = parseLocation(loc);
                 let ownerName = f.ownerName || undefined;
-                if (!ownerName && info?.creatorId) ownerName = friendMap.get(info.creatorId);
+                if (!ownerName && info?.ownerId) ownerName = friendMap.get(info.ownerId);
 
                 // Special handling for traveling state
                 const isTraveling = effectiveLoc === "traveling";
@@ -305,17 +424,17 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
                     worldName: isTraveling ? "Traveling" : (f.worldName || (loc.includes('private') ? "Private World" : `World ${loc.split(':')[0]}`)),
                     worldImageUrl: isTraveling ? undefined : f.worldImageUrl,
                     instanceType: isTraveling ? "Traveling" : (f.instanceType || info?.type || "Public"),
-                    region: isTraveling ? "" : (f.isPrivate || loc === 'private' ? "" : (info?.region || "US")),
+                    region: isTraveling ? "" : (f.isPrivate || loc === 'private' ? "" : getRegionLabel(info?.region)),
                     userCount: 0,
                     instanceUserCount: isTraveling ? undefined : f.instanceUserCount,
                     friends: [],
                     otherFriends: [],
                     minFavoriteGroup: 999,
-                    creatorId: isTraveling ? undefined : (info?.creatorId ?? undefined),
+                    creatorId: isTraveling ? undefined : (info?.ownerId ?? undefined),
                     creatorName: isTraveling ? undefined : ownerName,
                     groupId: isTraveling ? undefined : (f.groupId || (info?.groupId ?? undefined)),
                     groupName: isTraveling ? undefined : f.groupName,
-                    ownerId: isTraveling ? undefined : (f.ownerId || (info?.creatorId ?? undefined)),
+                    ownerId: isTraveling ? undefined : (f.ownerId || (info?.ownerId ?? undefined)),
                     ownerName: isTraveling ? undefined : ownerName,
                 };
             } else {
@@ -329,7 +448,7 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
             const timestampData = locationTimestampsRef.current.get(f.id);
             const friendWithTimestamp = { ...f, joinedAt: timestampData?.joinedAt || now };
 
-            if (f.isFavorite) {
+            if (isInFriendScope(f, scopeRef.current)) {
                 grouped[effectiveLoc].friends.push(friendWithTimestamp);
                 grouped[effectiveLoc].userCount++;
                 if (f.favoriteGroup) {
@@ -394,111 +513,337 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
 
         setInstances(sortedInstances);
         setLastUpdated(new Date());
+    }, [getShownFriends]);
+
+    // Offline friends as last reported by /api/friends/active (or /api/friends/offline for scope "all")
+    const offlineDataRef = useRef<Map<string, Friend>>(new Map());
+    // Version of the last /api/friends/active response, to ask only for changes next time
+    const friendsVersionRef = useRef<string | null>(null);
+
+    // Rebuild the offline list (API offlineFriends + friends in scope with location: "offline")
+    const rebuildOfflineFriends = useCallback(() => {
+        const allOfflineFavorites: Friend[] = [];
+        const shownFriends = getShownFriends();
+        const shownOffline = mergeAccountsRef.current && accountFriendsRef.current.size > 0
+            ? mergeFriendLists(getAccountLists(data => data.offlineFriends, offlineDataRef.current))
+            : offlineDataRef.current;
+
+        // Add friends from offlineFriends array (truly offline)
+        shownOffline.forEach((f) => {
+            // Online as seen by another account
+            if (shownFriends.has(f.id)) return;
+            allOfflineFavorites.push({
+                id: f.id,
+                name: f.name || f.displayName || 'Unknown',
+                displayName: f.name || f.displayName,
+                userIcon: f.icon || f.userIcon,
+                status: f.status || 'offline',
+                location: 'offline',
+                worldName: 'Offline',
+                isFavorite: f.isFavorite,
+                favoriteGroup: f.favoriteGroup,
+                last_login: f.last_login,
+                last_activity: f.last_activity,
+                accounts: f.accounts,
+            });
+        });
+
+        // Add friends in scope with location: "offline" from friends array (Active/web status)
+        shownFriends.forEach((f) => {
+            if (isInFriendScope(f, scopeRef.current) && f.location === 'offline') {
+                allOfflineFavorites.push({
+                    id: f.id,
+                    name: f.name || f.displayName || 'Unknown',
+                    displayName: f.name || f.displayName,
+                    userIcon: f.icon || f.userIcon,
+                    status: f.status || 'active',
+                    location: 'offline',
+                    worldName: 'Offline',
+                    isFavorite: f.isFavorite,
+                    favoriteGroup: f.favoriteGroup,
+                    accounts: f.accounts,
+                });
+            }
+        });
+
+        // Sort by favorite group
+        allOfflineFavorites.sort((a, b) => {
+            const aGroup = parseInt(a.favoriteGroup?.replace('group_', '') || '999', 10);
+            const bGroup = parseInt(b.favoriteGroup?.replace('group_', '') || '999', 10);
+            return aGroup - bGroup;
+        });
+        setOfflineFriends(allOfflineFavorites);
+    }, [getAccountLists, getShownFriends]);
+
+    // Remember a world name the server resolved (not the raw location it falls back to)
+    const rememberWorld = useCallback((f: Friend, now: number): boolean => {
+        if (!f.location?.startsWith('wrld_') || !f.worldName || f.worldName === f.location) return false;
+        const worldId = f.location.split(':')[0];
+        const cachedWorld = worldCacheRef.current.get(worldId);
+        if (cachedWorld && (now - cachedWorld.cachedAt) <= WORLD_CACHE_TTL) return false;
+        worldCacheRef.current.set(worldId, {
+            id: worldId,
+            name: f.worldName,
+            thumbnailImageUrl: f.worldImageUrl,
+            cachedAt: now
+        });
+        return true;
     }, []);
 
-    // Fetch initial friends data
-    const fetchFriends = useCallback(async () => {
-        try {
-            const res = await fetch('/api/friends/active', { credentials: 'include' });
-            if (res.ok) {
-                const data: ActiveFriendsResponse = await res.json();
-                setIsAuthenticated(true);
-                isAuthenticatedRef.current = true; // Set ref immediately for SSE connection
+    // Apply an /api/friends/active result: a full list replaces everything,
+    // a delta only touches the friends it lists
+    const applyFriendsData = useCallback((data: ActiveFriendsResponse) => {
+        if (!data.delta) {
+            friendsDataRef.current = new Map();
+            offlineDataRef.current = new Map();
+            favoriteIdsRef.current.clear();
+            favoriteGroupsRef.current.clear();
+        }
+        (data.removed || []).forEach((id) => {
+            friendsDataRef.current.delete(id);
+            offlineDataRef.current.delete(id);
+            favoriteIdsRef.current.delete(id);
+            favoriteGroupsRef.current.delete(id);
+            locationTimestampsRef.current.delete(id);
+        });
 
-                const currentFriendsMap = new Map<string, Friend>();
-                (data.friends || []).forEach((f) => {
-                    if (f?.id) {
-                        currentFriendsMap.set(f.id, f);
-                    }
-                });
+        const now = Date.now();
+        let worldCacheChanged = false;
 
-                const now = Date.now();
-                let worldCacheChanged = false;
+        (data.friends || []).forEach((f) => {
+            if (!f?.id) return;
+            const id = f.id;
+            friendsDataRef.current.set(id, f);
+            offlineDataRef.current.delete(id);
 
-                favoriteIdsRef.current.clear();
-                favoriteGroupsRef.current.clear();
+            if (f.isFavorite) {
+                favoriteIdsRef.current.add(id);
+                if (f.favoriteGroup) favoriteGroupsRef.current.set(id, f.favoriteGroup);
+            } else {
+                favoriteIdsRef.current.delete(id);
+                favoriteGroupsRef.current.delete(id);
+            }
 
-                currentFriendsMap.forEach((f, id) => {
-                    if (f.isFavorite) {
-                        favoriteIdsRef.current.add(id);
-                        if (f.favoriteGroup) favoriteGroupsRef.current.set(id, f.favoriteGroup);
-                    }
+            const existing = locationTimestampsRef.current.get(id);
+            if (!existing || existing.location !== f.location) {
+                locationTimestampsRef.current.set(id, { location: f.location, joinedAt: now });
+            }
 
-                    const existing = locationTimestampsRef.current.get(id);
-                    if (!existing || existing.location !== f.location) {
-                        locationTimestampsRef.current.set(id, { location: f.location, joinedAt: now });
-                    }
+            if (rememberWorld(f, now)) worldCacheChanged = true;
+        });
 
-                    if (f.location?.startsWith('wrld_') && f.worldName) {
-                        const worldId = f.location.split(':')[0];
-                        const cachedWorld = worldCacheRef.current.get(worldId);
-                        if (!cachedWorld || (now - cachedWorld.cachedAt) > WORLD_CACHE_TTL) {
-                            worldCacheRef.current.set(worldId, {
-                                id: worldId,
-                                name: f.worldName,
-                                thumbnailImageUrl: f.worldImageUrl,
-                                cachedAt: now
-                            });
-                            worldCacheChanged = true;
-                        }
-                    }
-                });
+        (data.offlineFriends || []).forEach((f) => {
+            if (!f?.id) return;
+            offlineDataRef.current.set(f.id, f);
+            friendsDataRef.current.delete(f.id);
+            locationTimestampsRef.current.delete(f.id);
+            if (f.isFavorite) {
+                favoriteIdsRef.current.add(f.id);
+                if (f.favoriteGroup) favoriteGroupsRef.current.set(f.id, f.favoriteGroup);
+            }
+        });
 
-                friendsDataRef.current = currentFriendsMap;
-                saveTimestamps();
-                if (worldCacheChanged) saveWorldCache();
-                rebuildInstances();
-                isFirstLoadRef.current = false;
+        if (data.version) friendsVersionRef.current = data.version;
+        saveTimestamps();
+        if (worldCacheChanged) saveWorldCache();
+        rebuildInstances();
+        rebuildOfflineFriends();
+        isFirstLoadRef.current = false;
+    }, [rebuildInstances, rebuildOfflineFriends, rememberWorld, saveTimestamps, saveWorldCache]);
 
-                // Handle offline friends (from API offlineFriends + friends with location: "offline")
-                const allOfflineFavorites: Friend[] = [];
-                
-                // Add friends from offlineFriends array (truly offline)
-                (data.offlineFriends || []).forEach((f) => {
-                    if (!f?.id) return;
-                        allOfflineFavorites.push({
-                            id: f.id,
-                            name: f.name || f.displayName || 'Unknown',
-                            displayName: f.name || f.displayName,
-                            userIcon: f.icon || f.userIcon,
-                            status: f.status || 'offline',
-                            location: 'offline',
-                            worldName: 'Offline',
-                            favoriteGroup: f.favoriteGroup,
-                            last_login: f.last_login,
-                            last_activity: f.last_activity,
-                        });
-                    });
-                
-                // Add favorite friends with location: "offline" from friends array (Active/web status)
-                (data.friends || []).forEach((f) => {
-                        if (f.isFavorite && f.location === 'offline') {
-                            allOfflineFavorites.push({
-                                id: f.id,
-                                name: f.name || f.displayName || 'Unknown',
-                                displayName: f.name || f.displayName,
-                                userIcon: f.icon || f.userIcon,
-                                status: f.status || 'active',
-                                location: 'offline',
-                                worldName: 'Offline',
-                                favoriteGroup: f.favoriteGroup,
-                            });
-                        }
-                    });
-                
-                // Sort by favorite group
-                allOfflineFavorites.sort((a, b) => {
-                    const aGroup = parseInt(a.favoriteGroup?.replace('group_', '') || '999', 10);
-                    const bGroup = parseInt(b.favoriteGroup?.replace('group_', '') || '999', 10);
-                    return aGroup - bGroup;
-                });
-                setOfflineFriends(allOfflineFavorites);
+    // Apply enrichment (world, group, instance count, owner) from a streamed load
+    const applyFriendPatches = useCallback((patches: FriendPatch[]) => {
+        const now = Date.now();
+        let worldCacheChanged = false;
+
+        patches.forEach((patch) => {
+            const friend = friendsDataRef.current.get(patch.id);
+            // Moved since the list was sent (pipeline event); the patch describes the old location
+            if (!friend || friend.location !== patch.location) return;
+            const updated = { ...friend, ...patch };
+            friendsDataRef.current.set(patch.id, updated);
+            if (rememberWorld(updated, now)) worldCacheChanged = true;
+        });
+
+        if (worldCacheChanged) saveWorldCache();
+        rebuildInstances();
+    }, [rebuildInstances, rememberWorld, saveWorldCache]);
+
+    const handleLoggedOut = useCallback(() => {
+        setIsAuthenticated(false);
+        isAuthenticatedRef.current = false; // Set ref immediately
+        friendsVersionRef.current = null;
+        accountFriendsRef.current = new Map();
+        setInstances([]);
+        setOfflineFriends([]);
+        offlineHasMoreRef.current = false;
+        setOfflineHasMore(false);
+    }, []);
+
+    // Ask /api/auth/session whether the login still works; an expired one opens the re-login
+    // prompt. null when it couldn't be told (VRChat or the network unreachable).
+    const checkSession = useCallback(async (): Promise<SessionCheck | null> => {
+        try {
+            const res = await fetch('/api/auth/session', { credentials: 'include', cache: 'no-store' });
+            const data: unknown = await res.json();
+            if (!isObject(data) || (data.status !== 'valid' && data.status !== 'expired' && data.status !== 'none')) {
+                return null;
+            }
+            const account = isObject(data.account) && typeof data.account.id === 'string'
+                ? { id: data.account.id, displayName: typeof data.account.displayName === 'string' ? data.account.displayName : null }
+                : null;
+
+            if (data.status === 'expired') {
+                console.log('[FriendsProvider] Session expired');
+                // Stop streaming right away; what's on screen stays
+                isAuthenticatedRef.current = false;
+                sessionExpiredRef.current = true;
+                setSessionExpired({ accountName: account?.displayName ?? null });
+            }
+            return { status: data.status, account };
+        } catch (error: unknown) {
+            console.error('[FriendsProvider] Failed to check session:', error);
+            return null;
+        }
+    }, []);
+
+    // A 401 from the API. An expired login keeps what's on screen behind the re-login prompt;
+    // anything else (or nothing loaded yet) falls back to the logged-out state.
+    const handleUnauthorized = useCallback(async () => {
+        const keepView = isAuthenticatedRef.current || sessionExpiredRef.current;
+        const check = await checkSession();
+        if (check?.status === 'valid') return check;
+        if (check?.status !== 'expired' || !keepView) handleLoggedOut();
+        return check;
+    }, [checkSession, handleLoggedOut]);
+
+    // Read a streamed load (NDJSON, one message per line), rendering as parts arrive.
+    // Stops early once isCurrent() turns false (the scope was changed meanwhile).
+    const readFriendsStream = useCallback(async (body: ReadableStream<Uint8Array>, isCurrent: () => boolean) => {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffered = '';
+
+        const handleLine = (line: string) => {
+            if (!line.trim()) return;
+            let message: FriendsStreamMessage;
+            try {
+                message = JSON.parse(line);
+            } catch (err) {
+                console.error('[FriendsProvider] Failed to parse friends stream line:', err);
+                return;
+            }
+
+            switch (message.type) {
+                case 'friends':
+                    applyFriendsData({ friends: message.friends });
+                    setLoading(false);
+                    break;
+                case 'patch':
+                    applyFriendPatches(message.friends);
+                    break;
+                case 'offline':
+                    applyFriendsData({ delta: true, offlineFriends: message.offlineFriends });
+                    break;
+                case 'done':
+                    friendsVersionRef.current = message.version;
+                    break;
+                case 'error':
+                    console.error(`[FriendsProvider] Failed to load friends (${message.status})`);
+                    if (message.status === 401) handleUnauthorized();
+                    break;
+            }
+        };
 
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            if (!isCurrent()) {
+                await reader.cancel();
+                return;
+            }
+            buffered += decoder.decode(value, { stream: true });
+            const lines = buffered.split('\n');
+            buffered = lines.pop() || '';
+            lines.forEach(handleLine);
+        }
+        handleLine(buffered + decoder.decode());
+    }, [applyFriendsData, applyFriendPatches, handleUnauthorized]);
+
+    // More offline friends to load: the active account's, or in the merged view another one's
+    const updateOfflineHasMore = useCallback(() => {
+        const othersHaveMore = mergeAccountsRef.current
+            && Array.from(accountFriendsRef.current.values()).some(data => data.offlineHasMore);
+        setOfflineHasMore(offlineHasMoreRef.current || othersHaveMore);
+    }, []);
+
+    // Fetch the next page of offline friends (scope "all"); reset starts over from the first page
+    const fetchOfflinePage = useCallback(async (reset: boolean) => {
+        const scopeQuery = formatFriendScope(scopeRef.current);
+        if (reset) offlineOffsetRef.current = 0;
+        const offset = offlineOffsetRef.current;
+
+        try {
+            const res = await fetch(`/api/friends/offline?offset=${offset}&n=${OFFLINE_PAGE_SIZE}`, { credentials: 'include' });
+            // Scope changed or the list was reloaded meanwhile
+            if (formatFriendScope(scopeRef.current) !== scopeQuery || offlineOffsetRef.current !== offset) return;
+            if (!res.ok) {
+                console.error(`[FriendsProvider] Failed to load offline friends (${res.status})`);
+                return;
+            }
+            const data: OfflineFriendsPageResponse = await res.json();
+            offlineOffsetRef.current = offset + OFFLINE_PAGE_SIZE;
+            // Skip anyone who has come online since the page was listed
+            applyFriendsData({
+                delta: true,
+                offlineFriends: (data.offlineFriends || []).filter((f) => !friendsDataRef.current.has(f.id)),
+            });
+            offlineHasMoreRef.current = !!data.hasMore;
+            updateOfflineHasMore();
+        } catch (error: unknown) {
+            console.error('[FriendsProvider] Failed to load offline friends:', error);
+        }
+    }, [applyFriendsData, updateOfflineHasMore]);
+
+    // Fetch friends data. The first load is streamed so the list renders before
+    // enrichment finishes; later ones ask only for what changed since the last version.
+    const fetchFriends = useCallback(async () => {
+        const scopeQuery = formatFriendScope(scopeRef.current);
+        const isCurrent = () => formatFriendScope(scopeRef.current) === scopeQuery;
+        try {
+            const since = friendsVersionRef.current;
+            const url = since
+                ? `/api/friends/active?${scopeQuery}&since=${encodeURIComponent(since)}`
+                : `/api/friends/active?${scopeQuery}&stream=1`;
+            // no-cache: revalidate with the ETag instead of trusting the browser cache
+            const res = await fetch(url, { credentials: 'include', cache: 'no-cache' });
+            // A newer fetch for the new scope takes over
+            if (!isCurrent()) return;
+            if (res.ok) {
+                setIsAuthenticated(true);
+                isAuthenticatedRef.current = true; // Set ref immediately for SSE connection
+
+                let replaced = true;
+                if (!since && res.body) {
+                    await readFriendsStream(res.body, isCurrent);
+                } else {
+                    const data: ActiveFriendsResponse = await res.json();
+                    if (!isCurrent()) return;
+                    applyFriendsData(data);
+                    replaced = !data.delta;
+                }
+
+                // A full list comes without offline friends for scope "all"; page them in
+                if (replaced && isCurrent() && scopeRef.current.mode === 'all') {
+                    await fetchOfflinePage(true);
+                } else if (replaced) {
+                    offlineHasMoreRef.current = false;
+                    updateOfflineHasMore();
+                }
+            } else if (res.status === 401) {
+                await handleUnauthorized();
             } else {
-                setIsAuthenticated(false);
-                isAuthenticatedRef.current = false; // Set ref immediately
-                setInstances([]);
-                setOfflineFriends([]);
+                handleLoggedOut();
             }
         } catch (error: unknown) {
             console.error(error);
@@ -507,7 +852,200 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
         } finally {
             setLoading(false);
         }
-    }, [rebuildInstances, saveTimestamps, saveWorldCache]);
+    }, [applyFriendsData, fetchOfflinePage, handleLoggedOut, handleUnauthorized, readFriendsStream, updateOfflineHasMore]);
+
+    // Merged view: fetch the next page of another account's offline friends (scope "all")
+    const fetchAccountOfflinePage = useCallback(async (accountId: string, lists: AccountFriends) => {
+        const scopeQuery = formatFriendScope(scopeRef.current);
+        const offset = lists.offlineOffset;
+        try {
+            const url = `/api/friends/offline?offset=${offset}&n=${OFFLINE_PAGE_SIZE}&account=${encodeURIComponent(accountId)}`;
+            const res = await fetch(url, { credentials: 'include' });
+            // Scope changed, the merged view was turned off or the lists were reloaded meanwhile
+            if (formatFriendScope(scopeRef.current) !== scopeQuery
+                || accountFriendsRef.current.get(accountId) !== lists || lists.offlineOffset !== offset) return;
+            if (!res.ok) {
+                console.error(`[FriendsProvider] Failed to load offline friends of ${lists.displayName} (${res.status})`);
+                return;
+            }
+            const data: OfflineFriendsPageResponse = await res.json();
+            lists.offlineOffset = offset + OFFLINE_PAGE_SIZE;
+            lists.offlineHasMore = !!data.hasMore;
+            // Skip anyone who has come online since the page was listed
+            (data.offlineFriends || []).forEach((f) => {
+                if (f?.id && !lists.friends.has(f.id)) lists.offlineFriends.set(f.id, f);
+            });
+        } catch (error: unknown) {
+            console.error(`[FriendsProvider] Failed to load offline friends of ${lists.displayName}:`, error);
+        }
+    }, []);
+
+    // Merged view: fetch (or update since the last version) another account's lists
+    const fetchAccountFriends = useCallback(async (account: LoggedInAccount) => {
+        const scopeQuery = formatFriendScope(scopeRef.current);
+        const previous = accountFriendsRef.current.get(account.id);
+        const since = previous?.version;
+        try {
+            const url = `/api/friends/active?${scopeQuery}&account=${encodeURIComponent(account.id)}`
+                + (since ? `&since=${encodeURIComponent(since)}` : '');
+            const res = await fetch(url, { credentials: 'include', cache: 'no-cache' });
+            // Scope changed or the merged view was turned off meanwhile
+            if (formatFriendScope(scopeRef.current) !== scopeQuery || !mergeAccountsRef.current) return;
+            if (!res.ok) {
+                console.error(`[FriendsProvider] Failed to load friends of ${account.displayName} (${res.status})`);
+                return;
+            }
+            const data: ActiveFriendsResponse = await res.json();
+
+            const lists: AccountFriends = data.delta && previous
+                ? previous
+                : {
+                    displayName: account.displayName,
+                    version: null,
+                    friends: new Map(),
+                    offlineFriends: new Map(),
+                    offlineOffset: 0,
+                    offlineHasMore: false,
+                };
+            const now = Date.now();
+            (data.removed || []).forEach((id) => {
+                lists.friends.delete(id);
+                lists.offlineFriends.delete(id);
+            });
+            (data.friends || []).forEach((f) => {
+                if (!f?.id) return;
+                lists.friends.set(f.id, f);
+                lists.offlineFriends.delete(f.id);
+                // Stay durations of friends the active account doesn't see
+                const existing = locationTimestampsRef.current.get(f.id);
+                if (!friendsDataRef.current.has(f.id) && (!existing || existing.location !== f.location)) {
+                    locationTimestampsRef.current.set(f.id, { location: f.location, joinedAt: now });
+                }
+            });
+            (data.offlineFriends || []).forEach((f) => {
+                if (!f?.id) return;
+                lists.offlineFriends.set(f.id, f);
+                lists.friends.delete(f.id);
+            });
+            if (data.version) lists.version = data.version;
+            accountFriendsRef.current.set(account.id, lists);
+
+            // A full list comes without offline friends for scope "all"; page them in
+            if (lists !== previous && scopeRef.current.mode === 'all') {
+                await fetchAccountOfflinePage(account.id, lists);
+            }
+        } catch (error: unknown) {
+            console.error(`[FriendsProvider] Failed to load friends of ${account.displayName}:`, error);
+        }
+    }, [fetchAccountOfflinePage]);
+
+    // Merged view: refresh every other account's lists, then show them
+    const fetchMergedAccounts = useCallback(async () => {
+        if (!mergeAccountsRef.current) return;
+        for (const account of accountsRef.current.filter(a => !a.active)) {
+            await fetchAccountFriends(account);
+        }
+        if (!mergeAccountsRef.current) return;
+        saveTimestamps();
+        rebuildInstances();
+        rebuildOfflineFriends();
+        updateOfflineHasMore();
+    }, [fetchAccountFriends, rebuildInstances, rebuildOfflineFriends, saveTimestamps, updateOfflineHasMore]);
+
+    const fetchAccounts = useCallback(async () => {
+        try {
+            const res = await fetch('/api/auth/accounts', { credentials: 'include' });
+            if (!res.ok) return;
+            const data: unknown = await res.json();
+            const list = isObject(data) && Array.isArray(data.accounts) ? data.accounts.filter(isLoggedInAccount) : [];
+            accountsRef.current = list;
+            setAccounts(list);
+        } catch (error: unknown) {
+            console.error('[FriendsProvider] Failed to load accounts:', error);
+        }
+    }, []);
+
+    const refresh = useCallback(async () => {
+        await fetchFriends();
+        await fetchMergedAccounts();
+    }, [fetchFriends, fetchMergedAccounts]);
+
+    const switchAccount = useCallback(async (accountId: string) => {
+        try {
+            const res = await fetch('/api/auth/accounts/active', {
+                method: 'PUT',
+                credentials: 'include',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ accountId }),
+            });
+            if (!res.ok) {
+                console.error(`[FriendsProvider] Failed to switch account (${res.status})`);
+                return false;
+            }
+        } catch (error: unknown) {
+            console.error('[FriendsProvider] Failed to switch account:', error);
+            return false;
+        }
+        // Everything here (and in other providers) belongs to the previous account; start over
+        window.location.href = '/';
+        return true;
+    }, []);
+
+    const setMergeAccounts = useCallback((merge: boolean) => {
+        try {
+            localStorage.setItem('vrc_merge_accounts', String(merge));
+        } catch (error: unknown) { console.error('Failed to save merged view setting:', error); }
+
+        mergeAccountsRef.current = merge;
+        setMergeAccountsState(merge);
+        if (merge) {
+            fetchMergedAccounts();
+        } else {
+            accountFriendsRef.current = new Map();
+            rebuildInstances();
+            rebuildOfflineFriends();
+            updateOfflineHasMore();
+        }
+    }, [fetchMergedAccounts, rebuildInstances, rebuildOfflineFriends, updateOfflineHasMore]);
+
+    // Next page of every offline list that has more: the active account's and the merged ones'
+    const loadMoreOffline = useCallback(async () => {
+        if (loadingMoreOffline || !offlineHasMore) return;
+        setLoadingMoreOffline(true);
+        try {
+            if (offlineHasMoreRef.current) await fetchOfflinePage(false);
+            if (mergeAccountsRef.current) {
+                for (const [accountId, lists] of accountFriendsRef.current) {
+                    if (lists.offlineHasMore) await fetchAccountOfflinePage(accountId, lists);
+                }
+                rebuildOfflineFriends();
+                updateOfflineHasMore();
+            }
+        } finally {
+            setLoadingMoreOffline(false);
+        }
+    }, [fetchAccountOfflinePage, fetchOfflinePage, loadingMoreOffline, offlineHasMore, rebuildOfflineFriends, updateOfflineHasMore]);
+
+    const setScope = useCallback((next: FriendScope) => {
+        try {
+            localStorage.setItem('vrc_friend_scope', JSON.stringify(next));
+        } catch (error: unknown) { console.error('Failed to save friend scope:', error); }
+
+        scopeRef.current = next;
+        setScopeState(next);
+        offlineHasMoreRef.current = false;
+        setOfflineHasMore(false);
+
+        // Regroup what we have right away; the offline list belongs to the old scope
+        offlineDataRef.current = new Map();
+        rebuildInstances();
+        rebuildOfflineFriends();
+
+        // Versions are per scope, so start over with a full load
+        friendsVersionRef.current = null;
+        accountFriendsRef.current = new Map();
+        refresh();
+    }, [refresh, rebuildInstances, rebuildOfflineFriends]);
 
     // Handle SSE events
     const handleSSEEvent = useCallback(async (eventType: string, data: unknown) => {
@@ -549,8 +1087,8 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
                 }
 
                 // Get instance type from event data or parse from location
-                const info = parseInstanceInfo(location);
-                let instanceType = info?.type || 'Public';
+                const info = parseLocation(location);
+                let instanceType: string = info?.type || 'Public';
                 const instance = isObject(data.instance) ? data.instance : null;
                 // Use instance type from VRChat API if available (more accurate)
                 if (typeof instance?.type === 'string') {
@@ -573,16 +1111,12 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
                     isFavorite,
                     favoriteGroup,
                     instanceType,
-                    ownerId: info?.creatorId || (typeof instance?.ownerId === 'string' ? instance.ownerId : undefined),
+                    ownerId: info?.ownerId || (typeof instance?.ownerId === 'string' ? instance.ownerId : undefined),
                     groupId: info?.groupId || (typeof instance?.groupId === 'string' ? instance.groupId : undefined),
                 });
 
                 locationTimestampsRef.current.set(userId, { location, joinedAt: now });
                 saveTimestamps();
-                // Only log favorite friends
-                if (isFavorite) {
-                    addLogEntry('OnLine', user.displayName, worldName || 'Online', 'text-green-400');
-                }
                 rebuildInstances();
                 break;
             }
@@ -590,10 +1124,9 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
             case 'friend-offline': {
                 const userId = typeof data.userId === 'string' ? data.userId : null;
                 if (!userId) break;
-                const friend = friendsDataRef.current.get(userId);
-                // Only log favorite friends
-                if (friend?.isFavorite) addLogEntry('Offline', friend.name || friend.displayName || userId, 'Went Offline', 'text-slate-500');
                 friendsDataRef.current.delete(userId);
+                // Offline for the other accounts too, until their next refresh says otherwise
+                accountFriendsRef.current.forEach(lists => lists.friends.delete(userId));
                 locationTimestampsRef.current.delete(userId);
                 saveTimestamps();
                 rebuildInstances();
@@ -611,9 +1144,6 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
                 const previousLocation = existingFriend?.location;
                 const hasLocationChanged = previousLocation !== location;
 
-                // Get previous location info
-                const prevWorldName = existingFriend?.worldName || 'Unknown';
-
                 const world = isObject(data.world) ? data.world : null;
                 let worldName = typeof world?.name === 'string' ? world.name : undefined;
                 let worldImageUrl = typeof world?.thumbnailImageUrl === 'string' ? world.thumbnailImageUrl : undefined;
@@ -640,8 +1170,8 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
                 }
 
                 // Get instance type from event data or parse from location
-                const info = parseInstanceInfo(location);
-                let instanceType = info?.type || 'Public';
+                const info = parseLocation(location);
+                let instanceType: string = info?.type || 'Public';
                 const instance = isObject(data.instance) ? data.instance : null;
                 // Use instance type from VRChat API if available (more accurate for new instances)
                 if (typeof instance?.type === 'string') {
@@ -666,7 +1196,7 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
                     isFavorite,
                     favoriteGroup,
                     instanceType,
-                    ownerId: info?.creatorId || (typeof instance?.ownerId === 'string' ? instance.ownerId : undefined),
+                    ownerId: info?.ownerId || (typeof instance?.ownerId === 'string' ? instance.ownerId : undefined),
                     groupId: info?.groupId || (typeof instance?.groupId === 'string' ? instance.groupId : undefined),
                 });
 
@@ -674,13 +1204,6 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
                     locationTimestampsRef.current.set(userId, { location, joinedAt: now });
                     saveTimestamps();
                 }
-
-                // Only log favorite friends when the location actually changed
-                if (isFavorite && hasLocationChanged) {
-                    const newWorldName = worldName || (location === 'private' ? 'Private World' : existingFriend?.worldName || 'Unknown');
-                    const logDetail = `${prevWorldName} → ${newWorldName}`;
-                    addLogEntry('GPS', user.displayName, logDetail, 'text-orange-400');
-                }
                 rebuildInstances();
                 break;
             }
@@ -692,24 +1215,11 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
                 const existingFriend = friendsDataRef.current.get(userId);
 
                 if (existingFriend) {
-                    const isFavorite = existingFriend.isFavorite;
-                    const prevStatus = existingFriend.status;
-                    const prevStatusMsg = existingFriend.statusMsg;
                     const newStatus = typeof user.status === 'string' ? user.status : existingFriend.status;
                     const newStatusMsg = typeof user.statusDescription === 'string'
                         ? user.statusDescription
                         : existingFriend.statusMsg;
 
-                    // Log status change for favorites
-                    if (isFavorite && prevStatus && newStatus && prevStatus !== newStatus) {
-                        addLogEntry('Status', user.displayName, `${prevStatus} → ${newStatus}`, 'text-cyan-400');
-                    }
-
-                    // Log status message change for favorites
-                    if (isFavorite && prevStatusMsg !== newStatusMsg && newStatusMsg) {
-                        addLogEntry('StatusMsg', user.displayName, newStatusMsg, 'text-purple-400');
-                    }
-
                     friendsDataRef.current.set(userId, {
                         ...existingFriend,
                         name: user.displayName,
@@ -758,7 +1268,11 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
         console.log('[FriendsProvider] Connecting to SSE...');
         setWsConnectionState('connecting');
 
-        const eventSource = new EventSource('/api/friends/stream');
+        // Resume from the last event we saw so the server replays what we missed
+        const streamUrl = lastEventIdRef.current
+            ? `/api/friends/stream?lastEventId=${encodeURIComponent(lastEventIdRef.current)}`
+            : '/api/friends/stream';
+        const eventSource = new EventSource(streamUrl);
         eventSourceRef.current = eventSource;
 
         eventSource.addEventListener('connected', () => {
@@ -766,9 +1280,42 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
             setWsConnectionState('connected');
         });
 
+        // The server's watcher stopped and ended this stream (logout, revocation, idle shutdown);
+        // reconnect if we're still logged in, which starts a new one
         eventSource.addEventListener('disconnected', () => {
             console.log('[FriendsProvider] SSE disconnected');
-            setWsConnectionState('disconnected');
+            disconnectSSE();
+            handleUnauthorized().then((check) => {
+                if (check?.status !== 'valid') return;
+                reconnectTimeoutRef.current = setTimeout(() => {
+                    if (isAuthenticatedRef.current) connectSSE();
+                }, 1000);
+            });
+        });
+
+        // Upstream dropped; the server is reconnecting on its own
+        eventSource.addEventListener('reconnecting', () => {
+            console.log('[FriendsProvider] Upstream reconnecting');
+            setWsConnectionState('reconnecting');
+        });
+
+        // VRChat rejected the pipeline connection; stop streaming and find out whether the login expired
+        eventSource.addEventListener('auth-expired', () => {
+            console.log('[FriendsProvider] Pipeline auth expired');
+            disconnectSSE();
+            handleUnauthorized().then((check) => {
+                if (check?.status !== 'valid') return;
+                // Still logged in after all; try the pipeline again
+                reconnectTimeoutRef.current = setTimeout(() => {
+                    if (isAuthenticatedRef.current) connectSSE();
+                }, 5000);
+            });
+        });
+
+        // Missed events could not be replayed; reload the full friend list
+        eventSource.addEventListener('resync', () => {
+            console.log('[FriendsProvider] SSE resync requested, refetching friends');
+            fetchFriends();
         });
 
         eventSource.addEventListener('error', () => {
@@ -790,18 +1337,35 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
             }, 5000);
         });
 
-        // Friend events
-        const friendEvents = ['friend-online', 'friend-offline', 'friend-location', 'friend-update', 'friend-active'];
-        friendEvents.forEach(eventType => {
+        // Pipeline events: friend-* update the friend list, everything goes to subscribers
+        PIPELINE_EVENT_TYPES.forEach(eventType => {
             eventSource.addEventListener(eventType, (e: MessageEvent) => {
+                if (e.lastEventId) lastEventIdRef.current = e.lastEventId;
+                let event: VRChatPipelineEvent;
                 try {
-                    const data = JSON.parse(e.data);
-                    // friend-active is similar to friend-online
-                    const normalizedType = eventType === 'friend-active' ? 'friend-online' : eventType;
-                    handleSSEEvent(normalizedType, data);
+                    event = { type: eventType, content: JSON.parse(e.data) } as VRChatPipelineEvent;
                 } catch (err) {
                     console.error(`[FriendsProvider] Failed to parse ${eventType} event:`, err);
+                    return;
+                }
+
+                if (FRIEND_LIST_EVENTS.includes(event.type)) {
+                    // friend-active is similar to friend-online
+                    const normalizedType = event.type === 'friend-active' ? 'friend-online' : event.type;
+                    handleSSEEvent(normalizedType, event.content);
                 }
+
+                if (event.type === 'user-location' && typeof event.content.location === 'string') {
+                    setMyLocation(event.content.location);
+                }
+
+                eventListenersRef.current.forEach(listener => {
+                    try {
+                        listener(event);
+                    } catch (err) {
+                        console.error(`[FriendsProvider] ${eventType} listener error:`, err);
+                    }
+                });
             });
         });
 
@@ -823,7 +1387,7 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
             }, 5000);
         };
 
-    }, [handleSSEEvent, disconnectSSE]);
+    }, [handleSSEEvent, disconnectSSE, fetchFriends, handleUnauthorized]);
 
     // Update auth ref when state changes and manage SSE connection
     useEffect(() => {
@@ -833,22 +1397,72 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
         if (!isAuthenticated && eventSourceRef.current) {
             console.log('[FriendsProvider] User logged out, disconnecting SSE');
             disconnectSSE();
+            lastEventIdRef.current = null;
         }
     }, [isAuthenticated, disconnectSSE]);
 
+    // Session expired: stop streaming until the user logs in again (the view stays)
+    useEffect(() => {
+        if (sessionExpired) disconnectSSE();
+    }, [sessionExpired, disconnectSSE]);
+
+    // Check the login now and then, so it expiring is noticed while nothing is being loaded
+    useEffect(() => {
+        if (!isAuthenticated || sessionExpired) return;
+        const timer = setInterval(checkSession, SESSION_CHECK_INTERVAL);
+        return () => clearInterval(timer);
+    }, [isAuthenticated, sessionExpired, checkSession]);
+
+    const resumeSession = useCallback(async () => {
+        const check = await checkSession();
+        if (check?.status !== 'valid') return false;
+
+        // Logged in as someone else (or there was nothing to keep): start over
+        const previous = accountsRef.current.find(a => a.active)?.id;
+        if (!previous || check.account?.id !== previous) {
+            window.location.href = '/';
+            return true;
+        }
+
+        sessionExpiredRef.current = false;
+        setSessionExpired(null);
+        setIsAuthenticated(true);
+        isAuthenticatedRef.current = true; // Set ref immediately for SSE connection
+        // Only what changed while the session was expired
+        await refresh();
+        connectSSE();
+        return true;
+    }, [checkSession, connectSSE, refresh]);
+
+    const subscribeEvents = useCallback((listener: PipelineEventListener) => {
+        eventListenersRef.current.add(listener);
+        return () => {
+            eventListenersRef.current.delete(listener);
+        };
+    }, []);
+
     // Initialize
     useEffect(() => {
-        fetchFriends().then(() => {
+        fetchFriends().then(async () => {
             // Only connect SSE if authenticated after fetch
             if (isAuthenticatedRef.current) {
                 connectSSE();
+                await fetchAccounts();
+                await fetchMergedAccounts();
             }
         });
 
         return () => {
             disconnectSSE();
         };
-    }, [fetchFriends, connectSSE, disconnectSSE]);
+    }, [fetchFriends, connectSSE, disconnectSSE, fetchAccounts, fetchMergedAccounts]);
+
+    // Merged view: the other accounts get no pipeline events, so refresh their lists now and then
+    useEffect(() => {
+        if (!mergeAccounts || !isAuthenticated || accounts.length < 2) return;
+        const timer = setInterval(fetchMergedAccounts, MERGED_REFRESH_INTERVAL);
+        return () => clearInterval(timer);
+    }, [mergeAccounts, isAuthenticated, accounts.length, fetchMergedAccounts]);
 
     return (
         <FriendsContext.Provider value={{
@@ -858,7 +1472,20 @@ export const FriendsProvider = ({ children }: { children: React.ReactNode }) =>
             isAuthenticated,
             lastUpdated,
             wsConnectionState,
-            refresh: fetchFriends
+            myLocation,
+            subscribeEvents,
+            refresh,
+            scope,
+            setScope,
+            offlineHasMore,
+            loadingMoreOffline,
+            loadMoreOffline,
+            accounts,
+            switchAccount,
+            mergeAccounts,
+            setMergeAccounts,
+            sessionExpired,
+            resumeSession
         }}>
             {children}
         </FriendsContext.Provider>
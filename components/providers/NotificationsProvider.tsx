@@ -0,0 +1,126 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { useFriends } from '@/components/providers/FriendsProvider';
+import { AppNotification, NotificationAction, normalizeNotification, normalizeNotificationV2, sortNotifications } from '@/lib/notifications';
+import { VRChatPipelineEvent } from '@/lib/pipelineEvents';
+
+interface NotificationsContextType {
+    notifications: AppNotification[];
+    unreadCount: number;
+    loading: boolean;
+    // Perform an action; resolves to an error message, or null on success
+    act: (notification: AppNotification, action: NotificationAction) => Promise<string | null>;
+    refresh: () => void;
+}
+
+const NotificationsContext = createContext<NotificationsContextType>({
+    notifications: [],
+    unreadCount: 0,
+    loading: true,
+    act: async () => null,
+    refresh: () => { },
+});
+
+// Apply a live pipeline event to the notification list
+const applyPipelineEvent = (list: AppNotification[], event: VRChatPipelineEvent): AppNotification[] => {
+    switch (event.type) {
+        case 'notification': {
+            const notification = normalizeNotification(event.content);
+            return sortNotifications([notification, ...list.filter(n => n.id !== notification.id)]);
+        }
+        case 'notification-v2': {
+            const notification = normalizeNotificationV2(event.content);
+            return sortNotifications([notification, ...list.filter(n => n.id !== notification.id)]);
+        }
+        case 'notification-v2-update': {
+            const { id, updates } = event.content;
+            const seen = updates.seen;
+            return list.map(n => n.id === id
+                ? { ...n, title: updates.title ?? n.title, message: updates.message ?? n.message, seen: seen ?? n.seen }
+                : n);
+        }
+        case 'notification-v2-delete':
+            return list.filter(n => !event.content.ids.includes(n.id));
+        case 'see-notification':
+            return list.map(n => n.id === event.content ? { ...n, seen: true } : n);
+        case 'hide-notification':
+            return list.filter(n => n.id !== event.content);
+        case 'clear-notification':
+            return [];
+        default:
+            return list;
+    }
+};
+
+export const NotificationsProvider = ({ children }: { children: React.ReactNode }) => {
+    const { isAuthenticated, subscribeEvents } = useFriends();
+    const [notifications, setNotifications] = useState<AppNotification[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const fetchNotifications = useCallback(async () => {
+        try {
+            const res = await fetch('/api/notifications', { credentials: 'include' });
+            if (res.ok) {
+                const data = await res.json();
+                setNotifications(data.notifications || []);
+            }
+        } catch (error: unknown) {
+            console.error('[NotificationsProvider] Fetch error:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    // Initial load once logged in
+    useEffect(() => {
+        if (isAuthenticated) fetchNotifications();
+    }, [isAuthenticated, fetchNotifications]);
+
+    // Live updates from the pipeline
+    useEffect(() => {
+        return subscribeEvents((event) => {
+            setNotifications(list => applyPipelineEvent(list, event));
+        });
+    }, [subscribeEvents]);
+
+    const act = useCallback(async (notification: AppNotification, action: NotificationAction): Promise<string | null> => {
+        try {
+            const res = await fetch(`/api/notifications/${encodeURIComponent(notification.id)}`, {
+                method: 'POST',
+                credentials: 'include',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action, source: notification.source })
+            });
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}));
+                return data.error || `Failed to ${action} notification`;
+            }
+
+            // Read keeps the notification; accept/decline removes it from the inbox
+            setNotifications(list => action === 'read'
+                ? list.map(n => n.id === notification.id ? { ...n, seen: true } : n)
+                : list.filter(n => n.id !== notification.id));
+            return null;
+        } catch (error: unknown) {
+            console.error('[NotificationsProvider] Action error:', error);
+            return `Failed to ${action} notification`;
+        }
+    }, []);
+
+    const unreadCount = notifications.filter(n => !n.seen).length;
+
+    return (
+        <NotificationsContext.Provider value={{
+            notifications,
+            unreadCount,
+            loading,
+            act,
+            refresh: fetchNotifications
+        }}>
+            {children}
+        </NotificationsContext.Provider>
+    );
+};
+
+export const useNotifications = () => useContext(NotificationsContext);
@@ -0,0 +1,34 @@
+// Runs once when the Next.js server starts.
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+    // Validate environment configuration up front; throws and aborts startup on bad values
+    const { getConfig } = await import('@/lib/config');
+    const config = getConfig();
+    console.log(`[Config] VRChat API: ${config.vrchatApiBase}`);
+    console.log(`[Config] VRChat pipeline: ${config.vrchatPipelineUrl}`);
+    console.log(`[Config] Rate limit store: ${config.rateLimitStore}`);
+    if (!config.sessionSecret) {
+        console.warn('[Config] SESSION_SECRET is not set; logins will not survive a server restart (required in production)');
+    }
+
+    // Sessions that expire from inactivity are ended (and their watchers stopped) periodically
+    const { startExpiredSessionSweep } = await import('@/lib/sessionRevocation');
+    startExpiredSessionSweep();
+
+    // Sessions outlive the process, so resume their background watchers; otherwise friend
+    // events go unrecorded until someone opens a tab
+    if (config.pipelineKeepAlive) {
+        try {
+            const { listActiveSessions } = await import('@/lib/sessionStore');
+            const { startPipelineWatcher } = await import('@/lib/pipelineWatcher');
+            const sessions = listActiveSessions();
+            sessions.forEach(stored => startPipelineWatcher(stored.session));
+            if (sessions.length > 0) {
+                console.log(`[Pipeline] Resumed watchers for ${sessions.length} stored session(s)`);
+            }
+        } catch (error: unknown) {
+            console.error('[Pipeline] Failed to resume watchers for stored sessions:', error);
+        }
+    }
+}
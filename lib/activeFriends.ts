@@ -0,0 +1,470 @@
+import { FriendScope, isInFriendScope } from '@/lib/friendScope';
+import { parseLocation } from '@/lib/location';
+import { createVRChatClient, VRChatClient, VRChatSession, VrcFriend, VrcGroup, VrcInstance, VrcUser, VrcWorld } from '@/lib/vrchat';
+import { getCachedGroup, getCachedInstance, getCachedUser, getCachedWorld } from '@/lib/vrchatCache';
+
+// Builds the dashboard friend list served by /api/friends/active: online friends
+// (everyone in the scope, plus others in a visible location) and offline friends in the
+// scope, enriched with world, group, instance and owner details.
+// With scope "all" the offline list is left out; /api/friends/offline pages through it.
+
+export type ActiveFriend = {
+    id: string;
+    name: string;
+    status?: string;
+    statusMsg?: string;
+    icon: string;
+    location: string;
+    worldName: string;
+    worldImageUrl?: string | null;
+    isPrivate: boolean;
+    isFavorite: boolean;
+    // Favorite group tag, e.g. "group_0"
+    favoriteGroup: string | null;
+    instanceType: string;
+    ownerId: string | null;
+    ownerName: string | null;
+    groupId: string | null;
+    groupName: string | null;
+    instanceUserCount: number | null;
+    // Offline list only
+    last_login?: string;
+    last_activity?: string;
+};
+
+export type ActiveFriendsResult = {
+    friends: ActiveFriend[];
+    offlineFriends: ActiveFriend[];
+};
+
+// Fields an enrichment stage filled in. location is always included so a client can
+// drop patches for a location the friend has left in the meantime.
+export type ActiveFriendPatch = Partial<ActiveFriend> & Pick<ActiveFriend, 'id' | 'location'>;
+
+// Reported while loading, in this order:
+//   friends - online friends, before any enrichment
+//   patch   - after each enrichment stage (worlds, groups, instance counts, owners)
+//   offline - offline friends in the scope (empty for scope "all")
+export type ActiveFriendsProgress =
+    | { type: 'friends'; friends: ActiveFriend[] }
+    | { type: 'patch'; friends: ActiveFriendPatch[] }
+    | { type: 'offline'; offlineFriends: ActiveFriend[] };
+
+// Fields of next that differ from previous, or null when nothing changed
+function diffActiveFriend(previous: ActiveFriend, next: ActiveFriend): ActiveFriendPatch | null {
+    const patch: ActiveFriendPatch = { id: next.id, location: next.location };
+    let changed = false;
+    (Object.keys(next) as (keyof ActiveFriend)[]).forEach((key) => {
+        if (previous[key] !== next[key]) {
+            Object.assign(patch, { [key]: next[key] });
+            changed = true;
+        }
+    });
+    return changed ? patch : null;
+}
+
+type FavoriteFriends = {
+    favoriteIds: Set<string>;
+    // userId -> favorite group (e.g. "group_0")
+    favoriteGroups: Map<string, string>;
+};
+
+// Favorite friends of the account, all pages
+async function loadFavoriteFriends(client: VRChatClient): Promise<FavoriteFriends> {
+    // Fetch ALL Favorites (pagination loop)
+    // Also store favorite group info for sorting
+    const favoriteIds = new Set<string>();
+    const favoriteGroups = new Map<string, string>(); // userId -> group (e.g., "group_0")
+    let offset = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+        try {
+            const favs = await client.getFavorites({ type: 'friend', n: 100, offset });
+            if (favs.length > 0) {
+                favs.forEach((fav) => {
+                    favoriteIds.add(fav.favoriteId);
+                    // Extract favorite group from tags (e.g., ["group_0"])
+                    if (fav.tags && Array.isArray(fav.tags) && fav.tags.length > 0) {
+                        favoriteGroups.set(fav.favoriteId, fav.tags[0]);
+                    }
+                });
+                if (favs.length < 100) {
+                    hasMore = false; // End of list
+                } else {
+                    offset += 100; // Next page
+                }
+            } else {
+                hasMore = false;
+            }
+        } catch (error: unknown) {
+            console.error(`[FriendsAPI] Failed to fetch favorites offset=${offset}`, error);
+            hasMore = false;
+        }
+    }
+
+    return { favoriteIds, favoriteGroups };
+}
+
+// Offline list entry for a friend (fetched as a user or from the offline friends list)
+function toOfflineFriend(f: VrcUser | VrcFriend, { favoriteIds, favoriteGroups }: FavoriteFriends): ActiveFriend {
+    const favoriteGroup = favoriteGroups.get(f.id) || null;
+    return {
+        id: f.id,
+        name: f.displayName,
+        status: 'offline',
+        statusMsg: f.statusDescription,
+        icon: f.userIcon || f.profilePicOverride || f.currentAvatarThumbnailImageUrl || f.currentAvatarImageUrl || '',
+        location: 'offline',
+        worldName: 'Offline',
+        worldImageUrl: null,
+        isPrivate: false,
+        isFavorite: favoriteIds.has(f.id),
+        favoriteGroup,
+        instanceType: 'Offline',
+        ownerId: null,
+        ownerName: null,
+        groupId: null,
+        groupName: null,
+        instanceUserCount: null,
+        last_login: f.last_login,
+        last_activity: f.last_activity,
+    };
+}
+
+// Fetch and enrich the friend list of the account behind session.
+// Throws when the friend list itself can't be fetched; failed enrichment is left out.
+// onProgress receives partial results as they become available (see ActiveFriendsProgress).
+export async function loadActiveFriends(
+    session: VRChatSession,
+    accountId: string,
+    scope: FriendScope,
+    onProgress?: (progress: ActiveFriendsProgress) => void
+): Promise<ActiveFriendsResult> {
+    const client = createVRChatClient(session);
+    // Enrichment (users, worlds, groups, instances) yields to interactive calls in the outbound queue
+    // and is served from the server cache when possible
+    const background = createVRChatClient(session, { priority: 'background' });
+
+    // Fetch ALL Online Friends with pagination
+    let allFriends: VrcFriend[] = [];
+    let friendOffset = 0;
+    let friendsHasMore = true;
+
+    console.log('[FriendsAPI] Starting to fetch all online friends...');
+
+    while (friendsHasMore) {
+        try {
+            const pageFriends = await client.getFriends({ offline: false, n: 100, offset: friendOffset });
+            if (pageFriends.length > 0) {
+                allFriends = allFriends.concat(pageFriends);
+                if (pageFriends.length < 100) {
+                    friendsHasMore = false; // Less than 100 means end of list
+                } else {
+                    friendOffset += 100; // Next page
+                }
+            } else {
+                friendsHasMore = false;
+            }
+        } catch (error: unknown) {
+            console.error('Error fetching friends page', error);
+            friendsHasMore = false;
+            // If first request fails seriously, return error, but if we have data, continue
+            if (allFriends.length === 0) throw error;
+        }
+    }
+
+    const friends = allFriends;
+    console.log(`[FriendsAPI] Total online friends fetched: ${friends.length}`);
+
+
+    const favorites = await loadFavoriteFriends(client);
+    const { favoriteIds, favoriteGroups } = favorites;
+
+    console.log(`[FriendsAPI] Total favorites loaded: ${favoriteIds.size}. Filtering ${friends.length} online friends.`);
+
+    const inScope = (userId: string) =>
+        isInFriendScope({ isFavorite: favoriteIds.has(userId), favoriteGroup: favoriteGroups.get(userId) }, scope);
+
+    // Split friends into those in scope and the rest
+    // For the rest, only include those with visible locations (not private/offline)
+    const activeScopedFriends = friends.filter((f) => inScope(f.id));
+    const activeOtherFriends = friends.filter((f) => {
+        if (inScope(f.id)) return false;  // Already included
+        if (!f.location || f.location === 'offline' || f.location === 'private') return false;
+        return true;  // Has visible location
+    });
+
+    // Combine all friends that need processing
+    const allActiveFriends = [...activeScopedFriends, ...activeOtherFriends];
+
+    // Batch size for API requests (pacing is left to the outbound scheduler)
+    const BATCH_SIZE = 10;
+
+    // Create a map of all friends for quick lookup (for instance owner names)
+    const allFriendsMap = new Map<string, string>();
+    friends.forEach((f) => allFriendsMap.set(f.id, f.displayName));
+
+    // Parse instance info (type, owner, group) from a location string
+    const getInstanceInfo = (location: string) => {
+        const parsed = parseLocation(location);
+        if (!parsed) return { instanceType: 'Private', ownerId: null, groupId: null };
+        return { instanceType: parsed.type, ownerId: parsed.ownerId, groupId: parsed.groupId };
+    };
+
+    // Enrichment results, filled in stage by stage below
+    const worldMap = new Map<string, VrcWorld>();
+    const groupMap = new Map<string, VrcGroup>();
+    const instanceMap = new Map<string, VrcInstance>();
+    const ownerMap = new Map<string, string>(); // userId -> displayName
+
+    // Transform an active friend with whatever enrichment has been fetched so far
+    const toActiveFriend = (f: VrcFriend): ActiveFriend => {
+        let worldName = f.location || 'Unknown';
+        let worldImageUrl = null;
+        let isPrivate = false;
+        const isFavorite = favoriteIds.has(f.id);
+
+        // Parse instance info
+        const instanceInfo = getInstanceInfo(f.location);
+        let ownerName: string | null = null;
+        let groupName: string | null = null;
+
+        // Get owner name from friends map or non-friend owner map
+        if (instanceInfo.ownerId) {
+            ownerName = allFriendsMap.get(instanceInfo.ownerId) || ownerMap.get(instanceInfo.ownerId) || null;
+        }
+
+        // Get group name from group map
+        if (instanceInfo.groupId) {
+            const gData = groupMap.get(instanceInfo.groupId);
+            if (gData) groupName = gData.name || null;
+        }
+
+        if (f.location === 'private') {
+            isPrivate = true;
+            worldName = 'Private World';
+        } else if (typeof f.location === 'string' && f.location.startsWith('wrld_')) {
+            const wid = f.location.split(':')[0];
+            const wData = worldMap.get(wid);
+
+            if (wData) {
+                worldName = wData.name || worldName;
+                worldImageUrl = wData.thumbnailImageUrl;
+            }
+
+            // Check if instance is private
+            if (f.location.includes('private')) {
+                isPrivate = true;
+            }
+        } else if (f.location === 'offline') {
+            worldName = 'Offline';
+        }
+
+        // Get instance user count
+        const instData = instanceMap.get(f.location);
+        const instanceUserCount = instData?.n_users || instData?.userCount || null;
+
+        // Get favorite group for this friend
+        const favoriteGroup = favoriteGroups.get(f.id) || null;
+
+        return {
+            id: f.id,
+            name: f.displayName,
+            status: f.status,
+            statusMsg: f.statusDescription,
+            icon: f.userIcon || f.profilePicOverride || f.currentAvatarThumbnailImageUrl || f.currentAvatarImageUrl || '',
+            location: f.location,
+            worldName,
+            worldImageUrl,
+            isPrivate,
+            isFavorite,
+            favoriteGroup,  // e.g., "group_0", "group_1", etc.
+            instanceType: instanceInfo.instanceType,
+            ownerId: instanceInfo.ownerId,
+            ownerName,
+            groupId: instanceInfo.groupId,
+            groupName,
+            instanceUserCount,
+        };
+    };
+
+    let simplifiedFriends = allActiveFriends.map(toActiveFriend);
+    onProgress?.({ type: 'friends', friends: simplifiedFriends });
+
+    // Report the fields the last enrichment stage filled in
+    const emitPatches = () => {
+        const next = allActiveFriends.map(toActiveFriend);
+        const patches = next.flatMap((friend, i) => {
+            const patch = diffActiveFriend(simplifiedFriends[i], friend);
+            return patch ? [patch] : [];
+        });
+        simplifiedFriends = next;
+        if (onProgress && patches.length > 0) onProgress({ type: 'patch', friends: patches });
+    };
+
+    // Extract unique world IDs and group IDs from all active friends
+    const worldIds = new Set<string>();
+    const groupIds = new Set<string>();
+    allActiveFriends.forEach((f) => {
+        const parsed = parseLocation(f.location);
+        if (parsed && parsed.worldId.startsWith('wrld_')) {
+            worldIds.add(parsed.worldId);
+
+            // Extract group ID if present
+            if (parsed.groupId) groupIds.add(parsed.groupId);
+        }
+    });
+
+    // Fetch world details in batches
+    const worldIdList = Array.from(worldIds);
+
+    console.log(`[FriendsAPI] Fetching info for ${worldIdList.length} unique worlds (Batch Size: ${BATCH_SIZE})`);
+
+    for (let i = 0; i < worldIdList.length; i += BATCH_SIZE) {
+        const batch = worldIdList.slice(i, i + BATCH_SIZE);
+        await Promise.all(batch.map(async (wid) => {
+            try {
+                worldMap.set(wid, await getCachedWorld(background, wid));
+            } catch {
+                console.error(`Failed to fetch world ${wid}`);
+            }
+        }));
+    }
+
+    emitPatches();
+
+    // Fetch group details
+    const groupIdList = Array.from(groupIds);
+
+    console.log(`[FriendsAPI] Fetching info for ${groupIdList.length} unique groups`);
+
+    for (let i = 0; i < groupIdList.length; i += BATCH_SIZE) {
+        const batch = groupIdList.slice(i, i + BATCH_SIZE);
+        await Promise.all(batch.map(async (gid) => {
+            try {
+                groupMap.set(gid, await getCachedGroup(background, gid));
+            } catch {
+                console.error(`Failed to fetch group ${gid}`);
+            }
+        }));
+    }
+
+    emitPatches();
+
+    // Collect unique instance locations (for fetching instance user counts)
+    const instanceLocations = new Set<string>();
+    allActiveFriends.forEach((f) => {
+        if (f.location && f.location.startsWith('wrld_') && !f.location.includes('private')) {
+            instanceLocations.add(f.location);
+        }
+    });
+
+    // Fetch instance details to get total user count
+    const instanceList = Array.from(instanceLocations);
+
+    console.log(`[FriendsAPI] Fetching info for ${instanceList.length} unique instances`);
+
+    for (let i = 0; i < instanceList.length; i += BATCH_SIZE) {
+        const batch = instanceList.slice(i, i + BATCH_SIZE);
+        await Promise.all(batch.map(async (loc) => {
+            try {
+                instanceMap.set(loc, await getCachedInstance(background, loc));
+            } catch {
+                console.error(`Failed to fetch instance ${loc}`);
+            }
+        }));
+    }
+
+    emitPatches();
+
+    // Collect instance owner IDs that are not in friends list
+    const nonFriendOwnerIds = new Set<string>();
+    allActiveFriends.forEach((f) => {
+        const instanceInfo = getInstanceInfo(f.location);
+        if (instanceInfo.ownerId && !allFriendsMap.has(instanceInfo.ownerId)) {
+            nonFriendOwnerIds.add(instanceInfo.ownerId);
+        }
+    });
+
+    // Fetch non-friend owner info
+    const ownerIdList = Array.from(nonFriendOwnerIds);
+
+    if (ownerIdList.length > 0) {
+        console.log(`[FriendsAPI] Fetching info for ${ownerIdList.length} non-friend instance owners`);
+
+        for (let i = 0; i < ownerIdList.length; i += BATCH_SIZE) {
+            const batch = ownerIdList.slice(i, i + BATCH_SIZE);
+            await Promise.all(batch.map(async (userId) => {
+                try {
+                    const userData = await getCachedUser(background, accountId, userId);
+                    ownerMap.set(userId, userData.displayName);
+                } catch {
+                    console.error(`Failed to fetch user ${userId}`);
+                }
+            }));
+        }
+    }
+
+    emitPatches();
+
+    // Fetch offline favorite friends in scope (last: they are listed separately from the instances)
+    const offlineFavoriteIds = new Set<string>();
+    if (scope.mode !== 'all') {
+        favoriteIds.forEach(id => {
+            if (inScope(id) && !friends.some((f) => f.id === id)) {
+                offlineFavoriteIds.add(id);
+            }
+        });
+    }
+
+    // Fetch offline favorites info in batches
+    const offlineFavoriteFriends: VrcUser[] = [];
+    const offlineFavoriteIdList = Array.from(offlineFavoriteIds);
+
+    if (offlineFavoriteIdList.length > 0) {
+        console.log(`[FriendsAPI] Fetching info for ${offlineFavoriteIdList.length} offline favorite friends`);
+
+        for (let i = 0; i < offlineFavoriteIdList.length; i += BATCH_SIZE) {
+            const batch = offlineFavoriteIdList.slice(i, i + BATCH_SIZE);
+            await Promise.all(batch.map(async (userId) => {
+                try {
+                    offlineFavoriteFriends.push(await getCachedUser(background, accountId, userId));
+                } catch {
+                    console.error(`Failed to fetch offline favorite ${userId}`);
+                }
+            }));
+        }
+    }
+
+    const simplifiedOfflineFriends = offlineFavoriteFriends.map(f => toOfflineFriend(f, favorites));
+    onProgress?.({ type: 'offline', offlineFriends: simplifiedOfflineFriends });
+
+    return {
+        friends: simplifiedFriends,
+        offlineFriends: simplifiedOfflineFriends,
+    };
+}
+
+export type OfflineFriendsPage = {
+    offlineFriends: ActiveFriend[];
+    hasMore: boolean;
+};
+
+// One page of every offline friend (favorite or not), in VRChat's order.
+// Used for scope "all", where the offline list is too long to load up front.
+export async function loadOfflineFriendsPage(
+    session: VRChatSession,
+    { offset, n }: { offset: number; n: number }
+): Promise<OfflineFriendsPage> {
+    const client = createVRChatClient(session);
+    const [page, favorites] = await Promise.all([
+        client.getFriends({ offline: true, n, offset }),
+        loadFavoriteFriends(client),
+    ]);
+
+    return {
+        offlineFriends: page.map(f => toOfflineFriend(f, favorites)),
+        hasMore: page.length === n,
+    };
+}
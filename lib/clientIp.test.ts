@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { getClientIp } from '@/lib/clientIp';
+
+// Default RATE_LIMIT_TRUSTED_PROXIES: 127.0.0.0/8 and ::1
+const withForwardedFor = (value: string) => new Headers({ 'x-forwarded-for': value });
+
+describe('getClientIp', () => {
+    it('takes the rightmost untrusted hop', () => {
+        expect(getClientIp(withForwardedFor('198.51.100.7, 203.0.113.5, 127.0.0.1'))).toBe('203.0.113.5');
+        expect(getClientIp(withForwardedFor('203.0.113.5'))).toBe('203.0.113.5');
+    });
+
+    it('normalizes IPv4-mapped and bracketed addresses', () => {
+        expect(getClientIp(withForwardedFor('::ffff:203.0.113.5, ::1'))).toBe('203.0.113.5');
+        expect(getClientIp(withForwardedFor('[2001:db8::1]'))).toBe('2001:db8::1');
+    });
+
+    it('skips entries that are not addresses', () => {
+        expect(getClientIp(withForwardedFor('203.0.113.5, unknown, 127.0.0.1'))).toBe('203.0.113.5');
+    });
+
+    it('is unknown when every hop is a trusted proxy', () => {
+        expect(getClientIp(withForwardedFor('127.0.0.1'))).toBe('unknown');
+        expect(getClientIp(withForwardedFor('127.0.0.2, ::1, 127.0.0.1'))).toBe('unknown');
+    });
+
+    it('is unknown without X-Forwarded-For', () => {
+        expect(getClientIp(new Headers())).toBe('unknown');
+    });
+});
@@ -0,0 +1,60 @@
+// Resolve the real client IP of a request behind reverse proxies.
+//
+// Route handlers never see the socket address: Next.js only fills X-Forwarded-For with it
+// when the header is missing. Each proxy appends the address it received the request
+// from, so the list is read right to left, skipping hops that are trusted proxies
+// (RATE_LIMIT_TRUSTED_PROXIES); the first untrusted address is the client. Anything to
+// its left was supplied by the client and is ignored. When every hop is a trusted proxy
+// there is no client address, and the result is 'unknown' rather than a proxy's address.
+//
+// This assumes the app is reachable only through those proxies. When it is exposed
+// directly, a client can still choose the rightmost X-Forwarded-For entry itself.
+
+import net from 'node:net';
+import { getConfig } from '@/lib/config';
+
+let trustedProxies: net.BlockList | null = null;
+
+// "::ffff:1.2.3.4" -> "1.2.3.4" so IPv4 rules match IPv4-mapped addresses
+function normalizeIp(value: string): string {
+    const address = value.trim().replace(/^\[(.*)\]$/, '$1');
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    return mapped ? mapped[1] : address;
+}
+
+function getTrustedProxies(): net.BlockList {
+    if (!trustedProxies) {
+        trustedProxies = new net.BlockList();
+        for (const entry of getConfig().rateLimitTrustedProxies) {
+            const [address, prefix] = entry.split('/');
+            const type = net.isIP(address) === 4 ? 'ipv4' : 'ipv6';
+            if (prefix === undefined) trustedProxies.addAddress(address, type);
+            else trustedProxies.addSubnet(address, Number(prefix), type);
+        }
+    }
+    return trustedProxies;
+}
+
+function isTrustedProxy(address: string): boolean {
+    const family = net.isIP(address);
+    return family !== 0 && getTrustedProxies().check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Client IP of the request, or 'unknown' when no usable address is present
+export function getClientIp(headers: Headers): string {
+    // Cloudflare overwrites this header at its edge, so it can't be spoofed through the tunnel
+    if (getConfig().rateLimitCloudflare) {
+        const cfIp = normalizeIp(headers.get('cf-connecting-ip') || '');
+        if (net.isIP(cfIp)) return cfIp;
+    }
+
+    const hops = (headers.get('x-forwarded-for') || '')
+        .split(',')
+        .map(normalizeIp)
+        .filter(hop => net.isIP(hop) !== 0);
+
+    for (let i = hops.length - 1; i >= 0; i--) {
+        if (!isTrustedProxy(hops[i])) return hops[i];
+    }
+    return 'unknown';
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { loadConfig } from '@/lib/config';
+
+const SECRET = '0123456789abcdef0123456789abcdef';
+
+describe('SESSION_SECRET', () => {
+    it('is required in production', () => {
+        expect(() => loadConfig({ NODE_ENV: 'production' })).toThrow('SESSION_SECRET is required in production');
+        expect(() => loadConfig({ NODE_ENV: 'production', SESSION_SECRET: '  ' })).toThrow('SESSION_SECRET is required in production');
+        expect(loadConfig({ NODE_ENV: 'production', SESSION_SECRET: SECRET }).sessionSecret).toBe(SECRET);
+    });
+
+    it('may be left out in development', () => {
+        expect(loadConfig({ NODE_ENV: 'development' }).sessionSecret).toBeNull();
+        expect(loadConfig({ NODE_ENV: 'test' }).sessionSecret).toBeNull();
+    });
+
+    it('must be at least 32 characters', () => {
+        expect(() => loadConfig({ NODE_ENV: 'development', SESSION_SECRET: 'short' })).toThrow('at least 32 characters');
+        expect(() => loadConfig({ NODE_ENV: 'production', SESSION_SECRET: SECRET.slice(1) })).toThrow('at least 32 characters');
+    });
+});
+
+describe('METRICS_ACCOUNTS', () => {
+    it('is empty by default', () => {
+        expect(loadConfig({ NODE_ENV: 'development' }).metricsAccounts).toEqual([]);
+    });
+
+    it('lists user IDs', () => {
+        expect(loadConfig({ NODE_ENV: 'development', METRICS_ACCOUNTS: ' usr_a, usr_b,,usr_a ' }).metricsAccounts).toEqual(['usr_a', 'usr_b']);
+    });
+
+    it('rejects entries that are not IDs', () => {
+        expect(() => loadConfig({ NODE_ENV: 'development', METRICS_ACCOUNTS: 'usr_a, usr b' })).toThrow('invalid user ID');
+    });
+});
@@ -0,0 +1,212 @@
+// Server configuration read from environment variables.
+// Validated once at startup (see instrumentation.ts) so a bad value fails fast
+// instead of surfacing as a confusing fetch error on the first request.
+//
+// VRCHAT_API_BASE         - VRChat REST API base URL (http/https)
+// VRCHAT_PIPELINE_URL     - VRChat pipeline WebSocket URL (ws/wss)
+// VRCHAT_API_RATE         - outbound VRChat API budget: requests per minute, across all users
+// VRCHAT_API_BURST        - how many of those may go out back to back
+// VRCHAT_CACHE_PATH       - SQLite file backing the world/group/user cache (unset: memory only)
+// HISTORY_DB_PATH         - SQLite file for friend event history
+// SESSION_DB_PATH         - SQLite file for login sessions
+// SESSION_SECRET          - key material for encrypting stored VRChat tokens (32+ characters;
+//                           required in production; unset in development: random per process,
+//                           so sessions don't survive a restart)
+// HISTORY_RETENTION_DAYS  - days of history to keep
+// PIPELINE_KEEP_ALIVE     - keep pipeline connections open with no subscribers (true/false)
+// PIPELINE_GRACE_MS       - when not kept alive, how long an unused connection stays open
+// RATE_LIMIT_STORE        - where rate limit counters live: memory (per process) or redis (shared)
+// RATE_LIMIT_REDIS_URL    - redis:// or rediss:// URL of a Redis-compatible server (required for redis)
+// RATE_LIMIT_KEY          - what a rate limit is counted per: comma list of ip, account
+// RATE_LIMIT_TRUSTED_PROXIES - comma list of proxy IPs/CIDRs whose X-Forwarded-For entries are trusted
+// RATE_LIMIT_CLOUDFLARE   - take the client IP from CF-Connecting-IP (only when reachable solely via Cloudflare)
+// METRICS_ACCOUNTS        - comma list of VRChat user IDs allowed to read /api/metrics/vrchat (unset: nobody)
+//
+// Point both VRChat URLs at a local stand-in server for development and automated tests.
+
+import net from 'node:net';
+
+export type RateLimitStoreKind = 'memory' | 'redis';
+
+export type RateLimitKeyPart = 'ip' | 'account';
+
+export type AppConfig = {
+    vrchatApiBase: string;
+    vrchatPipelineUrl: string;
+    vrchatApiRate: number;
+    vrchatApiBurst: number;
+    vrchatCachePath: string | null;
+    historyDbPath: string;
+    historyRetentionDays: number;
+    sessionDbPath: string;
+    sessionSecret: string | null;
+    pipelineKeepAlive: boolean;
+    pipelineGraceMs: number;
+    rateLimitStore: RateLimitStoreKind;
+    rateLimitRedisUrl: string | null;
+    rateLimitKey: RateLimitKeyPart[];
+    rateLimitTrustedProxies: string[];
+    rateLimitCloudflare: boolean;
+    metricsAccounts: string[];
+};
+
+const DEFAULTS: AppConfig = {
+    vrchatApiBase: 'https://api.vrchat.cloud/api/1',
+    vrchatPipelineUrl: 'wss://pipeline.vrchat.cloud',
+    vrchatApiRate: 120,
+    vrchatApiBurst: 10,
+    vrchatCachePath: null,
+    historyDbPath: 'data/history.db',
+    historyRetentionDays: 30,
+    sessionDbPath: 'data/sessions.db',
+    sessionSecret: null,
+    pipelineKeepAlive: true,
+    pipelineGraceMs: 30 * 1000,
+    rateLimitStore: 'memory',
+    rateLimitRedisUrl: null,
+    rateLimitKey: ['ip', 'account'],
+    // Reverse proxies / tunnels on the same host (nginx, cloudflared)
+    rateLimitTrustedProxies: ['127.0.0.0/8', '::1'],
+    rateLimitCloudflare: false,
+    metricsAccounts: [],
+};
+
+let cachedConfig: AppConfig | null = null;
+
+// Validate a URL-valued variable and normalize it (no trailing slash)
+function parseUrl(name: string, value: string | undefined, fallback: string, protocols: string[]): string {
+    const raw = value?.trim() || fallback;
+
+    let url: URL;
+    try {
+        url = new URL(raw);
+    } catch {
+        throw new Error(`[Config] ${name} is not a valid URL: "${raw}"`);
+    }
+
+    if (!protocols.includes(url.protocol)) {
+        throw new Error(`[Config] ${name} must use ${protocols.join(' or ')} (got "${url.protocol}")`);
+    }
+
+    return raw.replace(/\/+$/, '');
+}
+
+// Validate a positive integer variable
+function parsePositiveInt(name: string, value: string | undefined, fallback: number): number {
+    if (value === undefined || value.trim() === '') return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+        throw new Error(`[Config] ${name} must be a positive integer (got "${value}")`);
+    }
+    return parsed;
+}
+
+// Validate a boolean variable (true/false/1/0)
+function parseBoolean(name: string, value: string | undefined, fallback: boolean): boolean {
+    if (value === undefined || value.trim() === '') return fallback;
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'true' || normalized === '1') return true;
+    if (normalized === 'false' || normalized === '0') return false;
+    throw new Error(`[Config] ${name} must be true or false (got "${value}")`);
+}
+
+// Validate the rate limit store selection; the redis store needs a URL
+function parseRateLimitStore(env: NodeJS.ProcessEnv): Pick<AppConfig, 'rateLimitStore' | 'rateLimitRedisUrl'> {
+    const store = env.RATE_LIMIT_STORE?.trim().toLowerCase() || DEFAULTS.rateLimitStore;
+    if (store !== 'memory' && store !== 'redis') {
+        throw new Error(`[Config] RATE_LIMIT_STORE must be memory or redis (got "${env.RATE_LIMIT_STORE}")`);
+    }
+
+    const redisUrl = env.RATE_LIMIT_REDIS_URL?.trim()
+        ? parseUrl('RATE_LIMIT_REDIS_URL', env.RATE_LIMIT_REDIS_URL, '', ['redis:', 'rediss:'])
+        : DEFAULTS.rateLimitRedisUrl;
+    if (store === 'redis' && !redisUrl) {
+        throw new Error('[Config] RATE_LIMIT_REDIS_URL is required when RATE_LIMIT_STORE=redis');
+    }
+
+    return { rateLimitStore: store, rateLimitRedisUrl: redisUrl };
+}
+
+// Validate the session encryption secret (long enough to be worth deriving a key from)
+function parseSessionSecret(value: string | undefined, nodeEnv: string | undefined): string | null {
+    if (value === undefined || value.trim() === '') {
+        // A per-process key logs everyone out on every restart, and sessions created by one
+        // instance can't be read by another
+        if (nodeEnv === 'production') {
+            throw new Error('[Config] SESSION_SECRET is required in production');
+        }
+        return DEFAULTS.sessionSecret;
+    }
+    if (value.trim().length < 32) {
+        throw new Error('[Config] SESSION_SECRET must be at least 32 characters');
+    }
+    return value.trim();
+}
+
+// Validate a comma-separated list of key parts
+function parseRateLimitKey(value: string | undefined): RateLimitKeyPart[] {
+    if (value === undefined || value.trim() === '') return DEFAULTS.rateLimitKey;
+    const parts = value.split(',').map(part => part.trim().toLowerCase()).filter(Boolean);
+    if (parts.length === 0 || parts.some(part => part !== 'ip' && part !== 'account')) {
+        throw new Error(`[Config] RATE_LIMIT_KEY must be a comma list of ip, account (got "${value}")`);
+    }
+    return Array.from(new Set(parts)) as RateLimitKeyPart[];
+}
+
+// Validate a comma-separated list of IP addresses / CIDR ranges ("none" for an empty list)
+function parseProxyList(name: string, value: string | undefined, fallback: string[]): string[] {
+    if (value === undefined || value.trim() === '') return fallback;
+    if (value.trim().toLowerCase() === 'none') return [];
+    const entries = value.split(',').map(entry => entry.trim()).filter(Boolean);
+    for (const entry of entries) {
+        const [address, prefix, ...rest] = entry.split('/');
+        const family = net.isIP(address);
+        const maxPrefix = family === 4 ? 32 : 128;
+        const validPrefix = prefix === undefined || (/^\d+$/.test(prefix) && Number(prefix) <= maxPrefix);
+        if (!family || !validPrefix || rest.length > 0) {
+            throw new Error(`[Config] ${name} has an invalid IP or CIDR: "${entry}"`);
+        }
+    }
+    return entries;
+}
+
+// Validate a comma-separated list of VRChat user IDs
+function parseAccountList(name: string, value: string | undefined, fallback: string[]): string[] {
+    if (value === undefined || value.trim() === '') return fallback;
+    const entries = value.split(',').map(entry => entry.trim()).filter(Boolean);
+    for (const entry of entries) {
+        if (!/^[A-Za-z0-9_-]+$/.test(entry)) {
+            throw new Error(`[Config] ${name} has an invalid user ID: "${entry}"`);
+        }
+    }
+    return Array.from(new Set(entries));
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+    return {
+        vrchatApiBase: parseUrl('VRCHAT_API_BASE', env.VRCHAT_API_BASE, DEFAULTS.vrchatApiBase, ['http:', 'https:']),
+        vrchatPipelineUrl: parseUrl('VRCHAT_PIPELINE_URL', env.VRCHAT_PIPELINE_URL, DEFAULTS.vrchatPipelineUrl, ['ws:', 'wss:']),
+        vrchatApiRate: parsePositiveInt('VRCHAT_API_RATE', env.VRCHAT_API_RATE, DEFAULTS.vrchatApiRate),
+        vrchatApiBurst: parsePositiveInt('VRCHAT_API_BURST', env.VRCHAT_API_BURST, DEFAULTS.vrchatApiBurst),
+        vrchatCachePath: env.VRCHAT_CACHE_PATH?.trim() || DEFAULTS.vrchatCachePath,
+        historyDbPath: env.HISTORY_DB_PATH?.trim() || DEFAULTS.historyDbPath,
+        historyRetentionDays: parsePositiveInt('HISTORY_RETENTION_DAYS', env.HISTORY_RETENTION_DAYS, DEFAULTS.historyRetentionDays),
+        sessionDbPath: env.SESSION_DB_PATH?.trim() || DEFAULTS.sessionDbPath,
+        sessionSecret: parseSessionSecret(env.SESSION_SECRET, env.NODE_ENV),
+        pipelineKeepAlive: parseBoolean('PIPELINE_KEEP_ALIVE', env.PIPELINE_KEEP_ALIVE, DEFAULTS.pipelineKeepAlive),
+        pipelineGraceMs: parsePositiveInt('PIPELINE_GRACE_MS', env.PIPELINE_GRACE_MS, DEFAULTS.pipelineGraceMs),
+        ...parseRateLimitStore(env),
+        rateLimitKey: parseRateLimitKey(env.RATE_LIMIT_KEY),
+        rateLimitTrustedProxies: parseProxyList('RATE_LIMIT_TRUSTED_PROXIES', env.RATE_LIMIT_TRUSTED_PROXIES, DEFAULTS.rateLimitTrustedProxies),
+        rateLimitCloudflare: parseBoolean('RATE_LIMIT_CLOUDFLARE', env.RATE_LIMIT_CLOUDFLARE, DEFAULTS.rateLimitCloudflare),
+        metricsAccounts: parseAccountList('METRICS_ACCOUNTS', env.METRICS_ACCOUNTS, DEFAULTS.metricsAccounts),
+    };
+}
+
+// Get the validated configuration (loaded on first use)
+export function getConfig(): AppConfig {
+    if (!cachedConfig) {
+        cachedConfig = loadConfig();
+    }
+    return cachedConfig;
+}
@@ -0,0 +1,71 @@
+// Which friends the dashboard is about. Client-safe (used by FriendsProvider and the API).
+//
+//   favorites - favorite friends (default)
+//   groups    - favorite friends in the selected favorite groups
+//   all       - every friend
+//
+// Friends in scope get instance cards and the offline list; friends out of scope are
+// only shown alongside them ("Other Friends") when they are in a visible instance.
+
+export const FRIEND_SCOPE_MODES = ['favorites', 'groups', 'all'] as const;
+
+export type FriendScopeMode = typeof FRIEND_SCOPE_MODES[number];
+
+export type FriendScope =
+    | { mode: 'favorites' }
+    | { mode: 'groups'; groups: string[] }
+    | { mode: 'all' };
+
+// VRChat's friend favorite groups
+export const FRIEND_FAVORITE_GROUPS = ['group_0', 'group_1', 'group_2'] as const;
+
+export const DEFAULT_FRIEND_SCOPE: FriendScope = { mode: 'favorites' };
+
+const isFavoriteGroup = (value: string) => (FRIEND_FAVORITE_GROUPS as readonly string[]).includes(value);
+
+// Parse scope / groups query parameters; null when invalid (missing means favorites)
+export function parseFriendScope(params: URLSearchParams): FriendScope | null {
+    const mode = params.get('scope') || 'favorites';
+    switch (mode) {
+        case 'favorites':
+        case 'all':
+            return { mode };
+        case 'groups': {
+            const groups = (params.get('groups') || '').split(',').map(group => group.trim()).filter(Boolean);
+            if (groups.length === 0 || !groups.every(isFavoriteGroup)) return null;
+            return { mode, groups: Array.from(new Set(groups)).sort() };
+        }
+        default:
+            return null;
+    }
+}
+
+// Query string for a scope (without "?"), e.g. "scope=groups&groups=group_0,group_2"
+export function formatFriendScope(scope: FriendScope): string {
+    const params = new URLSearchParams({ scope: scope.mode });
+    if (scope.mode === 'groups') params.set('groups', scope.groups.join(','));
+    return params.toString();
+}
+
+// Whether a friend belongs to the scope
+export function isInFriendScope(friend: { isFavorite?: boolean; favoriteGroup?: string | null }, scope: FriendScope): boolean {
+    switch (scope.mode) {
+        case 'all':
+            return true;
+        case 'favorites':
+            return !!friend.isFavorite;
+        case 'groups':
+            return !!friend.isFavorite && !!friend.favoriteGroup && scope.groups.includes(friend.favoriteGroup);
+    }
+}
+
+// Validate a scope read back from storage
+export function isFriendScope(value: unknown): value is FriendScope {
+    if (typeof value !== 'object' || value === null) return false;
+    const scope = value as { mode?: unknown; groups?: unknown };
+    if (scope.mode === 'favorites' || scope.mode === 'all') return true;
+    return scope.mode === 'groups'
+        && Array.isArray(scope.groups)
+        && scope.groups.length > 0
+        && scope.groups.every(group => typeof group === 'string' && isFavoriteGroup(group));
+}
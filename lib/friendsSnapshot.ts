@@ -0,0 +1,193 @@
+import { randomBytes } from 'node:crypto';
+import { ActiveFriend, ActiveFriendsResult } from '@/lib/activeFriends';
+
+// Versioned /api/friends/active results, one per account and friend scope.
+//
+// Every computed result is diffed against the previous one. The version only moves
+// when something changed, so it doubles as the ETag, and each friend remembers the
+// version it last changed in so a client at version N can be sent just what changed since.
+//
+// Versions look like "<epoch>-<n>". The epoch is random per server process, so a
+// version from before a restart is never mistaken for a current one.
+
+export type FriendList = 'online' | 'offline';
+
+export type FriendsSnapshot = {
+    version: string;
+    result: ActiveFriendsResult;
+};
+
+export type FriendsDelta = {
+    version: string;
+    // Added or changed; a friend listed in one list is no longer in the other
+    friends: ActiveFriend[];
+    offlineFriends: ActiveFriend[];
+    // In neither list any more
+    removed: string[];
+};
+
+type TrackedFriend = {
+    list: FriendList;
+    friend: ActiveFriend;
+    json: string;
+    changedIn: number;
+};
+
+type AccountSnapshot = {
+    version: number;
+    result: ActiveFriendsResult | null;
+    friends: Map<string, TrackedFriend>;
+    // userId -> version it was removed in
+    removed: Map<string, number>;
+    // Oldest version a delta can still be computed from
+    deltaFloor: number;
+    computedAt: number;
+    lastUsed: number;
+    pending: Promise<ActiveFriendsResult> | null;
+};
+
+// A result this recent is served again instead of recomputed
+const SNAPSHOT_REUSE_MS = 15 * 1000;
+
+// Removals are remembered for this many versions; older clients get a full list
+const MAX_DELTA_VERSIONS = 100;
+
+// Snapshots of accounts nobody has asked about for this long are dropped
+const SNAPSHOT_IDLE_MS = 30 * 60 * 1000;
+
+type SnapshotState = {
+    epoch: string;
+    accounts: Map<string, AccountSnapshot>;
+};
+
+// Keep snapshots across hot reloads in development
+const globalForSnapshots = globalThis as { friendsSnapshots?: SnapshotState };
+
+const state: SnapshotState = globalForSnapshots.friendsSnapshots ??= {
+    epoch: randomBytes(4).toString('hex'),
+    accounts: new Map(),
+};
+
+const formatVersion = (version: number) => `${state.epoch}-${version}`;
+
+// Version number of a version string issued by this process, or null
+function parseVersion(value: string): number | null {
+    const match = value.match(/^([0-9a-f]+)-(\d+)$/);
+    if (!match || match[1] !== state.epoch) return null;
+    return Number(match[2]);
+}
+
+function cleanupIdleSnapshots(now: number): void {
+    for (const [key, snapshot] of state.accounts.entries()) {
+        if (!snapshot.pending && now - snapshot.lastUsed > SNAPSHOT_IDLE_MS) {
+            state.accounts.delete(key);
+        }
+    }
+}
+
+// Diff a new result into the snapshot, bumping the version if anything changed
+function applyResult(snapshot: AccountSnapshot, result: ActiveFriendsResult): void {
+    const next = new Map<string, TrackedFriend>();
+    const version = snapshot.version + 1;
+    let changed = snapshot.result === null;
+
+    const track = (list: FriendList, friend: ActiveFriend) => {
+        const json = JSON.stringify(friend);
+        const previous = snapshot.friends.get(friend.id);
+        const same = previous && previous.list === list && previous.json === json;
+        if (!same) changed = true;
+        next.set(friend.id, { list, friend, json, changedIn: same ? previous.changedIn : version });
+    };
+    result.friends.forEach(friend => track('online', friend));
+    result.offlineFriends.forEach(friend => track('offline', friend));
+
+    for (const userId of snapshot.friends.keys()) {
+        if (!next.has(userId)) {
+            snapshot.removed.set(userId, version);
+            changed = true;
+        }
+    }
+
+    snapshot.result = result;
+    if (!changed) return;
+
+    next.forEach((_, userId) => snapshot.removed.delete(userId));
+    snapshot.friends = next;
+    snapshot.version = version;
+
+    // Forget old removals; clients older than that get the full list
+    if (version - snapshot.deltaFloor > MAX_DELTA_VERSIONS) {
+        snapshot.deltaFloor = version - MAX_DELTA_VERSIONS;
+        for (const [userId, removedIn] of snapshot.removed.entries()) {
+            if (removedIn <= snapshot.deltaFloor) snapshot.removed.delete(userId);
+        }
+    }
+}
+
+/**
+ * Current friend list for key (account and scope), computing it with load() unless a recent one exists.
+ * Concurrent callers for the same key share one load.
+ */
+export async function getFriendsSnapshot(key: string, load: () => Promise<ActiveFriendsResult>): Promise<FriendsSnapshot> {
+    const now = Date.now();
+
+    // Clean up idle snapshots periodically
+    if (Math.random() < 0.01) {
+        cleanupIdleSnapshots(now);
+    }
+
+    let snapshot = state.accounts.get(key);
+    if (!snapshot) {
+        snapshot = {
+            version: 0,
+            result: null,
+            friends: new Map(),
+            removed: new Map(),
+            deltaFloor: 0,
+            computedAt: 0,
+            lastUsed: now,
+            pending: null,
+        };
+        state.accounts.set(key, snapshot);
+    }
+    snapshot.lastUsed = now;
+
+    if (!snapshot.result || now - snapshot.computedAt >= SNAPSHOT_REUSE_MS) {
+        const current = snapshot;
+        current.pending ??= load()
+            .then(result => {
+                applyResult(current, result);
+                current.computedAt = Date.now();
+                return result;
+            })
+            .finally(() => {
+                current.pending = null;
+            });
+        await current.pending;
+    }
+
+    return { version: formatVersion(snapshot.version), result: snapshot.result as ActiveFriendsResult };
+}
+
+/**
+ * Changes since a version previously returned for this key,
+ * or null when that version is unknown or too old (send the full list instead).
+ */
+export function getFriendsDelta(key: string, since: string): FriendsDelta | null {
+    const snapshot = state.accounts.get(key);
+    const sinceVersion = parseVersion(since);
+    if (!snapshot || sinceVersion === null || sinceVersion < snapshot.deltaFloor || sinceVersion > snapshot.version) {
+        return null;
+    }
+
+    const delta: FriendsDelta = { version: formatVersion(snapshot.version), friends: [], offlineFriends: [], removed: [] };
+    snapshot.friends.forEach(tracked => {
+        if (tracked.changedIn <= sinceVersion) return;
+        if (tracked.list === 'online') delta.friends.push(tracked.friend);
+        else delta.offlineFriends.push(tracked.friend);
+    });
+    snapshot.removed.forEach((removedIn, userId) => {
+        if (removedIn > sinceVersion) delta.removed.push(userId);
+    });
+    return delta;
+}
@@ -0,0 +1,133 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { clearHistory, queryHistory, recordPipelineEvent } from '@/lib/history';
+
+const NOW = 1_700_000_000_000;
+const FRIEND = { userId: 'usr_friend', user: { displayName: 'Friend', status: 'active', statusDescription: 'hello' } };
+const context = { isFavorite: false };
+
+// Each test records under its own account, so they share one database file
+let accountSeq = 0;
+const nextAccount = () => `usr_account_${++accountSeq}`;
+
+beforeAll(() => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vrcs-history-'));
+    process.env.HISTORY_DB_PATH = path.join(dir, 'history.db');
+});
+
+describe('recordPipelineEvent', () => {
+    it('records friend-online with the world name', () => {
+        const account = nextAccount();
+        const entries = recordPipelineEvent(account, 'friend-online', { ...FRIEND, location: 'wrld_a:1' }, { isFavorite: true, worldName: 'World A' }, NOW);
+
+        expect(entries).toMatchObject([{ type: 'OnLine', detail: 'World A', status: 'active', location: 'wrld_a:1', worldName: 'World A', user: 'Friend', isFavorite: true }]);
+        expect(queryHistory(account)).toEqual(entries);
+    });
+
+    it('logs a location change with the previous world', () => {
+        const account = nextAccount();
+        recordPipelineEvent(account, 'friend-online', { ...FRIEND, location: 'wrld_a:1' }, { ...context, worldName: 'World A' }, NOW);
+
+        const entries = recordPipelineEvent(account, 'friend-location', { ...FRIEND, location: 'wrld_b:2' }, { ...context, worldName: 'World B' }, NOW + 1000);
+        expect(entries).toMatchObject([{ type: 'GPS', detail: 'World A → World B', location: 'wrld_b:2', worldName: 'World B' }]);
+    });
+
+    it('ignores a location event for the location already known', () => {
+        const account = nextAccount();
+        recordPipelineEvent(account, 'friend-location', { ...FRIEND, location: 'wrld_a:1' }, { ...context, worldName: 'World A' }, NOW);
+
+        expect(recordPipelineEvent(account, 'friend-location', { ...FRIEND, location: 'wrld_a:1' }, context, NOW + 60_000)).toEqual([]);
+    });
+
+    it('names private and unknown worlds', () => {
+        const account = nextAccount();
+        const [toPrivate] = recordPipelineEvent(account, 'friend-location', { ...FRIEND, location: 'private' }, context, NOW);
+        expect(toPrivate).toMatchObject({ detail: 'Unknown → Private World' });
+
+        const [toUnknown] = recordPipelineEvent(account, 'friend-location', { ...FRIEND, location: 'wrld_c:3' }, context, NOW + 1000);
+        expect(toUnknown).toMatchObject({ detail: 'Private World → Unknown' });
+    });
+
+    it('logs status and status message changes only against a known state', () => {
+        const account = nextAccount();
+        // Nothing to compare with yet
+        expect(recordPipelineEvent(account, 'friend-update', FRIEND, context, NOW)).toEqual([]);
+
+        const update = { userId: FRIEND.userId, user: { displayName: 'Friend', status: 'busy', statusDescription: 'away' } };
+        expect(recordPipelineEvent(account, 'friend-update', update, context, NOW + 1000)).toMatchObject([
+            { type: 'Status', detail: 'active → busy', status: 'busy' },
+            { type: 'StatusMsg', detail: 'away', status: 'busy' },
+        ]);
+        expect(recordPipelineEvent(account, 'friend-update', update, context, NOW + 2000)).toEqual([]);
+    });
+
+    it('records friend-offline', () => {
+        const account = nextAccount();
+        recordPipelineEvent(account, 'friend-online', { ...FRIEND, location: 'wrld_a:1' }, context, NOW);
+
+        expect(recordPipelineEvent(account, 'friend-offline', { userId: FRIEND.userId }, context, NOW + 1000)).toMatchObject([
+            { type: 'Offline', detail: 'Went Offline', status: 'offline', location: 'offline', worldName: null, user: 'Friend' },
+        ]);
+    });
+
+    it('records the same event once within the duplicate window', () => {
+        const account = nextAccount();
+        const content = { ...FRIEND, location: 'wrld_a:1' };
+        expect(recordPipelineEvent(account, 'friend-online', content, context, NOW)).toHaveLength(1);
+        expect(recordPipelineEvent(account, 'friend-online', content, context, NOW + 5000)).toEqual([]);
+        expect(recordPipelineEvent(account, 'friend-online', content, context, NOW + 11_000)).toHaveLength(1);
+    });
+
+    it('keeps accounts apart', () => {
+        const account = nextAccount();
+        const other = nextAccount();
+        recordPipelineEvent(account, 'friend-online', { ...FRIEND, location: 'wrld_a:1' }, context, NOW);
+
+        expect(recordPipelineEvent(other, 'friend-online', { ...FRIEND, location: 'wrld_a:1' }, context, NOW)).toHaveLength(1);
+        expect(queryHistory(account)).toHaveLength(1);
+        expect(queryHistory(other)).toHaveLength(1);
+    });
+
+    it.each([
+        ['an unknown event type', 'friend-add', { ...FRIEND }],
+        ['content without a user id', 'friend-online', { location: 'wrld_a:1' }],
+        ['non-object content', 'friend-online', 'usr_friend'],
+        ['a location event without a location', 'friend-location', { ...FRIEND }],
+    ])('ignores %s', (_name, type, content) => {
+        const account = nextAccount();
+        expect(recordPipelineEvent(account, type, content, context, NOW)).toEqual([]);
+        expect(queryHistory(account)).toEqual([]);
+    });
+});
+
+describe('queryHistory', () => {
+    const account = nextAccount();
+
+    beforeAll(() => {
+        recordPipelineEvent(account, 'friend-online', { ...FRIEND, location: 'wrld_a:1' }, { isFavorite: true, worldName: 'World A' }, NOW);
+        recordPipelineEvent(account, 'friend-location', { ...FRIEND, location: 'wrld_b:2' }, { isFavorite: true, worldName: 'World B' }, NOW + 1000);
+        recordPipelineEvent(account, 'friend-online', { userId: 'usr_other', user: { displayName: 'Other' }, location: 'private' }, context, NOW + 2000);
+    });
+
+    it('returns the newest entries first', () => {
+        expect(queryHistory(account).map(entry => entry.timestamp)).toEqual([NOW + 2000, NOW + 1000, NOW]);
+    });
+
+    it('filters by time, friend, type and favorites', () => {
+        expect(queryHistory(account, { from: NOW + 500, to: NOW + 1500 }).map(entry => entry.type)).toEqual(['GPS']);
+        expect(queryHistory(account, { userId: 'usr_other' }).map(entry => entry.user)).toEqual(['Other']);
+        expect(queryHistory(account, { types: ['OnLine'] })).toHaveLength(2);
+        expect(queryHistory(account, { favoritesOnly: true }).every(entry => entry.isFavorite)).toBe(true);
+        expect(queryHistory(account, { limit: 1 })).toHaveLength(1);
+    });
+
+    it('is emptied by clearHistory', () => {
+        const cleared = nextAccount();
+        recordPipelineEvent(cleared, 'friend-online', { ...FRIEND, location: 'wrld_a:1' }, context, NOW);
+
+        expect(clearHistory(cleared)).toBe(1);
+        expect(queryHistory(cleared)).toEqual([]);
+    });
+});
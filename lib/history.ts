@@ -0,0 +1,324 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { getConfig } from '@/lib/config';
+
+// Persistent friend event history (SQLite), keyed by the logged-in VRChat account.
+// Pipeline events are turned into log entries here, diffed against the last known
+// state of each friend so location/status changes are only recorded once.
+
+export const HISTORY_EVENT_TYPES = ['OnLine', 'GPS', 'Offline', 'Status', 'StatusMsg'] as const;
+
+export type HistoryEventType = typeof HISTORY_EVENT_TYPES[number];
+
+export type HistoryEntry = {
+    id: number;
+    timestamp: number;
+    type: HistoryEventType;
+    userId: string;
+    user: string;
+    detail: string;
+    status: string | null;
+    location: string | null;
+    worldName: string | null;
+    isFavorite: boolean;
+};
+
+export type HistoryQuery = {
+    from?: number;
+    to?: number;
+    userId?: string;
+    types?: HistoryEventType[];
+    favoritesOnly?: boolean;
+    limit?: number;
+};
+
+// Extra information the caller knows about a pipeline event
+export type PipelineEventContext = {
+    isFavorite: boolean;
+    worldName?: string;
+};
+
+type EventRow = {
+    id: number;
+    timestamp: number;
+    type: HistoryEventType;
+    user_id: string;
+    user_name: string;
+    detail: string;
+    status: string | null;
+    location: string | null;
+    world_name: string | null;
+    is_favorite: number;
+};
+
+type FriendStateRow = {
+    user_name: string;
+    location: string | null;
+    world_name: string | null;
+    status: string | null;
+    status_msg: string | null;
+};
+
+type NewEntry = Omit<HistoryEntry, 'id' | 'timestamp' | 'userId' | 'user' | 'isFavorite'>;
+
+export const MAX_HISTORY_LIMIT = 5000;
+
+// Identical events for the same friend within this window are recorded once
+// (an account logged in from several browsers has one pipeline watcher per session,
+// and each of them receives the same pipeline event)
+const DUPLICATE_WINDOW_MS = 10 * 1000;
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account_id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        user_name TEXT NOT NULL,
+        detail TEXT NOT NULL,
+        status TEXT,
+        location TEXT,
+        world_name TEXT,
+        is_favorite INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS idx_events_account_time ON events (account_id, timestamp);
+    CREATE INDEX IF NOT EXISTS idx_events_account_user ON events (account_id, user_id, timestamp);
+
+    CREATE TABLE IF NOT EXISTS friend_state (
+        account_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        user_name TEXT NOT NULL,
+        location TEXT,
+        world_name TEXT,
+        status TEXT,
+        status_msg TEXT,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (account_id, user_id)
+    );
+`;
+
+// Keep one connection across hot reloads in development
+const globalForHistory = globalThis as { historyDb?: Database.Database };
+
+function getDb(): Database.Database {
+    if (!globalForHistory.historyDb) {
+        const dbPath = path.resolve(getConfig().historyDbPath);
+        fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+        const db = new Database(dbPath);
+        db.pragma('journal_mode = WAL');
+        db.exec(SCHEMA);
+        globalForHistory.historyDb = db;
+    }
+    return globalForHistory.historyDb;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+const str = (value: unknown): string | undefined =>
+    typeof value === 'string' ? value : undefined;
+
+const toEntry = (row: EventRow): HistoryEntry => ({
+    id: row.id,
+    timestamp: row.timestamp,
+    type: row.type,
+    userId: row.user_id,
+    user: row.user_name,
+    detail: row.detail,
+    status: row.status,
+    location: row.location,
+    worldName: row.world_name,
+    isFavorite: row.is_favorite === 1,
+});
+
+// Display name for a location when the world name is not known
+const fallbackWorldName = (location: string | undefined, previous: string | null | undefined): string => {
+    if (location === 'private') return 'Private World';
+    return previous || 'Unknown';
+};
+
+// Cleanup events older than the retention window
+function cleanupExpiredEvents(db: Database.Database, now: number): void {
+    const cutoff = now - getConfig().historyRetentionDays * 24 * 60 * 60 * 1000;
+    db.prepare('DELETE FROM events WHERE timestamp < ?').run(cutoff);
+}
+
+/**
+ * Record a friend-* pipeline event for an account.
+ * Returns the log entries that were written (zero, one or two).
+ */
+export function recordPipelineEvent(
+    accountId: string,
+    eventType: string,
+    content: unknown,
+    context: PipelineEventContext,
+    now: number = Date.now()
+): HistoryEntry[] {
+    if (!isObject(content)) return [];
+    const userId = str(content.userId);
+    if (!userId) return [];
+
+    const user = isObject(content.user) ? content.user : {};
+    const world = isObject(content.world) ? content.world : {};
+    const location = str(content.location);
+    const worldName = context.worldName || str(world.name);
+    const status = str(user.status);
+    const statusMsg = str(user.statusDescription);
+
+    const db = getDb();
+
+    // Clean up expired history periodically
+    if (Math.random() < 0.01) {
+        cleanupExpiredEvents(db, now);
+    }
+
+    const state = db.prepare(
+        'SELECT user_name, location, world_name, status, status_msg FROM friend_state WHERE account_id = ? AND user_id = ?'
+    ).get(accountId, userId) as FriendStateRow | undefined;
+
+    const userName = str(user.displayName) || state?.user_name || userId;
+    const next: FriendStateRow = {
+        user_name: userName,
+        location: state?.location ?? null,
+        world_name: state?.world_name ?? null,
+        status: state?.status ?? null,
+        status_msg: state?.status_msg ?? null,
+    };
+    const entries: NewEntry[] = [];
+
+    switch (eventType) {
+        case 'friend-online':
+        case 'friend-active': {
+            const name = worldName || (location === 'private' ? 'Private World' : undefined);
+            next.location = location ?? null;
+            next.world_name = name ?? null;
+            next.status = status || 'active';
+            next.status_msg = statusMsg ?? next.status_msg;
+            entries.push({ type: 'OnLine', detail: name || 'Online', status: next.status, location: next.location, worldName: next.world_name });
+            break;
+        }
+
+        case 'friend-offline': {
+            next.location = 'offline';
+            next.world_name = null;
+            next.status = 'offline';
+            entries.push({ type: 'Offline', detail: 'Went Offline', status: 'offline', location: 'offline', worldName: null });
+            break;
+        }
+
+        case 'friend-location': {
+            if (!location) return [];
+            const newWorldName = worldName || fallbackWorldName(location, location === state?.location ? state?.world_name : undefined);
+            // Only log when the location actually changed
+            if (state?.location !== location) {
+                const prevWorldName = state?.world_name || 'Unknown';
+                entries.push({
+                    type: 'GPS',
+                    detail: `${prevWorldName} → ${newWorldName}`,
+                    status: status || state?.status || 'active',
+                    location,
+                    worldName: newWorldName,
+                });
+            }
+            next.location = location;
+            next.world_name = newWorldName;
+            next.status = status || next.status;
+            next.status_msg = statusMsg ?? next.status_msg;
+            break;
+        }
+
+        case 'friend-update': {
+            if (status && state?.status && state.status !== status) {
+                entries.push({ type: 'Status', detail: `${state.status} → ${status}`, status, location: next.location, worldName: next.world_name });
+            }
+            if (statusMsg && state && state.status_msg !== statusMsg) {
+                entries.push({ type: 'StatusMsg', detail: statusMsg, status: status || next.status, location: next.location, worldName: next.world_name });
+            }
+            next.status = status || next.status;
+            next.status_msg = statusMsg ?? next.status_msg;
+            break;
+        }
+
+        default:
+            return [];
+    }
+
+    const insertEvent = db.prepare(`
+        INSERT INTO events (account_id, timestamp, type, user_id, user_name, detail, status, location, world_name, is_favorite)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const upsertState = db.prepare(`
+        INSERT INTO friend_state (account_id, user_id, user_name, location, world_name, status, status_msg, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (account_id, user_id) DO UPDATE SET
+            user_name = excluded.user_name,
+            location = excluded.location,
+            world_name = excluded.world_name,
+            status = excluded.status,
+            status_msg = excluded.status_msg,
+            updated_at = excluded.updated_at
+    `);
+
+    const findDuplicate = db.prepare(
+        'SELECT 1 FROM events WHERE account_id = ? AND user_id = ? AND type = ? AND detail = ? AND timestamp >= ? LIMIT 1'
+    );
+
+    const write = db.transaction((): HistoryEntry[] => {
+        const fresh = entries.filter((entry) =>
+            !findDuplicate.get(accountId, userId, entry.type, entry.detail, now - DUPLICATE_WINDOW_MS)
+        );
+        const written = fresh.map((entry) => {
+            const result = insertEvent.run(
+                accountId, now, entry.type, userId, userName, entry.detail,
+                entry.status, entry.location, entry.worldName, context.isFavorite ? 1 : 0
+            );
+            return { ...entry, id: Number(result.lastInsertRowid), timestamp: now, userId, user: userName, isFavorite: context.isFavorite };
+        });
+        upsertState.run(accountId, userId, next.user_name, next.location, next.world_name, next.status, next.status_msg, now);
+        return written;
+    });
+
+    return write();
+}
+
+// Query history for an account, newest first
+export function queryHistory(accountId: string, query: HistoryQuery = {}): HistoryEntry[] {
+    const conditions = ['account_id = ?'];
+    const params: Array<string | number> = [accountId];
+
+    if (query.from !== undefined) {
+        conditions.push('timestamp >= ?');
+        params.push(query.from);
+    }
+    if (query.to !== undefined) {
+        conditions.push('timestamp <= ?');
+        params.push(query.to);
+    }
+    if (query.userId) {
+        conditions.push('user_id = ?');
+        params.push(query.userId);
+    }
+    if (query.types && query.types.length > 0) {
+        conditions.push(`type IN (${query.types.map(() => '?').join(', ')})`);
+        params.push(...query.types);
+    }
+    if (query.favoritesOnly) {
+        conditions.push('is_favorite = 1');
+    }
+
+    const limit = Math.min(Math.max(query.limit ?? 500, 1), MAX_HISTORY_LIMIT);
+    params.push(limit);
+
+    const rows = getDb().prepare(
+        `SELECT * FROM events WHERE ${conditions.join(' AND ')} ORDER BY timestamp DESC, id DESC LIMIT ?`
+    ).all(...params) as EventRow[];
+
+    return rows.map(toEntry);
+}
+
+// Delete all recorded history for an account (friend state is kept for diffing)
+export function clearHistory(accountId: string): number {
+    return getDb().prepare('DELETE FROM events WHERE account_id = ?').run(accountId).changes;
+}
@@ -0,0 +1,79 @@
+// Invite rules and invite-message templates.
+// Shared by the API routes and the client (buttons are disabled with the same reason the
+// server would reject with), so it must stay free of server-only imports.
+
+import { parseLocation } from '@/lib/location';
+
+// VRChat message template kinds (GET /message/{userId}/{type})
+export const INVITE_MESSAGE_TYPES = ['message', 'response', 'request', 'requestResponse'] as const;
+
+export type InviteMessageType = typeof INVITE_MESSAGE_TYPES[number];
+
+// VRChat keeps 12 slots per template kind
+export const INVITE_MESSAGE_SLOTS = 12;
+
+export const MAX_INVITE_MESSAGE_LENGTH = 64;
+
+export type InviteMessage = {
+    slot: number;
+    message: string;
+    // Minutes until this slot can be edited again
+    remainingCooldownMinutes: number;
+    canBeUpdated: boolean;
+};
+
+export type InviteDenialCode = 'not-in-instance' | 'invite-only' | 'invite-plus' | 'group-restricted';
+
+export type InviteDenial = {
+    code: InviteDenialCode;
+    message: string;
+};
+
+export type InviteContext = {
+    // Logged-in user's ID (instance owners may always join their own instance)
+    selfId?: string | null;
+    // Membership in the instance's group; undefined when unknown (the server checks)
+    isGroupMember?: boolean;
+};
+
+export function isInviteMessageType(value: unknown): value is InviteMessageType {
+    return typeof value === 'string' && (INVITE_MESSAGE_TYPES as readonly string[]).includes(value);
+}
+
+// Why we can't self-invite into a location, or null when it is allowed
+export function getSelfInviteDenial(location: string, context: InviteContext = {}): InviteDenial | null {
+    const parsed = parseLocation(location);
+    if (!parsed) {
+        return { code: 'not-in-instance', message: 'This user is not in a joinable instance' };
+    }
+    if (context.selfId && parsed.ownerId === context.selfId) return null;
+
+    if (parsed.type === 'Invite') {
+        return { code: 'invite-only', message: 'This instance is Invite-only; ask someone inside for an invite' };
+    }
+    if (parsed.type === 'Invite+') {
+        return { code: 'invite-plus', message: 'This instance is Invite+; request an invite instead' };
+    }
+    if (parsed.type === 'Group' && context.isGroupMember === false) {
+        return { code: 'group-restricted', message: 'This instance is restricted to group members' };
+    }
+    return null;
+}
+
+// Why asking targetUserId for an invite can't work, or null when it is allowed.
+// 'private' is allowed: we can't see the instance, so the friend decides.
+export function getRequestInviteDenial(location: string, targetUserId: string, context: InviteContext = {}): InviteDenial | null {
+    if (location === 'private') return null;
+
+    const parsed = parseLocation(location);
+    if (!parsed) {
+        return { code: 'not-in-instance', message: 'This user is not in an instance' };
+    }
+    if (parsed.type === 'Invite' && parsed.ownerId !== targetUserId) {
+        return { code: 'invite-only', message: 'Only the instance owner can invite others to this Invite-only instance' };
+    }
+    if (parsed.type === 'Group' && context.isGroupMember === false) {
+        return { code: 'group-restricted', message: 'This instance is restricted to group members' };
+    }
+    return null;
+}
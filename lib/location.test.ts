@@ -0,0 +1,277 @@
+import { describe, expect, it } from 'vitest';
+import {
+    getInstanceType,
+    getOwnLocation,
+    getRegionLabel,
+    getWorldId,
+    isSpecialLocation,
+    parseLocation,
+    serializeLocation,
+} from '@/lib/location';
+
+const WORLD = 'wrld_4cf554b4-430c-4f8f-b53e-1f294eed230b';
+const USER = 'usr_c1644b5b-3ca4-45b4-97c6-a2a0de70d469';
+const GROUP = 'grp_71a7ff59-112c-4e78-a990-c7cc650776e5';
+
+describe('special locations', () => {
+    it.each(['offline', 'private', 'traveling'])('%s has no parsed form or world', (location) => {
+        expect(isSpecialLocation(location)).toBe(true);
+        expect(parseLocation(location)).toBeNull();
+        expect(getWorldId(location)).toBeNull();
+    });
+
+    it.each(['', 'Offline', 'wrld_x:1', 'travelling'])('%j is not special', (location) => {
+        expect(isSpecialLocation(location)).toBe(false);
+    });
+});
+
+describe('parseLocation', () => {
+    it('returns null for empty input', () => {
+        expect(parseLocation('')).toBeNull();
+        expect(getWorldId('')).toBeNull();
+    });
+
+    it('parses a plain public instance', () => {
+        expect(parseLocation(`${WORLD}:12345`)).toEqual({
+            worldId: WORLD,
+            name: '12345',
+            instanceId: '12345',
+            type: 'Public',
+            access: null,
+            ownerId: null,
+            canRequestInvite: false,
+            groupId: null,
+            groupAccessType: null,
+            region: null,
+            nonce: null,
+            strict: false,
+            ageGate: false,
+            extra: [],
+        });
+        expect(getWorldId(`${WORLD}:12345`)).toBe(WORLD);
+    });
+
+    it('accepts a world ID without an instance', () => {
+        const parsed = parseLocation(WORLD);
+        expect(parsed).toMatchObject({ worldId: WORLD, name: '', instanceId: '', extra: [] });
+        expect(getWorldId(WORLD)).toBe(WORLD);
+    });
+
+    it('keeps the full instance part as instanceId', () => {
+        expect(parseLocation(`${WORLD}:12345~region(jp)~nonce(abc)`)?.instanceId).toBe('12345~region(jp)~nonce(abc)');
+    });
+
+    // One modifier at a time: what it sets, and the instance type that follows
+    it.each([
+        ['~hidden(usr)', { access: 'hidden', ownerId: USER, type: 'Friends+' }],
+        ['~friends(usr)', { access: 'friends', ownerId: USER, type: 'Friends' }],
+        ['~private(usr)', { access: 'private', ownerId: USER, type: 'Invite' }],
+        ['~private(usr)~canRequestInvite', { access: 'private', ownerId: USER, canRequestInvite: true, type: 'Invite+' }],
+        ['~canRequestInvite', { canRequestInvite: true, type: 'Public' }],
+        ['~group(grp)', { groupId: GROUP, groupAccessType: null, type: 'Group' }],
+        ['~group(grp)~groupAccessType(public)', { groupId: GROUP, groupAccessType: 'public', type: 'Group Public' }],
+        ['~group(grp)~groupAccessType(plus)', { groupId: GROUP, groupAccessType: 'plus', type: 'Group+' }],
+        ['~group(grp)~groupAccessType(members)', { groupId: GROUP, groupAccessType: 'members', type: 'Group' }],
+        ['~groupAccessType(plus)', { groupId: null, groupAccessType: 'plus', type: 'Public' }],
+        ['~region(jp)', { region: 'jp' }],
+        ['~region(EU)', { region: 'eu' }],
+        ['~nonce(a1b2-c3d4)', { nonce: 'a1b2-c3d4' }],
+        ['~nonce()', { nonce: '' }],
+        ['~strict', { strict: true }],
+        ['~ageGate', { ageGate: true }],
+    ])('parses %s', (modifiers, expected) => {
+        const location = `${WORLD}:12345${modifiers.replace('(usr)', `(${USER})`).replace('(grp)', `(${GROUP})`)}`;
+        const parsed = parseLocation(location);
+        expect(parsed).toMatchObject({ worldId: WORLD, name: '12345', extra: [], ...expected });
+    });
+
+    it('parses every modifier together', () => {
+        const parsed = parseLocation(`${WORLD}:00001~hidden(${USER})~canRequestInvite~group(${GROUP})~groupAccessType(plus)~ageGate~region(use)~nonce(n)~strict`);
+        expect(parsed).toMatchObject({
+            access: 'hidden',
+            ownerId: USER,
+            canRequestInvite: true,
+            groupId: GROUP,
+            groupAccessType: 'plus',
+            ageGate: true,
+            region: 'use',
+            nonce: 'n',
+            strict: true,
+            // Group instances win over the access modifier
+            type: 'Group+',
+            extra: [],
+        });
+    });
+
+    it('does not depend on modifier order', () => {
+        const a = parseLocation(`${WORLD}:1~region(eu)~strict~friends(${USER})`);
+        const b = parseLocation(`${WORLD}:1~friends(${USER})~region(eu)~strict`);
+        expect({ ...a, instanceId: '' }).toEqual({ ...b, instanceId: '' });
+    });
+
+    // Malformed or unknown modifiers are kept verbatim rather than dropped or half-applied
+    it.each([
+        ['unknown modifier', '~shiny(yes)', ['shiny(yes)']],
+        ['access modifier without owner', '~hidden', ['hidden']],
+        ['flag with a value', '~strict(1)', ['strict(1)']],
+        ['canRequestInvite with a value', '~canRequestInvite(x)', ['canRequestInvite(x)']],
+        ['unknown group access type', '~groupAccessType(everyone)', ['groupAccessType(everyone)']],
+        ['empty region', '~region()', ['region()']],
+        ['region without parentheses', '~region', ['region']],
+        ['group without parentheses', '~group', ['group']],
+        ['nameless modifier', '~(x)', ['(x)']],
+        ['unclosed parenthesis', '~region(jp', ['region(jp']],
+        ['empty modifier', '~~strict', ['']],
+    ])('keeps %s as extra', (_case, modifiers, extra) => {
+        const parsed = parseLocation(`${WORLD}:12345${modifiers}`);
+        expect(parsed?.extra).toEqual(extra);
+        expect(parsed?.type).toBe('Public');
+    });
+
+    it('treats an empty owner or group as missing', () => {
+        expect(parseLocation(`${WORLD}:1~private()`)).toMatchObject({ access: 'private', ownerId: null, type: 'Invite' });
+        expect(parseLocation(`${WORLD}:1~group()`)).toMatchObject({ groupId: null, type: 'Public' });
+    });
+});
+
+describe('getInstanceType', () => {
+    const base = { access: null, canRequestInvite: false, groupId: null, groupAccessType: null } as const;
+
+    it.each([
+        [{}, 'Public'],
+        [{ access: 'hidden' }, 'Friends+'],
+        [{ access: 'friends' }, 'Friends'],
+        [{ access: 'private' }, 'Invite'],
+        [{ access: 'private', canRequestInvite: true }, 'Invite+'],
+        [{ access: 'friends', canRequestInvite: true }, 'Friends'],
+        [{ groupId: GROUP }, 'Group'],
+        [{ groupId: GROUP, groupAccessType: 'public' }, 'Group Public'],
+        [{ groupId: GROUP, groupAccessType: 'plus' }, 'Group+'],
+        [{ groupId: GROUP, groupAccessType: 'members' }, 'Group'],
+        [{ groupId: GROUP, access: 'private' }, 'Group'],
+    ] as const)('%o is %s', (parts, type) => {
+        expect(getInstanceType({ ...base, ...parts })).toBe(type);
+    });
+});
+
+describe('getRegionLabel', () => {
+    it.each([
+        ['us', 'US West'],
+        ['usw', 'US West'],
+        ['use', 'US East'],
+        ['usx', 'US Central'],
+        ['eu', 'EU'],
+        ['jp', 'JP'],
+        ['JP', 'JP'],
+        ['kr', 'KR'],
+    ])('labels %s as %s', (region, label) => {
+        expect(getRegionLabel(region)).toBe(label);
+    });
+
+    it.each([null, undefined, ''])('labels a missing region (%j) as US West', (region) => {
+        expect(getRegionLabel(region)).toBe('US West');
+    });
+
+    it('labels a location without ~region as US West', () => {
+        expect(getRegionLabel(parseLocation(`${WORLD}:12345`)?.region)).toBe('US West');
+    });
+});
+
+describe('serializeLocation', () => {
+    const empty = {
+        worldId: WORLD,
+        name: '12345',
+        access: null,
+        ownerId: null,
+        canRequestInvite: false,
+        groupId: null,
+        groupAccessType: null,
+        region: null,
+        nonce: null,
+        strict: false,
+        ageGate: false,
+    };
+
+    it('writes a plain instance', () => {
+        expect(serializeLocation(empty)).toBe(`${WORLD}:12345`);
+    });
+
+    it('writes just the world ID without an instance', () => {
+        expect(serializeLocation({ ...empty, name: '' })).toBe(WORLD);
+    });
+
+    it('writes modifiers in canonical order', () => {
+        expect(serializeLocation({
+            ...empty,
+            strict: true,
+            nonce: 'n',
+            region: 'jp',
+            ageGate: true,
+            groupAccessType: 'members',
+            groupId: GROUP,
+            canRequestInvite: true,
+            access: 'private',
+            ownerId: USER,
+            extra: ['shiny(yes)'],
+        })).toBe(`${WORLD}:12345~private(${USER})~canRequestInvite~group(${GROUP})~groupAccessType(members)~ageGate~region(jp)~nonce(n)~strict~shiny(yes)`);
+    });
+
+    it('writes an access modifier without an owner', () => {
+        expect(serializeLocation({ ...empty, access: 'hidden' })).toBe(`${WORLD}:12345~hidden()`);
+    });
+
+    it('writes an empty nonce but not a missing one', () => {
+        expect(serializeLocation({ ...empty, nonce: '' })).toBe(`${WORLD}:12345~nonce()`);
+        expect(serializeLocation({ ...empty, nonce: null })).toBe(`${WORLD}:12345`);
+    });
+});
+
+describe('parse → serialize round trip', () => {
+    it.each([
+        `${WORLD}:12345`,
+        `${WORLD}:12345~region(jp)`,
+        `${WORLD}:12345~hidden(${USER})~region(eu)~nonce(a1b2)`,
+        `${WORLD}:12345~friends(${USER})~region(use)~nonce(a1b2)`,
+        `${WORLD}:12345~private(${USER})~region(usw)~nonce(a1b2)`,
+        `${WORLD}:12345~private(${USER})~canRequestInvite~region(jp)~nonce(a1b2)`,
+        `${WORLD}:12345~group(${GROUP})~groupAccessType(public)~region(jp)`,
+        `${WORLD}:12345~group(${GROUP})~groupAccessType(plus)~ageGate~region(usx)~nonce(a1b2)~strict`,
+        `${WORLD}:12345~group(${GROUP})~groupAccessType(members)~region(eu)`,
+        `${WORLD}:12345~hidden(${USER})~region(jp)~nonce(a1b2)~strict`,
+        `${WORLD}:12345~region(jp)~shiny(yes)`,
+        `${WORLD}:12345~nonce()`,
+        WORLD,
+    ])('%s', (location) => {
+        const parsed = parseLocation(location);
+        expect(parsed).not.toBeNull();
+        expect(serializeLocation(parsed!)).toBe(location);
+    });
+
+    it('normalizes modifier order without losing anything', () => {
+        const location = `${WORLD}:12345~strict~region(jp)~hidden(${USER})~nonce(n)`;
+        const serialized = serializeLocation(parseLocation(location)!);
+        expect(serialized).toBe(`${WORLD}:12345~hidden(${USER})~region(jp)~nonce(n)~strict`);
+        expect(parseLocation(serialized)).toEqual({ ...parseLocation(location), instanceId: serialized.split(':')[1] });
+    });
+
+    it('lower-cases the region', () => {
+        expect(serializeLocation(parseLocation(`${WORLD}:12345~region(JP)`)!)).toBe(`${WORLD}:12345~region(jp)`);
+    });
+});
+
+describe('getOwnLocation', () => {
+    it('prefers presence', () => {
+        expect(getOwnLocation({ location: '', presence: { world: WORLD, instance: '12345~region(jp)' } })).toBe(`${WORLD}:12345~region(jp)`);
+        expect(getOwnLocation({ location: 'offline', presence: { world: WORLD, instance: '1' } })).toBe(`${WORLD}:1`);
+    });
+
+    it('falls back to location without a complete presence', () => {
+        expect(getOwnLocation({ location: `${WORLD}:1`, presence: { world: WORLD } })).toBe(`${WORLD}:1`);
+        expect(getOwnLocation({ location: 'private', presence: {} })).toBe('private');
+        expect(getOwnLocation({ location: 'traveling' })).toBe('traveling');
+    });
+
+    it('is empty when VRChat reports nothing', () => {
+        expect(getOwnLocation({})).toBe('');
+    });
+});
@@ -0,0 +1,196 @@
+// VRChat location string parser / serializer.
+// Shared by the API routes and the client, so it must stay free of server-only imports.
+//
+// Location grammar:
+//   offline | private | traveling
+//   wrld_xxx:<name>[~modifier...]
+//
+// Modifiers:
+//   ~hidden(usr_xxx)          Friends+
+//   ~friends(usr_xxx)         Friends
+//   ~private(usr_xxx)         Invite (Invite+ with ~canRequestInvite)
+//   ~canRequestInvite
+//   ~group(grp_xxx)           Group instance
+//   ~groupAccessType(public|plus|members)
+//   ~region(us|use|usw|eu|jp|...)
+//   ~nonce(xxx)
+//   ~strict
+//   ~ageGate
+
+export type InstanceType =
+    | 'Public'
+    | 'Friends+'
+    | 'Friends'
+    | 'Invite+'
+    | 'Invite'
+    | 'Group Public'
+    | 'Group+'
+    | 'Group';
+
+export type InstanceAccess = 'hidden' | 'friends' | 'private';
+
+export type GroupAccessType = 'public' | 'plus' | 'members';
+
+export type SpecialLocation = 'offline' | 'private' | 'traveling';
+
+export type ParsedLocation = {
+    worldId: string;
+    // Instance name (the part before the first modifier), e.g. "12345"
+    name: string;
+    // Everything after the colon, e.g. "12345~region(jp)"
+    instanceId: string;
+    type: InstanceType;
+    access: InstanceAccess | null;
+    ownerId: string | null;
+    canRequestInvite: boolean;
+    groupId: string | null;
+    groupAccessType: GroupAccessType | null;
+    region: string | null;
+    nonce: string | null;
+    strict: boolean;
+    ageGate: boolean;
+    // Unrecognized modifiers, kept verbatim so serialization round-trips
+    extra: string[];
+};
+
+export type LocationParts = Omit<ParsedLocation, 'type' | 'instanceId' | 'extra'> & {
+    extra?: string[];
+};
+
+const SPECIAL_LOCATIONS: readonly string[] = ['offline', 'private', 'traveling'];
+
+const ACCESS_MODIFIERS: readonly string[] = ['hidden', 'friends', 'private'];
+
+const GROUP_ACCESS_TYPES: readonly string[] = ['public', 'plus', 'members'];
+
+const REGION_LABELS: Record<string, string> = {
+    // "us" is VRChat's original code for its US West servers; "usw" is the newer name
+    us: 'US West',
+    usw: 'US West',
+    use: 'US East',
+    usx: 'US Central',
+    eu: 'EU',
+    jp: 'JP',
+};
+
+// VRChat puts instances without a ~region modifier in US West ("us")
+export const DEFAULT_REGION = 'us';
+
+const MODIFIER_PATTERN = /^([A-Za-z]+)(?:\((.*)\))?$/;
+
+export function isSpecialLocation(location: string): location is SpecialLocation {
+    return SPECIAL_LOCATIONS.includes(location);
+}
+
+// Location of the logged-in user from VRChat's current user (GET /auth/user). presence has
+// the in-game location; location is often empty for the current user. Can be a special
+// location or empty, so parse it before joining.
+export function getOwnLocation(user: { location?: string; presence?: { world?: string; instance?: string } }): string {
+    return user.presence?.world && user.presence.instance
+        ? `${user.presence.world}:${user.presence.instance}`
+        : user.location || '';
+}
+
+// Get the world ID part of a location, or null for special/empty locations
+export function getWorldId(location: string): string | null {
+    if (!location || isSpecialLocation(location)) return null;
+    return location.split(':')[0] || null;
+}
+
+export function getInstanceType(parts: Pick<ParsedLocation, 'access' | 'canRequestInvite' | 'groupId' | 'groupAccessType'>): InstanceType {
+    // Group instances first (they may also carry other modifiers)
+    if (parts.groupId) {
+        if (parts.groupAccessType === 'public') return 'Group Public';
+        if (parts.groupAccessType === 'plus') return 'Group+';
+        return 'Group';
+    }
+    switch (parts.access) {
+        case 'private': return parts.canRequestInvite ? 'Invite+' : 'Invite';
+        case 'friends': return 'Friends';
+        case 'hidden': return 'Friends+';
+        default: return 'Public';
+    }
+}
+
+// Display label for a region code ("jp" -> "JP"); unknown codes are upper-cased
+export function getRegionLabel(region: string | null | undefined): string {
+    const code = (region || DEFAULT_REGION).toLowerCase();
+    return REGION_LABELS[code] || code.toUpperCase();
+}
+
+// Parse a location string. Returns null for offline/private/traveling and empty input.
+export function parseLocation(location: string): ParsedLocation | null {
+    if (!location || isSpecialLocation(location)) return null;
+
+    const colon = location.indexOf(':');
+    const worldId = colon >= 0 ? location.slice(0, colon) : location;
+    const instanceId = colon >= 0 ? location.slice(colon + 1) : '';
+    const [name = '', ...modifiers] = instanceId.split('~');
+
+    const parsed: ParsedLocation = {
+        worldId,
+        name,
+        instanceId,
+        type: 'Public',
+        access: null,
+        ownerId: null,
+        canRequestInvite: false,
+        groupId: null,
+        groupAccessType: null,
+        region: null,
+        nonce: null,
+        strict: false,
+        ageGate: false,
+        extra: [],
+    };
+
+    for (const modifier of modifiers) {
+        const match = modifier.match(MODIFIER_PATTERN);
+        if (!match) {
+            parsed.extra.push(modifier);
+            continue;
+        }
+        const [, key, value] = match;
+
+        if (ACCESS_MODIFIERS.includes(key) && value !== undefined) {
+            parsed.access = key as InstanceAccess;
+            parsed.ownerId = value || null;
+        } else if (key === 'canRequestInvite' && value === undefined) {
+            parsed.canRequestInvite = true;
+        } else if (key === 'group' && value !== undefined) {
+            parsed.groupId = value || null;
+        } else if (key === 'groupAccessType' && value !== undefined && GROUP_ACCESS_TYPES.includes(value)) {
+            parsed.groupAccessType = value as GroupAccessType;
+        } else if (key === 'region' && value) {
+            parsed.region = value.toLowerCase();
+        } else if (key === 'nonce' && value !== undefined) {
+            parsed.nonce = value;
+        } else if (key === 'strict' && value === undefined) {
+            parsed.strict = true;
+        } else if (key === 'ageGate' && value === undefined) {
+            parsed.ageGate = true;
+        } else {
+            parsed.extra.push(modifier);
+        }
+    }
+
+    parsed.type = getInstanceType(parsed);
+    return parsed;
+}
+
+// Rebuild a location string from its parts, in VRChat's canonical modifier order
+export function serializeLocation(parts: LocationParts): string {
+    let instance = parts.name;
+
+    if (parts.access) instance += `~${parts.access}(${parts.ownerId || ''})`;
+    if (parts.canRequestInvite) instance += '~canRequestInvite';
+    if (parts.groupId) instance += `~group(${parts.groupId})`;
+    if (parts.groupAccessType) instance += `~groupAccessType(${parts.groupAccessType})`;
+    if (parts.ageGate) instance += '~ageGate';
+    if (parts.region) instance += `~region(${parts.region})`;
+    if (parts.nonce !== null && parts.nonce !== undefined) instance += `~nonce(${parts.nonce})`;
+    if (parts.strict) instance += '~strict';
+    (parts.extra || []).forEach(modifier => { instance += `~${modifier}`; });
+
+    return instance ? `${parts.worldId}:${instance}` : parts.worldId;
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { parseDetails } from '@/lib/notifications';
+
+describe('parseDetails', () => {
+    const details = { worldId: 'wrld_x:12345~region(jp)', worldName: 'World' };
+
+    it('accepts an object', () => {
+        expect(parseDetails(details)).toEqual(details);
+    });
+
+    it('parses a JSON string', () => {
+        expect(parseDetails(JSON.stringify(details))).toEqual(details);
+    });
+
+    it.each([undefined, null, '', '{not json', '"string"', 42])('treats %j as empty', (value) => {
+        expect(parseDetails(value)).toEqual({});
+    });
+});
@@ -0,0 +1,92 @@
+// Notification inbox model.
+// Shared by the API routes and the client (pipeline events are normalized the same way),
+// so it must stay free of server-only imports.
+
+import { PipelineNotification, PipelineNotificationV2 } from '@/lib/pipelineEvents';
+
+export type NotificationSource = 'v1' | 'v2';
+
+export type NotificationAction = 'read' | 'accept' | 'decline';
+
+export type AppNotification = {
+    id: string;
+    source: NotificationSource;
+    // invite, requestInvite, friendRequest, group.announcement, ...
+    type: string;
+    senderUserId: string | null;
+    senderUsername: string | null;
+    title: string | null;
+    message: string;
+    // Invite target (wrld_xxx:instance), if any
+    location: string | null;
+    worldName: string | null;
+    createdAt: string | null;
+    seen: boolean;
+    // Whether accept/decline apply to this notification
+    canAccept: boolean;
+    canDecline: boolean;
+};
+
+// v1 types that can be accepted (friend request, join via self-invite, send an invite back)
+const ACCEPTABLE_TYPES: readonly string[] = ['friendRequest', 'invite', 'requestInvite'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+const str = (value: unknown): string | null =>
+    typeof value === 'string' && value ? value : null;
+
+// Notification details as an object; VRChat sometimes sends them as a JSON string
+export const parseDetails = (details: unknown): Record<string, unknown> => {
+    if (typeof details === 'string') {
+        try {
+            const parsed: unknown = JSON.parse(details);
+            return isObject(parsed) ? parsed : {};
+        } catch {
+            return {};
+        }
+    }
+    return isObject(details) ? details : {};
+};
+
+export function normalizeNotification(notification: PipelineNotification): AppNotification {
+    const details = parseDetails(notification.details);
+    return {
+        id: notification.id,
+        source: 'v1',
+        type: notification.type,
+        senderUserId: str(notification.senderUserId),
+        senderUsername: str(notification.senderUsername),
+        title: null,
+        message: notification.message || '',
+        location: str(details.worldId),
+        worldName: str(details.worldName),
+        createdAt: str(notification.created_at),
+        seen: Boolean(notification.seen),
+        canAccept: ACCEPTABLE_TYPES.includes(notification.type),
+        canDecline: true,
+    };
+}
+
+export function normalizeNotificationV2(notification: PipelineNotificationV2): AppNotification {
+    return {
+        id: notification.id,
+        source: 'v2',
+        type: notification.type,
+        senderUserId: str(notification.senderUserId),
+        senderUsername: str(notification.senderUsername),
+        title: str(notification.title),
+        message: notification.message || '',
+        location: null,
+        worldName: null,
+        createdAt: str(notification.createdAt),
+        seen: Boolean(notification.seen),
+        canAccept: false,
+        canDecline: notification.canDelete !== false,
+    };
+}
+
+// Newest first
+export function sortNotifications(notifications: AppNotification[]): AppNotification[] {
+    return [...notifications].sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+}
@@ -0,0 +1,176 @@
+// VRChat pipeline (WebSocket) event types.
+// Shared by the server watcher and the client, so it must stay free of server-only imports.
+//
+// Every pipeline message is { type, content } where content is usually a JSON string.
+// A few notification events (see-notification, hide-notification) carry a bare
+// notification ID string instead, and clear-notification has no content at all.
+
+// Partial user object sent with friend-* and user-update events
+export type PipelineUser = {
+    id?: string;
+    displayName?: string;
+    status?: string;
+    statusDescription?: string;
+    bio?: string;
+    userIcon?: string;
+    profilePicOverride?: string;
+    currentAvatarThumbnailImageUrl?: string;
+    currentAvatarImageUrl?: string;
+    [key: string]: unknown;
+};
+
+export type PipelineWorld = {
+    id?: string;
+    name?: string;
+    thumbnailImageUrl?: string;
+    imageUrl?: string;
+    [key: string]: unknown;
+};
+
+// Legacy notification (invites, friend requests, request invites, ...)
+export type PipelineNotification = {
+    id: string;
+    type: string;
+    senderUserId?: string;
+    senderUsername?: string;
+    receiverUserId?: string;
+    message?: string;
+    details?: unknown;
+    seen?: boolean;
+    created_at?: string;
+};
+
+// Notification v2 (group announcements, system notices, ...)
+export type PipelineNotificationV2 = {
+    id: string;
+    version?: number;
+    type: string;
+    category?: string;
+    isSystem?: boolean;
+    senderUserId?: string;
+    senderUsername?: string;
+    receiverUserId?: string;
+    title?: string;
+    message?: string;
+    imageUrl?: string;
+    link?: string;
+    linkText?: string;
+    responses?: Array<{ type: string; data?: string; icon?: string; text?: string }>;
+    expiresAt?: string;
+    seen?: boolean;
+    canDelete?: boolean;
+    createdAt?: string;
+    updatedAt?: string;
+};
+
+// Content payload for each pipeline event type
+export type PipelineEventContentMap = {
+    // Friends
+    'friend-add': { userId: string; user?: PipelineUser };
+    'friend-delete': { userId: string };
+    'friend-online': { userId: string; location?: string; platform?: string; canRequestInvite?: boolean; user?: PipelineUser; world?: PipelineWorld };
+    'friend-active': { userId: string; platform?: string; user?: PipelineUser };
+    'friend-offline': { userId: string; platform?: string };
+    'friend-update': { userId: string; user?: PipelineUser };
+    'friend-location': { userId: string; location?: string; travelingToLocation?: string; worldId?: string; canRequestInvite?: boolean; user?: PipelineUser; world?: PipelineWorld };
+
+    // Notifications
+    'notification': PipelineNotification;
+    'notification-v2': PipelineNotificationV2;
+    'notification-v2-update': { id: string; version?: number; updates: Partial<PipelineNotificationV2> };
+    'notification-v2-delete': { ids: string[]; version?: number };
+    'response-notification': { notificationId: string; receiverId?: string; responseId?: string };
+    'see-notification': string;
+    'hide-notification': string;
+    'clear-notification': null;
+
+    // Logged-in user
+    'user-update': { userId: string; user?: PipelineUser };
+    'user-location': { userId: string; location?: string; instance?: string; travelingToLocation?: string; world?: PipelineWorld };
+    'user-badge-assigned': { badge: Record<string, unknown> };
+    'user-badge-unassigned': { badgeId: string };
+    'content-refresh': { contentType?: string; fileId?: string; itemId?: string; itemType?: string; actionType?: string };
+    'instance-queue-joined': { instanceLocation: string; position?: number };
+    'instance-queue-ready': { instanceLocation: string; expiry?: string };
+
+    // Groups
+    'group-joined': { groupId: string };
+    'group-left': { groupId: string };
+    'group-member-updated': { member: Record<string, unknown> };
+    'group-role-updated': { role: Record<string, unknown> };
+};
+
+export type PipelineEventType = keyof PipelineEventContentMap;
+
+// Discriminated union of every pipeline event, e.g. { type: 'friend-online', content: {...} }
+export type VRChatPipelineEvent = {
+    [K in PipelineEventType]: { type: K; content: PipelineEventContentMap[K] };
+}[PipelineEventType];
+
+// Content of a single event type
+export type PipelineEventContent<K extends PipelineEventType> = PipelineEventContentMap[K];
+
+export const PIPELINE_EVENT_TYPES: readonly PipelineEventType[] = [
+    'friend-add',
+    'friend-delete',
+    'friend-online',
+    'friend-active',
+    'friend-offline',
+    'friend-update',
+    'friend-location',
+    'notification',
+    'notification-v2',
+    'notification-v2-update',
+    'notification-v2-delete',
+    'response-notification',
+    'see-notification',
+    'hide-notification',
+    'clear-notification',
+    'user-update',
+    'user-location',
+    'user-badge-assigned',
+    'user-badge-unassigned',
+    'content-refresh',
+    'instance-queue-joined',
+    'instance-queue-ready',
+    'group-joined',
+    'group-left',
+    'group-member-updated',
+    'group-role-updated',
+];
+
+// Events whose content is a bare string rather than JSON
+const STRING_CONTENT_EVENTS: readonly string[] = ['see-notification', 'hide-notification'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+export function isPipelineEventType(type: string): type is PipelineEventType {
+    return (PIPELINE_EVENT_TYPES as readonly string[]).includes(type);
+}
+
+// Parse a raw pipeline message. Returns null for unknown types or malformed content.
+export function parsePipelineMessage(raw: string): VRChatPipelineEvent | null {
+    const message: unknown = JSON.parse(raw);
+    if (!isObject(message) || typeof message.type !== 'string' || !isPipelineEventType(message.type)) {
+        return null;
+    }
+
+    const { type } = message;
+    let content: unknown = message.content ?? null;
+
+    if (STRING_CONTENT_EVENTS.includes(type)) {
+        return typeof content === 'string' ? { type, content } as VRChatPipelineEvent : null;
+    }
+    if (type === 'clear-notification') {
+        return { type, content: null };
+    }
+
+    // The content field is normally a JSON string
+    if (typeof content === 'string') {
+        content = JSON.parse(content);
+    }
+    if (!isObject(content)) return null;
+
+    return { type, content } as VRChatPipelineEvent;
+}
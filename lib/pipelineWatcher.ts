@@ -0,0 +1,340 @@
+import WebSocket from 'ws';
+import { getConfig } from '@/lib/config';
+import { recordPipelineEvent } from '@/lib/history';
+import { getWorldId } from '@/lib/location';
+import { parsePipelineMessage, VRChatPipelineEvent } from '@/lib/pipelineEvents';
+import { createVRChatClient, getAccountId, USER_AGENT, VRChatClient, VRChatSession } from '@/lib/vrchat';
+
+// Background VRChat pipeline watcher.
+// One WebSocket per auth token is kept open on the server and multiplexed to every SSE
+// subscriber (tabs/devices), so duplicate upstream sockets are never opened.
+// By default the connection stays open with no subscribers so friend events are recorded
+// to the history even when nobody is looking. With PIPELINE_KEEP_ALIVE=false it is
+// reference counted instead and closed after a grace period once the last subscriber leaves.
+// Pipeline events get increasing ids and the last few hundred are kept per session, so a
+// reconnecting SSE client can send its Last-Event-ID and receive what it missed.
+
+// Event delivered to subscribers (pipeline events plus connection status events).
+// Only pipeline events carry an id; status events are not replayed.
+export type PipelineEvent = {
+    id?: number;
+    type: string;
+    data: unknown;
+};
+
+export type PipelineListener = (event: PipelineEvent) => void;
+
+export type PipelineWatcher = {
+    subscribe: (listener: PipelineListener, lastEventId?: number) => () => void;
+    subscriberCount: () => number;
+    isConnected: () => boolean;
+    stop: () => void;
+};
+
+// Events written to the server-side history
+const HISTORY_EVENTS = ['friend-online', 'friend-offline', 'friend-location', 'friend-update', 'friend-active'];
+
+// Reconnect backoff (exponential with jitter)
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60 * 1000;
+
+// Close codes VRChat/proxies use for an unauthorized session; anything else is retried
+const AUTH_FAILURE_CLOSE_CODES = [4001, 4401];
+
+// World name cache size per watcher
+const MAX_CACHED_WORLDS = 500;
+
+// Pipeline events kept per session for Last-Event-ID replay
+const REPLAY_BUFFER_SIZE = 500;
+
+// Keep watchers across hot reloads in development
+const globalForWatchers = globalThis as {
+    pipelineWatchers?: Map<string, PipelineWatcher>;
+    pipelineEventId?: number;
+};
+const watchers = globalForWatchers.pipelineWatchers ??= new Map<string, PipelineWatcher>();
+
+// Event ids start from the current time so they keep increasing across server restarts
+const nextEventId = (): number => {
+    globalForWatchers.pipelineEventId = Math.max((globalForWatchers.pipelineEventId ?? 0) + 1, Date.now());
+    return globalForWatchers.pipelineEventId;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+// Load favorite friend IDs (pagination loop)
+async function loadFavoriteIds(client: VRChatClient): Promise<Set<string>> {
+    const favoriteIds = new Set<string>();
+    let offset = 0;
+
+    while (true) {
+        const favs = await client.getFavorites({ type: 'friend', n: 100, offset });
+        favs.forEach((fav) => favoriteIds.add(fav.favoriteId));
+        if (favs.length < 100) break;
+        offset += 100;
+    }
+
+    return favoriteIds;
+}
+
+function createPipelineWatcher(session: VRChatSession, onStopped: () => void): PipelineWatcher {
+    // World names and favorites are only needed for the history; never delay a user's request for them
+    const client = createVRChatClient(session, { priority: 'background' });
+    const listeners = new Set<PipelineListener>();
+    const replayBuffer: PipelineEvent[] = [];
+    const worldNames = new Map<string, Promise<string | undefined>>();
+
+    let ws: WebSocket | null = null;
+    let reconnectTimer: NodeJS.Timeout | null = null;
+    let graceTimer: NodeJS.Timeout | null = null;
+    let attempt = 0;
+    let stopped = false;
+    let authRejected = false;
+    let accountId: string | null = null;
+    let favoriteIds = new Set<string>();
+    // Clients whose last event id is below this missed events that can't be replayed
+    let replayableAfter = nextEventId();
+
+    const deliver = (listener: PipelineListener, event: PipelineEvent) => {
+        try {
+            listener(event);
+        } catch (e) {
+            console.error('[Pipeline] Subscriber error:', e);
+        }
+    };
+
+    const emit = (type: string, data: unknown) => {
+        listeners.forEach((listener) => deliver(listener, { type, data }));
+    };
+
+    // Emit a pipeline event with an id and keep it for replay
+    const publish = (type: string, data: unknown) => {
+        const event: PipelineEvent = { id: nextEventId(), type, data };
+        replayBuffer.push(event);
+        if (replayBuffer.length > REPLAY_BUFFER_SIZE) {
+            replayableAfter = replayBuffer.shift()!.id!;
+        }
+        listeners.forEach((listener) => deliver(listener, event));
+    };
+
+    // Send a reconnecting client the events it missed, or ask it to resync if they're gone
+    const replay = (listener: PipelineListener, lastEventId: number) => {
+        const latestId = replayBuffer.length > 0 ? replayBuffer[replayBuffer.length - 1].id! : replayableAfter;
+        if (lastEventId < replayableAfter || lastEventId > latestId) {
+            deliver(listener, { type: 'resync', data: { reason: 'events-unavailable', timestamp: Date.now() } });
+            return;
+        }
+        const missed = replayBuffer.filter((event) => event.id! > lastEventId);
+        console.log(`[Pipeline] Replaying ${missed.length} events after ${lastEventId}`);
+        missed.forEach((event) => deliver(listener, event));
+    };
+
+    // Resolve the account the history is recorded under, plus its favorites
+    const loadAccount = async () => {
+        try {
+            accountId = await getAccountId(session);
+            favoriteIds = await loadFavoriteIds(client);
+        } catch (error) {
+            console.error('[Pipeline] Failed to load account for history:', error);
+        }
+    };
+
+    const resolveWorldName = (content: Record<string, unknown>): Promise<string | undefined> => {
+        const world = isObject(content.world) ? content.world : null;
+        if (typeof world?.name === 'string' && world.name) return Promise.resolve(world.name);
+
+        const worldId = typeof content.location === 'string' ? getWorldId(content.location) : null;
+        if (!worldId) return Promise.resolve(undefined);
+
+        let name = worldNames.get(worldId);
+        if (!name) {
+            if (worldNames.size >= MAX_CACHED_WORLDS) worldNames.clear();
+            name = client.getWorld(worldId)
+                .then((w) => w.name)
+                .catch(() => undefined);
+            worldNames.set(worldId, name);
+        }
+        return name;
+    };
+
+    const recordHistory = async ({ type, content }: VRChatPipelineEvent) => {
+        if (!accountId || !isObject(content) || !HISTORY_EVENTS.includes(type)) return;
+        try {
+            const data: Record<string, unknown> = { ...content };
+            const userId = typeof data.userId === 'string' ? data.userId : '';
+            const worldName = type === 'friend-offline' || type === 'friend-update'
+                ? undefined
+                : await resolveWorldName(data);
+            recordPipelineEvent(accountId, type, data, {
+                isFavorite: favoriteIds.has(userId),
+                worldName
+            });
+        } catch (e) {
+            console.error('[Pipeline] Failed to record history:', e);
+        }
+    };
+
+    const scheduleReconnect = (code: number) => {
+        if (stopped || reconnectTimer) return;
+        // Equal jitter: half the backoff is fixed, half random, so sessions don't reconnect in lockstep
+        const backoff = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+        const delay = Math.round(backoff / 2 + Math.random() * backoff / 2);
+        attempt++;
+        console.log(`[Pipeline] Reconnecting in ${delay}ms (attempt ${attempt})`);
+        emit('reconnecting', { attempt, delayMs: delay, code, timestamp: Date.now() });
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            connect();
+        }, delay);
+    };
+
+    const connect = () => {
+        if (stopped) return;
+
+        const wsUrl = `${getConfig().vrchatPipelineUrl}/?authToken=${encodeURIComponent(session.authToken)}`;
+        console.log('[Pipeline] Connecting to VRChat WebSocket...');
+
+        const socket = new WebSocket(wsUrl, {
+            headers: {
+                'User-Agent': USER_AGENT
+            }
+        });
+        ws = socket;
+
+        socket.on('open', () => {
+            console.log('[Pipeline] VRChat WebSocket connected');
+            attempt = 0;
+            emit('connected', { status: 'connected', timestamp: Date.now() });
+            // Refresh account/favorites on every (re)connect
+            loadAccount();
+        });
+
+        socket.on('message', (data: WebSocket.Data) => {
+            try {
+                const event = parsePipelineMessage(data.toString());
+                if (!event) {
+                    console.warn(`[Pipeline] Ignoring unknown event: ${data.toString().slice(0, 100)}`);
+                    return;
+                }
+
+                console.log(`[Pipeline] VRChat event: ${event.type}`);
+                publish(event.type, event.content);
+                recordHistory(event);
+            } catch (e) {
+                console.error('[Pipeline] Failed to parse WebSocket message:', e);
+            }
+        });
+
+        // Handshake rejected by VRChat (e.g. 401 for an expired auth token)
+        socket.on('unexpected-response', (_req, res) => {
+            console.error(`[Pipeline] VRChat WebSocket rejected: HTTP ${res.statusCode}`);
+            authRejected = res.statusCode === 401;
+            res.resume();
+            socket.terminate();
+        });
+
+        socket.on('close', (code, reason) => {
+            if (ws !== socket) return;
+            ws = null;
+            console.log(`[Pipeline] VRChat WebSocket closed: code=${code}, reason=${reason}`);
+
+            // Auth token is no longer valid; reconnecting would only be rejected again
+            if (authRejected || AUTH_FAILURE_CLOSE_CODES.includes(code)) {
+                emit('auth-expired', { code, timestamp: Date.now() });
+                stop();
+                return;
+            }
+            scheduleReconnect(code);
+        });
+
+        // A 'close' always follows, which drives the reconnect
+        socket.on('error', (error) => {
+            if (authRejected) return;
+            console.error('[Pipeline] VRChat WebSocket error:', error.message);
+        });
+    };
+
+    const cancelGraceTimer = () => {
+        if (graceTimer) {
+            clearTimeout(graceTimer);
+            graceTimer = null;
+        }
+    };
+
+    // Close the connection once nobody has used it for the grace period (unless kept alive)
+    const scheduleIdleStop = () => {
+        const { pipelineKeepAlive, pipelineGraceMs } = getConfig();
+        if (pipelineKeepAlive || stopped || listeners.size > 0 || graceTimer) return;
+        graceTimer = setTimeout(() => {
+            graceTimer = null;
+            if (listeners.size === 0) {
+                console.log('[Pipeline] No subscribers left, closing connection');
+                stop();
+            }
+        }, pipelineGraceMs);
+    };
+
+    const stop = () => {
+        if (stopped) return;
+        stopped = true;
+        console.log('[Pipeline] Watcher stopped');
+
+        cancelGraceTimer();
+        if (reconnectTimer) {
+            clearTimeout(reconnectTimer);
+            reconnectTimer = null;
+        }
+
+        const socket = ws;
+        ws = null;
+        socket?.close();
+
+        emit('disconnected', { timestamp: Date.now() });
+        listeners.clear();
+        onStopped();
+    };
+
+    connect();
+    scheduleIdleStop();
+
+    return {
+        subscribe: (listener: PipelineListener, lastEventId?: number) => {
+            cancelGraceTimer();
+            if (lastEventId !== undefined) {
+                replay(listener, lastEventId);
+            }
+            listeners.add(listener);
+            return () => {
+                if (listeners.delete(listener)) {
+                    scheduleIdleStop();
+                }
+            };
+        },
+
+        subscriberCount: () => listeners.size,
+
+        isConnected: () => ws?.readyState === WebSocket.OPEN,
+
+        stop,
+    };
+}
+
+// Get the watcher for a session, starting it if needed
+export function startPipelineWatcher(session: VRChatSession): PipelineWatcher {
+    const existing = watchers.get(session.authToken);
+    if (existing) return existing;
+
+    const watcher = createPipelineWatcher(session, () => {
+        if (watchers.get(session.authToken) === watcher) {
+            watchers.delete(session.authToken);
+        }
+    });
+    watchers.set(session.authToken, watcher);
+    return watcher;
+}
+
+// Stop the watcher for an auth token (e.g. on logout)
+export function stopPipelineWatcher(authToken: string): void {
+    watchers.get(authToken)?.stop();
+}
@@ -0,0 +1,54 @@
+// Editable fields of the logged-in user's own profile and VRChat's limits on them.
+// Shared by PUT /api/user and the /me page, so it must stay free of server-only imports.
+
+// Statuses a user can pick ("offline" is VRChat's to set)
+export const USER_STATUSES = ['join me', 'active', 'ask me', 'busy'] as const;
+
+export type UserStatus = typeof USER_STATUSES[number];
+
+export const MAX_STATUS_DESCRIPTION_LENGTH = 32;
+
+export const MAX_BIO_LENGTH = 512;
+
+// Body of PUT /users/{userId}; fields left out are not changed
+export type ProfileUpdate = {
+    status?: UserStatus;
+    statusDescription?: string;
+    bio?: string;
+};
+
+export function isUserStatus(value: unknown): value is UserStatus {
+    return typeof value === 'string' && (USER_STATUSES as readonly string[]).includes(value);
+}
+
+// Check a profile edit; empty strings clear a field. Returns the changes or why they were rejected.
+export function parseProfileUpdate(value: unknown): { update: ProfileUpdate } | { error: string } {
+    const input = value && typeof value === 'object'
+        ? value as { status?: unknown; statusDescription?: unknown; bio?: unknown }
+        : {};
+    const update: ProfileUpdate = {};
+
+    if (input.status !== undefined) {
+        if (!isUserStatus(input.status)) {
+            return { error: `Status must be one of: ${USER_STATUSES.join(', ')}` };
+        }
+        update.status = input.status;
+    }
+    if (input.statusDescription !== undefined) {
+        if (typeof input.statusDescription !== 'string' || input.statusDescription.trim().length > MAX_STATUS_DESCRIPTION_LENGTH) {
+            return { error: `Status description must be at most ${MAX_STATUS_DESCRIPTION_LENGTH} characters` };
+        }
+        update.statusDescription = input.statusDescription.trim();
+    }
+    if (input.bio !== undefined) {
+        if (typeof input.bio !== 'string' || input.bio.trim().length > MAX_BIO_LENGTH) {
+            return { error: `Bio must be at most ${MAX_BIO_LENGTH} characters` };
+        }
+        update.bio = input.bio.trim();
+    }
+
+    if (Object.keys(update).length === 0) {
+        return { error: 'Nothing to update' };
+    }
+    return { update };
+}
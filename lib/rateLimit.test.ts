@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { checkRateLimit, resetRateLimit } from '@/lib/rateLimit';
+
+// Requests without a session cookie are keyed by client IP, so each test uses its own
+let nextIp = 1;
+const anonymousRequest = () => new NextRequest('http://localhost/api/test', {
+    headers: { 'x-forwarded-for': `192.0.2.${nextIp++}` },
+});
+
+function createClock(start = 0) {
+    let now = start;
+    return {
+        clock: () => now,
+        at(time: number) {
+            now = time;
+        },
+    };
+}
+
+describe('checkRateLimit', () => {
+    it('applies the route rule on the injected clock', async () => {
+        // login: sliding-log, 5 in any 15 minutes
+        const req = anonymousRequest();
+        const { clock, at } = createClock();
+        for (let i = 0; i < 5; i++) {
+            at(i * 60_000);
+            expect((await checkRateLimit(req, 'login', clock)).limited).toBe(false);
+        }
+        at(10 * 60_000);
+        expect(await checkRateLimit(req, 'login', clock)).toEqual({ limited: true, remaining: 0, resetIn: 5 * 60_000 });
+        at(15 * 60_000);
+        expect((await checkRateLimit(req, 'login', clock)).limited).toBe(false);
+    });
+
+    it('gives anonymous callers the anonymous rule', async () => {
+        // friends: token bucket for sessions, 10 per minute fixed window without one
+        const req = anonymousRequest();
+        const { clock, at } = createClock();
+        for (let i = 0; i < 10; i++) {
+            expect((await checkRateLimit(req, 'friends', clock)).limited).toBe(false);
+        }
+        at(59_999);
+        expect(await checkRateLimit(req, 'friends', clock)).toEqual({ limited: true, remaining: 0, resetIn: 1 });
+        at(60_000);
+        expect(await checkRateLimit(req, 'friends', clock)).toEqual({ limited: false, remaining: 9, resetIn: 60_000 });
+    });
+
+    it('counts each route type separately', async () => {
+        const req = anonymousRequest();
+        const { clock } = createClock();
+        for (let i = 0; i < 5; i++) await checkRateLimit(req, 'login', clock);
+        expect((await checkRateLimit(req, 'login', clock)).limited).toBe(true);
+        expect((await checkRateLimit(req, 'verify', clock)).limited).toBe(false);
+    });
+
+    it('counts each client separately', async () => {
+        const { clock } = createClock();
+        const first = anonymousRequest();
+        for (let i = 0; i < 5; i++) await checkRateLimit(first, 'login', clock);
+        expect((await checkRateLimit(first, 'login', clock)).limited).toBe(true);
+        expect((await checkRateLimit(anonymousRequest(), 'login', clock)).limited).toBe(false);
+    });
+
+    it('starts over after resetRateLimit', async () => {
+        const req = anonymousRequest();
+        const { clock } = createClock();
+        for (let i = 0; i < 5; i++) await checkRateLimit(req, 'login', clock);
+        expect((await checkRateLimit(req, 'login', clock)).limited).toBe(true);
+        await resetRateLimit(req, 'login');
+        expect(await checkRateLimit(req, 'login', clock)).toEqual({ limited: false, remaining: 4, resetIn: 15 * 60_000 });
+    });
+});
@@ -1,109 +1,156 @@
+import { createHash } from 'node:crypto';
 import { NextRequest, NextResponse } from 'next/server';
-
-// Simple in-memory rate limiting (for serverless, consider using Redis/Upstash)
-// This implementation works per-instance, which is suitable for development
-// For production with multiple instances, use a distributed store like Upstash Redis
-
-interface RateLimitEntry {
-    count: number;
-    resetTime: number;
-}
-
-// Store rate limit data - In production, use Redis or similar
-const rateLimitStore = new Map<string, RateLimitEntry>();
+import { getClientIp } from '@/lib/clientIp';
+import { getConfig } from '@/lib/config';
+import { Clock, RateLimitResult, RateLimitRule } from '@/lib/rateLimitAlgorithms';
+import { getRateLimitStore } from '@/lib/rateLimitStore';
+import { getSessionAccountId, parseSessionCookie, SESSION_COOKIE } from '@/lib/sessionStore';
+
+// Per-route rate limiting. Each entry picks an algorithm (see lib/rateLimitAlgorithms.ts);
+// state lives in the store chosen by RATE_LIMIT_STORE: in-memory per process by default,
+// or a shared Redis-compatible server when running more than one instance.
+//
+// Callers are counted per RATE_LIMIT_KEY (client IP and/or VRChat account). A session only
+// counts as authenticated once VRChat has accepted its login, so made-up session cookies
+// can't mint fresh buckets; everyone else is anonymous, keyed by IP, and gets the entry's
+// `anonymous` rule when it has one.
+
+type RateLimitPolicy = RateLimitRule & {
+    // Rule for callers without a verified session (defaults to the main rule)
+    anonymous?: RateLimitRule;
+};
 
 // Configuration
 const RATE_LIMIT_CONFIG = {
     login: {
+        algorithm: 'sliding-log',
         windowMs: 15 * 60 * 1000, // 15 minutes
-        maxRequests: 5, // 5 login attempts per window
+        maxRequests: 5, // 5 login attempts in any 15 minutes
     },
     verify: {
+        algorithm: 'sliding-log',
         windowMs: 15 * 60 * 1000, // 15 minutes
-        maxRequests: 10, // 10 2FA attempts per window
+        maxRequests: 10, // 10 2FA attempts in any 15 minutes
     },
     api: {
+        algorithm: 'fixed-window',
         windowMs: 60 * 1000, // 1 minute
         maxRequests: 60, // 60 requests per minute
     },
     user: {
+        algorithm: 'fixed-window',
         windowMs: 60 * 1000, // 1 minute
         maxRequests: 30, // 30 requests per minute
     },
     friends: {
+        algorithm: 'token-bucket',
+        burst: 5, // a few back-to-back loads (reload, tab switch)
+        refillAmount: 20, // then 20 per minute (heavier endpoint)
+        refillIntervalMs: 60 * 1000,
+        anonymous: {
+            algorithm: 'fixed-window',
+            windowMs: 60 * 1000, // 1 minute
+            maxRequests: 10, // nothing to load without a session
+        },
+    },
+    offlineFriends: {
+        algorithm: 'fixed-window',
         windowMs: 60 * 1000, // 1 minute
-        maxRequests: 20, // 20 requests per minute (heavier endpoint)
+        maxRequests: 30, // 30 pages per minute ("load more" in the offline list)
     },
     friendDetail: {
+        algorithm: 'fixed-window',
         windowMs: 60 * 1000, // 1 minute
         maxRequests: 60, // 60 requests per minute
+        anonymous: {
+            algorithm: 'fixed-window',
+            windowMs: 60 * 1000, // 1 minute
+            maxRequests: 20, // 20 requests per minute
+        },
     },
     worlds: {
+        algorithm: 'fixed-window',
         windowMs: 60 * 1000, // 1 minute
         maxRequests: 60, // 60 requests per minute
+        anonymous: {
+            algorithm: 'fixed-window',
+            windowMs: 60 * 1000, // 1 minute
+            maxRequests: 20, // 20 requests per minute
+        },
     },
     stream: {
+        algorithm: 'token-bucket',
+        burst: 10, // several tabs opening at once
+        refillAmount: 20, // then 20 connections per minute (tabs share one upstream socket)
+        refillIntervalMs: 60 * 1000,
+        anonymous: {
+            algorithm: 'fixed-window',
+            windowMs: 60 * 1000, // 1 minute
+            maxRequests: 5, // 5 connections per minute
+        },
+    },
+    history: {
+        algorithm: 'token-bucket',
+        burst: 10,
+        refillAmount: 30, // 30 requests per minute (logs page polls)
+        refillIntervalMs: 60 * 1000,
+    },
+    notifications: {
+        algorithm: 'fixed-window',
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 30, // 30 requests per minute
+    },
+    invite: {
+        algorithm: 'sliding-log',
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 10, // 10 invites in any minute (VRChat throttles invite spam)
+    },
+    inviteMessages: {
+        algorithm: 'fixed-window',
         windowMs: 60 * 1000, // 1 minute
-        maxRequests: 5, // 5 connections per minute (SSE is long-lived)
+        maxRequests: 30, // 30 requests per minute
+    },
+    profileUpdate: {
+        algorithm: 'sliding-log',
+        windowMs: 60 * 1000, // 1 minute
+        maxRequests: 10, // 10 profile edits in any minute
     }
-};
-
-// Get client identifier (IP address or fallback)
-function getClientId(req: NextRequest): string {
-    const forwarded = req.headers.get('x-forwarded-for');
-    const realIp = req.headers.get('x-real-ip');
-    const ip = forwarded?.split(',')[0]?.trim() || realIp || 'unknown';
-    return ip;
-}
-
-// Check if request should be rate limited
-export function checkRateLimit(
-    req: NextRequest,
-    type: keyof typeof RATE_LIMIT_CONFIG
-): { limited: boolean; remaining: number; resetIn: number } {
-    const config = RATE_LIMIT_CONFIG[type];
-    const clientId = getClientId(req);
-    const key = `${type}:${clientId}`;
-    const now = Date.now();
+} satisfies Record<string, RateLimitPolicy>;
 
-    // Clean up expired entries periodically
-    if (Math.random() < 0.01) {
-        cleanupExpiredEntries();
-    }
+export type RateLimitType = keyof typeof RATE_LIMIT_CONFIG;
 
-    const entry = rateLimitStore.get(key);
+// VRChat user ID behind the request's session, if we have verified that session before
+function getVerifiedAccountId(req: NextRequest): string | null {
+    // The active account (first in the cookie)
+    const [token] = parseSessionCookie(req.cookies.get(SESSION_COOKIE)?.value);
+    return token ? getSessionAccountId(token) : null;
+}
 
-    if (!entry || now > entry.resetTime) {
-        // Create new entry
-        rateLimitStore.set(key, {
-            count: 1,
-            resetTime: now + config.windowMs
-        });
-        return {
-            limited: false,
-            remaining: config.maxRequests - 1,
-            resetIn: config.windowMs
-        };
-    }
+// Build the bucket key; account IDs are hashed so the store never holds them in clear
+function getClientKey(req: NextRequest, type: RateLimitType): { key: string; anonymous: boolean } {
+    const accountId = getVerifiedAccountId(req);
+    const parts = getConfig().rateLimitKey;
 
-    // Check if limit exceeded
-    if (entry.count >= config.maxRequests) {
-        return {
-            limited: true,
-            remaining: 0,
-            resetIn: entry.resetTime - now
-        };
+    if (!accountId) {
+        return { key: `${type}:anon:${getClientIp(req.headers)}`, anonymous: true };
     }
 
-    // Increment count
-    entry.count++;
-    rateLimitStore.set(key, entry);
+    const id: string[] = [];
+    if (parts.includes('ip')) id.push(getClientIp(req.headers));
+    if (parts.includes('account')) id.push(createHash('sha256').update(accountId).digest('hex').slice(0, 16));
+    return { key: `${type}:auth:${id.join(':')}`, anonymous: false };
+}
 
-    return {
-        limited: false,
-        remaining: config.maxRequests - entry.count,
-        resetIn: entry.resetTime - now
-    };
+// Check if request should be rate limited (clock is injectable for tests)
+export async function checkRateLimit(
+    req: NextRequest,
+    type: RateLimitType,
+    clock: Clock = Date.now
+): Promise<RateLimitResult> {
+    const policy: RateLimitPolicy = RATE_LIMIT_CONFIG[type];
+    const { key, anonymous } = getClientKey(req, type);
+    const rule = anonymous && policy.anonymous ? policy.anonymous : policy;
+    return getRateLimitStore().consume(key, rule, clock());
 }
 
 // Generate rate limit response
@@ -131,19 +178,8 @@ export function addRateLimitHeaders(
     return response;
 }
 
-// Cleanup expired entries to prevent memory leaks
-function cleanupExpiredEntries(): void {
-    const now = Date.now();
-    for (const [key, entry] of rateLimitStore.entries()) {
-        if (now > entry.resetTime) {
-            rateLimitStore.delete(key);
-        }
-    }
-}
-
 // Reset rate limit for a specific client (useful after successful login)
-export function resetRateLimit(req: NextRequest, type: keyof typeof RATE_LIMIT_CONFIG): void {
-    const clientId = getClientId(req);
-    const key = `${type}:${clientId}`;
-    rateLimitStore.delete(key);
+export async function resetRateLimit(req: NextRequest, type: RateLimitType): Promise<void> {
+    const { key } = getClientKey(req, type);
+    await getRateLimitStore().reset(key);
 }
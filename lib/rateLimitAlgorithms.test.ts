@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import {
+    applyRule,
+    fixedWindow,
+    FixedWindowRule,
+    RateLimitRule,
+    RateLimitState,
+    slidingLog,
+    SlidingLogRule,
+    tokenBucket,
+    TokenBucketRule,
+} from '@/lib/rateLimitAlgorithms';
+
+// Runs hits against one rule with a clock the test moves by hand, carrying state
+// between hits the way a store does
+function createLimiter(rule: RateLimitRule) {
+    let now = 0;
+    let state: RateLimitState | undefined;
+    return {
+        hit() {
+            const step = applyRule(state, rule, now);
+            state = step.state;
+            return step.result;
+        },
+        // Hits until one is limited (or `max` allowed); returns how many were allowed
+        drain(max = 1000) {
+            let allowed = 0;
+            while (allowed < max && !this.hit().limited) allowed++;
+            return allowed;
+        },
+        at(time: number) {
+            now = time;
+        },
+        get state() {
+            return state;
+        },
+    };
+}
+
+describe('fixedWindow', () => {
+    const rule: FixedWindowRule = { algorithm: 'fixed-window', windowMs: 60_000, maxRequests: 5 };
+
+    it('allows maxRequests per window, counted from the first hit', () => {
+        const limiter = createLimiter(rule);
+        limiter.at(1_000);
+        expect(limiter.hit()).toEqual({ limited: false, remaining: 4, resetIn: 60_000 });
+        limiter.at(31_000);
+        expect(limiter.hit()).toEqual({ limited: false, remaining: 3, resetIn: 30_000 });
+        expect(limiter.drain()).toBe(3);
+
+        limiter.at(60_999);
+        expect(limiter.hit()).toEqual({ limited: true, remaining: 0, resetIn: 1 });
+        limiter.at(61_000);
+        expect(limiter.hit()).toEqual({ limited: false, remaining: 4, resetIn: 60_000 });
+    });
+
+    it('lets 2x the limit through around a window boundary', () => {
+        const limiter = createLimiter(rule);
+        // One hit opens the window; the rest wait until just before it closes
+        expect(limiter.hit().limited).toBe(false);
+        limiter.at(59_999);
+        expect(limiter.drain()).toBe(4);
+        limiter.at(60_000);
+        expect(limiter.drain()).toBe(5);
+        // 9 hits within 2 ms, 10 within one window length
+    });
+
+    it('keeps counting limited hits', () => {
+        const limiter = createLimiter(rule);
+        limiter.drain();
+        limiter.hit();
+        expect(limiter.state).toEqual({ count: 7, resetTime: 60_000 });
+    });
+
+    it('expires its state when the window ends', () => {
+        expect(fixedWindow(undefined, rule, 1_000).expiresAt).toBe(61_000);
+    });
+});
+
+describe('slidingLog', () => {
+    const rule: SlidingLogRule = { algorithm: 'sliding-log', windowMs: 1_000, maxRequests: 3 };
+
+    it('allows maxRequests in any window-long span', () => {
+        const limiter = createLimiter(rule);
+        expect(limiter.hit()).toEqual({ limited: false, remaining: 2, resetIn: 1_000 });
+        limiter.at(400);
+        expect(limiter.hit()).toEqual({ limited: false, remaining: 1, resetIn: 1_000 });
+        limiter.at(800);
+        expect(limiter.hit()).toEqual({ limited: false, remaining: 0, resetIn: 1_000 });
+
+        // Limited until the oldest hit leaves the window
+        limiter.at(900);
+        expect(limiter.hit()).toEqual({ limited: true, remaining: 0, resetIn: 100 });
+        limiter.at(999);
+        expect(limiter.hit()).toEqual({ limited: true, remaining: 0, resetIn: 1 });
+    });
+
+    it('evicts hits once they are a window old', () => {
+        const limiter = createLimiter(rule);
+        limiter.hit();
+        limiter.at(400);
+        limiter.hit();
+        limiter.at(800);
+        limiter.hit();
+
+        limiter.at(1_000);
+        expect(limiter.hit().limited).toBe(false);
+        expect(limiter.state).toEqual({ hits: [400, 800, 1_000] });
+        limiter.at(1_399);
+        expect(limiter.hit().limited).toBe(true);
+        limiter.at(1_400);
+        expect(limiter.hit()).toEqual({ limited: false, remaining: 0, resetIn: 1_000 });
+        expect(limiter.state).toEqual({ hits: [800, 1_000, 1_400] });
+    });
+
+    it('has no boundary burst', () => {
+        const limiter = createLimiter(rule);
+        limiter.hit();
+        limiter.at(999);
+        expect(limiter.drain()).toBe(2);
+        limiter.at(1_000);
+        expect(limiter.drain()).toBe(1);
+    });
+
+    it('does not log limited hits', () => {
+        const limiter = createLimiter(rule);
+        limiter.drain();
+        for (let t = 1; t < 1_000; t += 100) {
+            limiter.at(t);
+            expect(limiter.hit().limited).toBe(true);
+        }
+        expect(limiter.state).toEqual({ hits: [0, 0, 0] });
+        limiter.at(1_000);
+        expect(limiter.drain()).toBe(3);
+    });
+
+    it('expires its state a window after the last allowed hit', () => {
+        const first = slidingLog(undefined, rule, 0);
+        expect(first.expiresAt).toBe(1_000);
+        expect(slidingLog(first.state, rule, 600).expiresAt).toBe(1_600);
+    });
+});
+
+describe('tokenBucket', () => {
+    // 3 at once, then one more per second
+    const rule: TokenBucketRule = { algorithm: 'token-bucket', burst: 3, refillAmount: 1, refillIntervalMs: 1_000 };
+
+    it('allows a burst, then reports when the next token arrives', () => {
+        const limiter = createLimiter(rule);
+        expect(limiter.hit()).toEqual({ limited: false, remaining: 2, resetIn: 1_000 });
+        expect(limiter.hit()).toEqual({ limited: false, remaining: 1, resetIn: 2_000 });
+        expect(limiter.hit()).toEqual({ limited: false, remaining: 0, resetIn: 3_000 });
+        expect(limiter.hit()).toEqual({ limited: true, remaining: 0, resetIn: 1_000 });
+
+        limiter.at(250);
+        expect(limiter.hit()).toEqual({ limited: true, remaining: 0, resetIn: 750 });
+    });
+
+    it('refills continuously', () => {
+        const limiter = createLimiter(rule);
+        limiter.drain();
+
+        limiter.at(500);
+        expect(limiter.hit().limited).toBe(true);
+        limiter.at(1_000);
+        expect(limiter.hit()).toEqual({ limited: false, remaining: 0, resetIn: 3_000 });
+        expect(limiter.hit().limited).toBe(true);
+
+        // Two seconds buy two hits
+        limiter.at(3_000);
+        expect(limiter.drain()).toBe(2);
+    });
+
+    it('never holds more than the burst', () => {
+        const limiter = createLimiter(rule);
+        limiter.hit();
+        limiter.at(60_000);
+        expect(limiter.drain()).toBe(3);
+    });
+
+    it('limits a steady stream to the refill rate', () => {
+        const limiter = createLimiter(rule);
+        limiter.drain();
+        let allowed = 0;
+        for (let t = 0; t <= 10_000; t += 250) {
+            limiter.at(t);
+            if (!limiter.hit().limited) allowed++;
+        }
+        expect(allowed).toBe(10);
+    });
+
+    it('expires its state once the bucket would be full again', () => {
+        const first = tokenBucket(undefined, rule, 0);
+        expect(first.expiresAt).toBe(1_000);
+        expect(tokenBucket(first.state, rule, 0).expiresAt).toBe(2_000);
+    });
+});
+
+describe('applyRule', () => {
+    it.each<[string, RateLimitRule, (state: never, rule: never, now: number) => unknown]>([
+        ['fixed-window', { algorithm: 'fixed-window', windowMs: 1_000, maxRequests: 2 }, fixedWindow],
+        ['sliding-log', { algorithm: 'sliding-log', windowMs: 1_000, maxRequests: 2 }, slidingLog],
+        ['token-bucket', { algorithm: 'token-bucket', burst: 2, refillAmount: 1, refillIntervalMs: 1_000 }, tokenBucket],
+    ])('runs %s', (_name, rule, algorithm) => {
+        let state: RateLimitState | undefined;
+        for (const now of [0, 10, 20, 1_500]) {
+            const step = applyRule(state, rule, now);
+            expect(step).toEqual(algorithm(state as never, rule as never, now));
+            state = step.state;
+        }
+    });
+});
@@ -0,0 +1,124 @@
+// Rate limit algorithms as pure functions of (state, rule, now).
+// The in-memory store runs these directly; the Redis store runs the same logic
+// server-side so that concurrent instances update a key atomically.
+//
+// fixed-window: N hits per window, counted from the first hit. Cheap, but a client can
+//               fit 2N hits around a window boundary.
+// sliding-log:  N hits in any window-long span. Keeps one timestamp per allowed hit.
+// token-bucket: up to `burst` hits at once, then refills continuously at
+//               refillAmount per refillIntervalMs.
+
+export type Clock = () => number;
+
+export const RATE_LIMIT_ALGORITHMS = ['fixed-window', 'sliding-log', 'token-bucket'] as const;
+
+export type FixedWindowRule = {
+    algorithm: 'fixed-window';
+    windowMs: number;
+    maxRequests: number;
+};
+
+export type SlidingLogRule = {
+    algorithm: 'sliding-log';
+    windowMs: number;
+    maxRequests: number;
+};
+
+export type TokenBucketRule = {
+    algorithm: 'token-bucket';
+    // Bucket capacity: how many hits may arrive back to back
+    burst: number;
+    refillAmount: number;
+    refillIntervalMs: number;
+};
+
+export type RateLimitRule = FixedWindowRule | SlidingLogRule | TokenBucketRule;
+
+export type RateLimitResult = {
+    limited: boolean;
+    remaining: number;
+    // Limited: ms until the next hit would be allowed. Otherwise: ms until the limit fully resets.
+    resetIn: number;
+};
+
+export type FixedWindowState = { count: number; resetTime: number };
+
+export type SlidingLogState = { hits: number[] };
+
+export type TokenBucketState = { tokens: number; updatedAt: number };
+
+export type RateLimitState = FixedWindowState | SlidingLogState | TokenBucketState;
+
+export type RateLimitStep<S> = {
+    state: S;
+    result: RateLimitResult;
+    // When the state can be discarded (it would behave the same as no state)
+    expiresAt: number;
+};
+
+export function fixedWindow(state: FixedWindowState | undefined, rule: FixedWindowRule, now: number): RateLimitStep<FixedWindowState> {
+    const current = state && now < state.resetTime
+        ? { count: state.count + 1, resetTime: state.resetTime }
+        : { count: 1, resetTime: now + rule.windowMs };
+
+    return {
+        state: current,
+        result: {
+            limited: current.count > rule.maxRequests,
+            remaining: Math.max(0, rule.maxRequests - current.count),
+            resetIn: current.resetTime - now,
+        },
+        expiresAt: current.resetTime,
+    };
+}
+
+// Only allowed hits are logged, so a client that keeps hammering recovers once its
+// earlier hits age out instead of being locked out indefinitely
+export function slidingLog(state: SlidingLogState | undefined, rule: SlidingLogRule, now: number): RateLimitStep<SlidingLogState> {
+    const hits = (state?.hits || []).filter(hit => hit > now - rule.windowMs);
+    const limited = hits.length >= rule.maxRequests;
+    if (!limited) hits.push(now);
+
+    const oldest = hits[0];
+    return {
+        state: { hits },
+        result: {
+            limited,
+            remaining: Math.max(0, rule.maxRequests - hits.length),
+            resetIn: limited ? oldest + rule.windowMs - now : hits[hits.length - 1] + rule.windowMs - now,
+        },
+        expiresAt: hits[hits.length - 1] + rule.windowMs,
+    };
+}
+
+export function tokenBucket(state: TokenBucketState | undefined, rule: TokenBucketRule, now: number): RateLimitStep<TokenBucketState> {
+    const ratePerMs = rule.refillAmount / rule.refillIntervalMs;
+    const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+    let tokens = state ? Math.min(rule.burst, state.tokens + elapsed * ratePerMs) : rule.burst;
+
+    const limited = tokens < 1;
+    if (!limited) tokens -= 1;
+
+    const fullIn = Math.ceil((rule.burst - tokens) / ratePerMs);
+    return {
+        state: { tokens, updatedAt: now },
+        result: {
+            limited,
+            remaining: Math.floor(tokens),
+            resetIn: limited ? Math.ceil((1 - tokens) / ratePerMs) : fullIn,
+        },
+        expiresAt: now + fullIn,
+    };
+}
+
+// Run the rule's algorithm (state must come from an earlier step of the same rule)
+export function applyRule(state: RateLimitState | undefined, rule: RateLimitRule, now: number): RateLimitStep<RateLimitState> {
+    switch (rule.algorithm) {
+        case 'fixed-window':
+            return fixedWindow(state as FixedWindowState | undefined, rule, now);
+        case 'sliding-log':
+            return slidingLog(state as SlidingLogState | undefined, rule, now);
+        case 'token-bucket':
+            return tokenBucket(state as TokenBucketState | undefined, rule, now);
+    }
+}
@@ -0,0 +1,203 @@
+import net from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRedisClient, parseReply, RedisClient } from '@/lib/redis';
+import { createFallbackStore, createMemoryStore, createRedisStore, RateLimitStore } from '@/lib/rateLimitStore';
+import { RateLimitRule } from '@/lib/rateLimitAlgorithms';
+
+const FIXED: RateLimitRule = { algorithm: 'fixed-window', windowMs: 60_000, maxRequests: 2 };
+const SLIDING: RateLimitRule = { algorithm: 'sliding-log', windowMs: 60_000, maxRequests: 5 };
+const BUCKET: RateLimitRule = { algorithm: 'token-bucket', burst: 10, refillAmount: 1, refillIntervalMs: 1000 };
+
+// RESP encoding of a reply the fake server sends back
+type Reply = string | number | null | Reply[];
+const encodeReply = (value: Reply): string => {
+    if (value === null) return '$-1\r\n';
+    if (typeof value === 'number') return `:${value}\r\n`;
+    if (Array.isArray(value)) return `*${value.length}\r\n${value.map(encodeReply).join('')}`;
+    return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+};
+
+// Just enough of a Redis server for the fixed-window transaction, DEL and EVAL.
+// EVAL replies with evalReply and records its arguments.
+async function startFakeRedis(evalReply: Reply = [0, 4, 60_000]) {
+    const keys = new Map<string, { value: number; expiresAt: number | null }>();
+    const evals: string[][] = [];
+    const sockets = new Set<net.Socket>();
+
+    const run = ([name, key, ...args]: string[]): Reply => {
+        const entry = keys.get(key);
+        switch (name) {
+            case 'INCR': {
+                const next = { value: (entry?.value ?? 0) + 1, expiresAt: entry?.expiresAt ?? null };
+                keys.set(key, next);
+                return next.value;
+            }
+            case 'PEXPIRE':
+                if (!entry || (args[1] === 'NX' && entry.expiresAt !== null)) return 0;
+                entry.expiresAt = Date.now() + Number(args[0]);
+                return 1;
+            case 'PTTL':
+                if (!entry) return -2;
+                return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+            case 'DEL':
+                return [key, ...args].filter(name => keys.delete(name)).length;
+            case 'EVAL':
+                evals.push([key, ...args]);
+                return evalReply;
+            default:
+                throw new Error(`Unsupported command ${name}`);
+        }
+    };
+
+    const server = net.createServer((socket) => {
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+        let buffer = Buffer.alloc(0);
+        let queued: string[][] | null = null;
+        socket.on('data', (chunk) => {
+            buffer = Buffer.concat([buffer, chunk]);
+            for (let parsed = parseReply(buffer, 0); parsed; parsed = parseReply(buffer, 0)) {
+                buffer = buffer.subarray(parsed.end);
+                const args = parsed.value as string[];
+                if (args[0] === 'MULTI') {
+                    queued = [];
+                    socket.write('+OK\r\n');
+                } else if (args[0] === 'EXEC') {
+                    socket.write(encodeReply((queued ?? []).map(run)));
+                    queued = null;
+                } else if (queued) {
+                    queued.push(args);
+                    socket.write('+QUEUED\r\n');
+                } else {
+                    socket.write(encodeReply(run(args)));
+                }
+            }
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+
+    return {
+        url: `redis://127.0.0.1:${port}`,
+        keys,
+        evals,
+        close: () => new Promise<void>((resolve) => {
+            sockets.forEach(socket => socket.destroy());
+            server.close(() => resolve());
+        }),
+    };
+}
+
+describe('createRedisStore', () => {
+    let fake: Awaited<ReturnType<typeof startFakeRedis>> | null = null;
+    let client: RedisClient | null = null;
+
+    afterEach(async () => {
+        client?.close();
+        await fake?.close();
+        client = null;
+        fake = null;
+    });
+
+    it('counts fixed windows with INCR and PEXPIRE NX in one transaction', async () => {
+        fake = await startFakeRedis();
+        client = createRedisClient(fake.url);
+        const store = createRedisStore(client);
+
+        const first = await store.consume('ip:1', FIXED, 0);
+        expect(first).toMatchObject({ limited: false, remaining: 1 });
+        expect(first.resetIn).toBeGreaterThan(59_000);
+        expect(first.resetIn).toBeLessThanOrEqual(60_000);
+
+        const expiresAt = fake.keys.get('vrcsocial:ratelimit:fixed-window:ip:1')?.expiresAt;
+        expect(await store.consume('ip:1', FIXED, 0)).toMatchObject({ limited: false, remaining: 0 });
+        expect(await store.consume('ip:1', FIXED, 0)).toMatchObject({ limited: true, remaining: 0 });
+        // The expiry is set once per window, not pushed back by later hits
+        expect(fake.keys.get('vrcsocial:ratelimit:fixed-window:ip:1')?.expiresAt).toBe(expiresAt);
+    });
+
+    it('runs sliding-log and token-bucket as scripts and reads their result', async () => {
+        fake = await startFakeRedis([1, 0, 1500]);
+        client = createRedisClient(fake.url);
+        const store = createRedisStore(client);
+
+        expect(await store.consume('ip:1', SLIDING, 1000)).toEqual({ limited: true, remaining: 0, resetIn: 1500 });
+        expect(await store.consume('ip:1', BUCKET, 2000)).toEqual({ limited: true, remaining: 0, resetIn: 1500 });
+
+        const [sliding, bucket] = fake.evals;
+        expect(sliding.slice(1, 6)).toEqual(['1', 'vrcsocial:ratelimit:sliding-log:ip:1', '1000', '60000', '5']);
+        expect(sliding[6]).toMatch(/^1000:\d+:\d+$/);
+        expect(bucket.slice(1)).toEqual(['1', 'vrcsocial:ratelimit:token-bucket:ip:1', '2000', '10', '1', '1000']);
+    });
+
+    it('rejects script replies of the wrong shape', async () => {
+        fake = await startFakeRedis('OK');
+        client = createRedisClient(fake.url);
+
+        await expect(createRedisStore(client).consume('ip:1', SLIDING, 0)).rejects.toThrow('Unexpected reply');
+    });
+
+    it('resets every algorithm of a key', async () => {
+        fake = await startFakeRedis();
+        client = createRedisClient(fake.url);
+        const store = createRedisStore(client);
+
+        await store.consume('ip:1', FIXED, 0);
+        await store.consume('ip:1', FIXED, 0);
+        await store.reset('ip:1');
+        expect(fake.keys.size).toBe(0);
+        expect(await store.consume('ip:1', FIXED, 0)).toMatchObject({ limited: false, remaining: 1 });
+    });
+});
+
+describe('createFallbackStore', () => {
+    const failing = (): RateLimitStore => ({
+        consume: () => Promise.reject(new Error('down')),
+        reset: () => Promise.reject(new Error('down')),
+    });
+
+    it('uses in-memory counters while Redis is unreachable', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        // Nothing listens on a port we just closed
+        const fake = await startFakeRedis();
+        await fake.close();
+        const client = createRedisClient(fake.url, { connectTimeoutMs: 200 });
+        const store = createFallbackStore(createRedisStore(client), createMemoryStore());
+
+        expect(await store.consume('ip:1', FIXED, 0)).toMatchObject({ limited: false, remaining: 1 });
+        expect(await store.consume('ip:1', FIXED, 0)).toMatchObject({ limited: false, remaining: 0 });
+        expect(await store.consume('ip:1', FIXED, 0)).toMatchObject({ limited: true });
+        await expect(store.reset('ip:1')).resolves.toBeUndefined();
+        client.close();
+        vi.restoreAllMocks();
+    });
+
+    it('goes back to the primary store once it recovers', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const fallback = createMemoryStore();
+        let primary = failing();
+        const store = createFallbackStore({
+            consume: (key, rule, now) => primary.consume(key, rule, now),
+            reset: key => primary.reset(key),
+        }, fallback);
+
+        await store.consume('ip:1', FIXED, 0);
+        primary = createMemoryStore();
+        // Fresh primary: the hit counted by the fallback is not carried over
+        expect(await store.consume('ip:1', FIXED, 0)).toMatchObject({ remaining: 1 });
+        expect(console.log).toHaveBeenCalledWith('[RateLimit] Store recovered');
+        vi.restoreAllMocks();
+    });
+
+    it('passes through results of a healthy primary', async () => {
+        const primary = createMemoryStore();
+        const fallback = createMemoryStore();
+        const store = createFallbackStore(primary, fallback);
+
+        await store.consume('ip:1', FIXED, 0);
+        expect(await fallback.consume('ip:1', FIXED, 0)).toMatchObject({ remaining: 1 });
+        expect(await primary.consume('ip:1', FIXED, 0)).toMatchObject({ remaining: 0 });
+    });
+});
+
@@ -0,0 +1,206 @@
+// State storage for lib/rateLimit.ts.
+//
+// memory: per-process Map; fine for a single server process.
+// redis:  shared state on a Redis-compatible server, so every instance behind
+//         the load balancer (e.g. pm2 cluster mode) enforces the same limit.
+//
+// Selected with RATE_LIMIT_STORE (see lib/config.ts).
+
+import { getConfig } from '@/lib/config';
+import { createRedisClient, RedisClient } from '@/lib/redis';
+import { applyRule, RATE_LIMIT_ALGORITHMS, RateLimitResult, RateLimitRule, RateLimitState } from '@/lib/rateLimitAlgorithms';
+
+export interface RateLimitStore {
+    // Record one hit for key under rule at time now (ms since epoch)
+    consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult>;
+    reset(key: string): Promise<void>;
+}
+
+interface MemoryEntry {
+    state: RateLimitState;
+    expiresAt: number;
+}
+
+const KEY_PREFIX = 'vrcsocial:ratelimit:';
+
+// Keys are namespaced by algorithm so changing a rule never reads state of another shape
+const storageKey = (key: string, rule: RateLimitRule) => `${rule.algorithm}:${key}`;
+
+export function createMemoryStore(): RateLimitStore {
+    const entries = new Map<string, MemoryEntry>();
+
+    // Cleanup expired entries to prevent memory leaks
+    const cleanupExpiredEntries = (now: number) => {
+        for (const [key, entry] of entries.entries()) {
+            if (now >= entry.expiresAt) {
+                entries.delete(key);
+            }
+        }
+    };
+
+    return {
+        async consume(key, rule, now) {
+            // Clean up expired entries periodically
+            if (Math.random() < 0.01) {
+                cleanupExpiredEntries(now);
+            }
+
+            const id = storageKey(key, rule);
+            const entry = entries.get(id);
+            const step = applyRule(entry && now < entry.expiresAt ? entry.state : undefined, rule, now);
+            entries.set(id, { state: step.state, expiresAt: step.expiresAt });
+            return step.result;
+        },
+
+        async reset(key) {
+            RATE_LIMIT_ALGORITHMS.forEach(algorithm => entries.delete(`${algorithm}:${key}`));
+        },
+    };
+}
+
+// Same logic as slidingLog() in lib/rateLimitAlgorithms.ts
+// KEYS[1] = log (sorted set of hit timestamps), ARGV = now, windowMs, maxRequests, unique member
+const SLIDING_LOG_SCRIPT = `
+local now, window, limit = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local limited = 0
+if count >= limit then
+    limited = 1
+else
+    redis.call('ZADD', KEYS[1], now, ARGV[4])
+    count = count + 1
+end
+local oldest = tonumber(redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')[2])
+local newest = tonumber(redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')[2])
+redis.call('PEXPIRE', KEYS[1], math.max(1, newest + window - now))
+if limited == 1 then
+    return {1, 0, oldest + window - now}
+end
+return {0, limit - count, newest + window - now}
+`;
+
+// Same logic as tokenBucket() in lib/rateLimitAlgorithms.ts
+// KEYS[1] = bucket (hash: tokens, updatedAt), ARGV = now, burst, refillAmount, refillIntervalMs
+const TOKEN_BUCKET_SCRIPT = `
+local now, burst = tonumber(ARGV[1]), tonumber(ARGV[2])
+local rate = tonumber(ARGV[3]) / tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = burst
+if state[1] and state[2] then
+    tokens = math.min(burst, tonumber(state[1]) + math.max(0, now - tonumber(state[2])) * rate)
+end
+local limited = 0
+if tokens < 1 then
+    limited = 1
+else
+    tokens = tokens - 1
+end
+local fullIn = math.ceil((burst - tokens) / rate)
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.max(1, fullIn))
+if limited == 1 then
+    return {1, 0, math.ceil((1 - tokens) / rate)}
+end
+return {0, math.floor(tokens), fullIn}
+`;
+
+// Parse the {limited, remaining, resetIn} triple returned by the scripts
+const parseScriptResult = (reply: unknown): RateLimitResult => {
+    if (!Array.isArray(reply) || reply.length !== 3 || !reply.every(value => typeof value === 'number')) {
+        throw new Error('[RateLimit] Unexpected reply from Redis');
+    }
+    const [limited, remaining, resetIn] = reply as number[];
+    return { limited: limited === 1, remaining, resetIn: Math.max(0, resetIn) };
+};
+
+// Fixed windows use INCR and PEXPIRE ... NX in one MULTI/EXEC, so the expiry is set exactly
+// once per window and a crash can never leave a counter without one (PEXPIRE NX needs Redis 7+).
+// The window is timed by the Redis server clock. The other algorithms run as Lua scripts,
+// which Redis executes atomically, with `now` passed in from the caller's clock.
+export function createRedisStore(client: RedisClient): RateLimitStore {
+    let sequence = 0;
+
+    return {
+        async consume(key, rule, now) {
+            const redisKey = KEY_PREFIX + storageKey(key, rule);
+
+            switch (rule.algorithm) {
+                case 'fixed-window': {
+                    const [count, , ttl] = await client.transaction([
+                        ['INCR', redisKey],
+                        ['PEXPIRE', redisKey, rule.windowMs, 'NX'],
+                        ['PTTL', redisKey],
+                    ]);
+                    if (typeof count !== 'number' || typeof ttl !== 'number') {
+                        throw new Error('[RateLimit] Unexpected reply from Redis');
+                    }
+                    return {
+                        limited: count > rule.maxRequests,
+                        remaining: Math.max(0, rule.maxRequests - count),
+                        resetIn: ttl > 0 ? ttl : rule.windowMs,
+                    };
+                }
+                case 'sliding-log': {
+                    // Sorted-set members must be unique even for hits in the same millisecond
+                    const member = `${now}:${process.pid}:${sequence++}`;
+                    return parseScriptResult(await client.command([
+                        'EVAL', SLIDING_LOG_SCRIPT, 1, redisKey, now, rule.windowMs, rule.maxRequests, member,
+                    ]));
+                }
+                case 'token-bucket':
+                    return parseScriptResult(await client.command([
+                        'EVAL', TOKEN_BUCKET_SCRIPT, 1, redisKey, now, rule.burst, rule.refillAmount, rule.refillIntervalMs,
+                    ]));
+            }
+        },
+
+        async reset(key) {
+            await client.command([
+                'DEL',
+                ...RATE_LIMIT_ALGORITHMS.map(algorithm => `${KEY_PREFIX}${algorithm}:${key}`),
+            ]);
+        },
+    };
+}
+
+// Use the primary store, falling back to per-process counters while it is unreachable
+// (an outage should degrade limits, not take every route down with it)
+export function createFallbackStore(primary: RateLimitStore, fallback: RateLimitStore): RateLimitStore {
+    let healthy = true;
+
+    const run = async <T>(operation: (store: RateLimitStore) => Promise<T>): Promise<T> => {
+        try {
+            const result = await operation(primary);
+            if (!healthy) {
+                console.log('[RateLimit] Store recovered');
+                healthy = true;
+            }
+            return result;
+        } catch (error) {
+            if (healthy) {
+                console.error('[RateLimit] Store unavailable, using in-memory counters:', error);
+                healthy = false;
+            }
+            return operation(fallback);
+        }
+    };
+
+    return {
+        consume: (key, rule, now) => run(store => store.consume(key, rule, now)),
+        reset: (key) => run(store => store.reset(key)),
+    };
+}
+
+let store: RateLimitStore | null = null;
+
+// Get the configured store (created on first use)
+export function getRateLimitStore(): RateLimitStore {
+    if (!store) {
+        const config = getConfig();
+        store = config.rateLimitStore === 'redis' && config.rateLimitRedisUrl
+            ? createFallbackStore(createRedisStore(createRedisClient(config.rateLimitRedisUrl)), createMemoryStore())
+            : createMemoryStore();
+    }
+    return store;
+}
@@ -0,0 +1,206 @@
+import net from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createRedisClient, encodeCommand, parseReply, RedisClient, RedisReplyError } from '@/lib/redis';
+
+const parse = (raw: string, start = 0) => parseReply(Buffer.from(raw), start);
+
+describe('encodeCommand', () => {
+    it('writes an array of bulk strings', () => {
+        expect(encodeCommand(['SET', 'key', 42])).toBe('*3\r\n$3\r\nSET\r\n$3\r\nkey\r\n$2\r\n42\r\n');
+    });
+
+    it('counts bytes, not characters', () => {
+        expect(encodeCommand(['ECHO', 'ねこ'])).toBe('*2\r\n$4\r\nECHO\r\n$6\r\nねこ\r\n');
+    });
+});
+
+describe('parseReply', () => {
+    it('parses simple strings, integers and bulk strings', () => {
+        expect(parse('+OK\r\n')).toEqual({ value: 'OK', end: 5 });
+        expect(parse(':-12\r\n')).toEqual({ value: -12, end: 6 });
+        expect(parse('$6\r\nねこ\r\n')).toEqual({ value: 'ねこ', end: 12 });
+        expect(parse('$0\r\n\r\n')).toEqual({ value: '', end: 6 });
+    });
+
+    it('parses null bulk strings and null arrays', () => {
+        expect(parse('$-1\r\n')).toEqual({ value: null, end: 5 });
+        expect(parse('*-1\r\n')).toEqual({ value: null, end: 5 });
+    });
+
+    it('returns error replies as RedisReplyError', () => {
+        const parsed = parse('-ERR unknown command\r\n');
+        expect(parsed?.value).toBeInstanceOf(RedisReplyError);
+        expect((parsed?.value as RedisReplyError).message).toBe('ERR unknown command');
+    });
+
+    it('parses nested arrays with errors and nulls inside', () => {
+        const parsed = parse('*3\r\n:1\r\n*2\r\n$1\r\na\r\n$-1\r\n-WRONGTYPE bad\r\n');
+        expect(parsed?.end).toBe(40);
+        const [count, nested, error] = parsed!.value as unknown[];
+        expect(count).toBe(1);
+        expect(nested).toEqual(['a', null]);
+        expect(error).toBeInstanceOf(RedisReplyError);
+    });
+
+    it('waits for the rest of a partial frame', () => {
+        const full = '*2\r\n$5\r\nhello\r\n:7\r\n';
+        for (let length = 0; length < full.length; length++) {
+            expect(parse(full.slice(0, length))).toBeNull();
+        }
+        expect(parse(full)).toEqual({ value: ['hello', 7], end: full.length });
+    });
+
+    it('parses from an offset', () => {
+        expect(parse('+OK\r\n:3\r\n', 5)).toEqual({ value: 3, end: 9 });
+    });
+
+    it('rejects unknown reply types', () => {
+        expect(() => parse('?what\r\n')).toThrow('Protocol error');
+    });
+});
+
+// Local server answering each command with reply(args, socket); replies are raw RESP
+type FakeServer = { url: string; commands: string[][]; connections: number; close: () => Promise<void> };
+
+async function startServer(reply: (args: string[], socket: net.Socket) => string | null): Promise<FakeServer> {
+    const sockets = new Set<net.Socket>();
+    const commands: string[][] = [];
+    let connections = 0;
+
+    const server = net.createServer((socket) => {
+        connections++;
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+        let buffer = Buffer.alloc(0);
+        socket.on('data', (chunk) => {
+            buffer = Buffer.concat([buffer, chunk]);
+            let parsed = parseReply(buffer, 0);
+            while (parsed) {
+                buffer = buffer.subarray(parsed.end);
+                const args = parsed.value as string[];
+                commands.push(args);
+                const out = reply(args, socket);
+                if (out !== null && !socket.destroyed) socket.write(out);
+                parsed = parseReply(buffer, 0);
+            }
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+
+    return {
+        url: `redis://127.0.0.1:${port}`,
+        commands,
+        get connections() {
+            return connections;
+        },
+        close: () => new Promise<void>((resolve) => {
+            sockets.forEach(socket => socket.destroy());
+            server.close(() => resolve());
+        }),
+    };
+}
+
+describe('createRedisClient', () => {
+    let server: FakeServer | null = null;
+    let client: RedisClient | null = null;
+
+    afterEach(async () => {
+        client?.close();
+        await server?.close();
+        client = null;
+        server = null;
+    });
+
+    it('sends commands and reads their replies', async () => {
+        server = await startServer(args => args[0] === 'PING' ? '+PONG\r\n' : ':3\r\n');
+        client = createRedisClient(server.url);
+
+        expect(await client.command(['PING'])).toBe('PONG');
+        expect(await client.command(['INCR', 'key'])).toBe(3);
+        expect(server.commands).toEqual([['PING'], ['INCR', 'key']]);
+    });
+
+    it('reassembles replies split across chunks', async () => {
+        server = await startServer((_args, socket) => {
+            const reply = '*2\r\n$5\r\nhello\r\n:7\r\n';
+            reply.split('').forEach((char, i) => setTimeout(() => socket.write(char), i));
+            return null;
+        });
+        client = createRedisClient(server.url);
+
+        expect(await client.command(['GET', 'key'])).toEqual(['hello', 7]);
+    });
+
+    it('throws error replies', async () => {
+        server = await startServer(() => '-ERR wrong number of arguments\r\n');
+        client = createRedisClient(server.url);
+
+        await expect(client.command(['GET'])).rejects.toThrow(RedisReplyError);
+    });
+
+    it('returns the EXEC reply of a transaction', async () => {
+        server = await startServer((args) => {
+            if (args[0] === 'MULTI') return '+OK\r\n';
+            if (args[0] === 'EXEC') return '*2\r\n:1\r\n:1000\r\n';
+            return '+QUEUED\r\n';
+        });
+        client = createRedisClient(server.url);
+
+        expect(await client.transaction([['INCR', 'key'], ['PTTL', 'key']])).toEqual([1, 1000]);
+        expect(server.commands.map(args => args[0])).toEqual(['MULTI', 'INCR', 'PTTL', 'EXEC']);
+    });
+
+    it('rejects aborted transactions', async () => {
+        server = await startServer((args) => {
+            if (args[0] === 'MULTI') return '+OK\r\n';
+            if (args[0] === 'EXEC') return '-EXECABORT Transaction discarded\r\n';
+            return '-ERR unknown command\r\n';
+        });
+        client = createRedisClient(server.url);
+
+        await expect(client.transaction([['NOPE']])).rejects.toThrow('EXECABORT');
+    });
+
+    it('authenticates and selects the database before the first command', async () => {
+        server = await startServer(args => args[0] === 'GET' ? '$-1\r\n' : '+OK\r\n');
+        client = createRedisClient(server.url.replace('redis://', 'redis://user:p%40ss@') + '/2');
+
+        expect(await client.command(['GET', 'key'])).toBeNull();
+        expect(server.commands).toEqual([['AUTH', 'user', 'p@ss'], ['SELECT', '2'], ['GET', 'key']]);
+    });
+
+    it('reconnects on the next command after the connection drops', async () => {
+        let dropped = false;
+        server = await startServer((_args, socket) => {
+            if (!dropped) {
+                dropped = true;
+                socket.destroy();
+                return null;
+            }
+            return '+PONG\r\n';
+        });
+        client = createRedisClient(server.url);
+
+        await expect(client.command(['PING'])).rejects.toThrow('Connection closed');
+        expect(await client.command(['PING'])).toBe('PONG');
+        expect(server.connections).toBe(2);
+    });
+
+    it('fails commands that get no reply in time', async () => {
+        server = await startServer(() => null);
+        client = createRedisClient(server.url, { commandTimeoutMs: 50 });
+
+        await expect(client.command(['PING'])).rejects.toThrow('timed out');
+    });
+
+    it('fails when the server is unreachable', async () => {
+        server = await startServer(() => '+OK\r\n');
+        const { url } = server;
+        await server.close();
+        server = null;
+        client = createRedisClient(url);
+
+        await expect(client.command(['PING'])).rejects.toThrow();
+    });
+});
@@ -0,0 +1,222 @@
+// Minimal client for the Redis protocol (RESP2), enough for counters and transactions.
+// Works with Redis, Valkey, Dragonfly, KeyDB, ... over redis:// or rediss:// (TLS).
+//
+// One connection per client, opened lazily and re-opened on the next command after it drops.
+// Commands are pipelined: replies arrive in the order the commands were written.
+
+import net from 'node:net';
+import tls from 'node:tls';
+
+export type RedisArg = string | number;
+
+export type RedisReply = string | number | null | RedisReplyError | RedisReply[];
+
+// An error reply from the server (-ERR ...)
+export class RedisReplyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RedisReplyError';
+    }
+}
+
+export type RedisClientOptions = {
+    connectTimeoutMs?: number;
+    commandTimeoutMs?: number;
+};
+
+export type RedisClient = {
+    // Send one command and wait for its reply
+    command: (args: RedisArg[]) => Promise<RedisReply>;
+    // Run commands atomically (MULTI ... EXEC); resolves to the reply of each command
+    transaction: (commands: RedisArg[][]) => Promise<RedisReply[]>;
+    close: () => void;
+};
+
+type PendingBatch = {
+    replies: RedisReply[];
+    expected: number;
+    resolve: (replies: RedisReply[]) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+};
+
+export type ParsedReply = { value: RedisReply; end: number };
+
+const CRLF = '\r\n';
+
+export function encodeCommand(args: RedisArg[]): string {
+    let out = `*${args.length}${CRLF}`;
+    for (const arg of args) {
+        const value = String(arg);
+        out += `$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`;
+    }
+    return out;
+}
+
+// Parse one reply starting at `start`; null when the buffer doesn't hold all of it yet
+export function parseReply(buffer: Buffer, start: number): ParsedReply | null {
+    const lineEnd = buffer.indexOf(CRLF, start);
+    if (lineEnd < 0) return null;
+
+    const prefix = String.fromCharCode(buffer[start]);
+    const line = buffer.toString('utf8', start + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (prefix) {
+        case '+':
+            return { value: line, end: next };
+        case '-':
+            return { value: new RedisReplyError(line), end: next };
+        case ':':
+            return { value: Number(line), end: next };
+        case '$': {
+            const length = Number(line);
+            if (length < 0) return { value: null, end: next };
+            if (buffer.length < next + length + 2) return null;
+            return { value: buffer.toString('utf8', next, next + length), end: next + length + 2 };
+        }
+        case '*': {
+            const count = Number(line);
+            if (count < 0) return { value: null, end: next };
+            const items: RedisReply[] = [];
+            let position = next;
+            for (let i = 0; i < count; i++) {
+                const item = parseReply(buffer, position);
+                if (!item) return null;
+                items.push(item.value);
+                position = item.end;
+            }
+            return { value: items, end: position };
+        }
+        default:
+            throw new Error(`[Redis] Protocol error: unexpected reply type "${prefix}"`);
+    }
+}
+
+export function createRedisClient(url: string, options: RedisClientOptions = {}): RedisClient {
+    const { connectTimeoutMs = 2000, commandTimeoutMs = 1000 } = options;
+    const target = new URL(url);
+    const secure = target.protocol === 'rediss:';
+    const host = target.hostname || 'localhost';
+    const port = Number(target.port) || 6379;
+    const database = Number(target.pathname.slice(1)) || 0;
+    const username = decodeURIComponent(target.username);
+    const password = decodeURIComponent(target.password);
+
+    let socket: net.Socket | null = null;
+    let ready: Promise<net.Socket> | null = null;
+    let buffer: Buffer = Buffer.alloc(0);
+    const pending: PendingBatch[] = [];
+
+    const failPending = (error: Error) => {
+        for (const batch of pending.splice(0)) {
+            clearTimeout(batch.timer);
+            batch.reject(error);
+        }
+    };
+
+    const onData = (chunk: Buffer) => {
+        buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk]);
+        let offset = 0;
+        try {
+            while (offset < buffer.length && pending.length > 0) {
+                const parsed = parseReply(buffer, offset);
+                if (!parsed) break;
+                offset = parsed.end;
+
+                const batch = pending[0];
+                batch.replies.push(parsed.value);
+                if (batch.replies.length === batch.expected) {
+                    pending.shift();
+                    clearTimeout(batch.timer);
+                    batch.resolve(batch.replies);
+                }
+            }
+        } catch (error) {
+            // Out of sync with the server; drop the connection and start over
+            socket?.destroy(error instanceof Error ? error : new Error(String(error)));
+            return;
+        }
+        buffer = buffer.subarray(offset);
+    };
+
+    // Write a batch of commands as one chunk so nothing interleaves with it
+    const dispatch = (conn: net.Socket, commands: RedisArg[][]): Promise<RedisReply[]> =>
+        new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                // A late reply would be matched to the wrong command, so the connection is unusable
+                conn.destroy(new Error(`[Redis] Command timed out after ${commandTimeoutMs}ms`));
+            }, commandTimeoutMs);
+            pending.push({ replies: [], expected: commands.length, resolve, reject, timer });
+            conn.write(commands.map(encodeCommand).join(''));
+        });
+
+    const connect = (): Promise<net.Socket> => {
+        if (ready) return ready;
+
+        ready = new Promise<net.Socket>((resolve, reject) => {
+            const conn = secure
+                ? tls.connect({ host, port, servername: host })
+                : net.connect({ host, port });
+            conn.setNoDelay(true);
+            conn.setTimeout(connectTimeoutMs, () => conn.destroy(new Error('[Redis] Connection timed out')));
+
+            let lastError: Error | null = null;
+            conn.on('data', onData);
+            conn.on('error', (error) => { lastError = error; });
+            conn.on('close', () => {
+                if (socket === conn) socket = null;
+                ready = null;
+                buffer = Buffer.alloc(0);
+                failPending(lastError || new Error('[Redis] Connection closed'));
+                reject(lastError || new Error('[Redis] Connection closed'));
+            });
+
+            conn.once(secure ? 'secureConnect' : 'connect', async () => {
+                conn.setTimeout(0);
+                try {
+                    const handshake: RedisArg[][] = [];
+                    if (password) handshake.push(username ? ['AUTH', username, password] : ['AUTH', password]);
+                    if (database) handshake.push(['SELECT', database]);
+                    if (handshake.length > 0) {
+                        const error = (await dispatch(conn, handshake)).find(r => r instanceof RedisReplyError);
+                        if (error) throw error;
+                    }
+                    socket = conn;
+                    resolve(conn);
+                } catch (error) {
+                    conn.destroy(error instanceof Error ? error : new Error(String(error)));
+                }
+            });
+        });
+        return ready;
+    };
+
+    const send = async (commands: RedisArg[][]): Promise<RedisReply[]> => {
+        const conn = socket || await connect();
+        return dispatch(conn, commands);
+    };
+
+    return {
+        command: async (args) => {
+            const [reply] = await send([args]);
+            if (reply instanceof RedisReplyError) throw reply;
+            return reply;
+        },
+
+        transaction: async (commands) => {
+            const replies = await send([['MULTI'], ...commands, ['EXEC']]);
+            const exec = replies[replies.length - 1];
+            // EXEC fails as a whole (e.g. EXECABORT) or returns null when the transaction was discarded
+            if (exec instanceof RedisReplyError) throw exec;
+            if (!Array.isArray(exec)) throw new RedisReplyError('Transaction aborted');
+            return exec;
+        },
+
+        close: () => {
+            socket?.destroy();
+            socket = null;
+            ready = null;
+        },
+    };
+}
@@ -0,0 +1,53 @@
+import { stopPipelineWatcher } from '@/lib/pipelineWatcher';
+import { deleteSession, listExpiredSessionIds } from '@/lib/sessionStore';
+import { createVRChatClient, forgetAccountId } from '@/lib/vrchat';
+import { VRChatPriority } from '@/lib/vrchatScheduler';
+
+// How often sessions that expired from inactivity are ended
+const EXPIRED_SESSION_SWEEP_MS = 60 * 60 * 1000;
+
+// Keep one sweep timer across hot reloads in development
+const globalForRevocation = globalThis as { expiredSessionSweep?: ReturnType<typeof setInterval> };
+
+// Ending a login session (logout, or revoking it from the session list):
+// the record is dropped first so the session stops working right away, then the
+// background pipeline connection is closed and the VRChat token invalidated.
+// Returns false when there was no such session.
+export async function endSession(id: string, priority: VRChatPriority = 'interactive'): Promise<boolean> {
+    const ended = deleteSession(id);
+    if (!ended) return false;
+
+    stopPipelineWatcher(ended.session.authToken);
+    forgetAccountId(ended.session.authToken);
+    try {
+        await createVRChatClient(ended.session, { priority }).logout();
+    } catch (error) {
+        // Log error; the session is gone on our side either way
+        console.error('[Sessions] Failed to logout from VRChat API:', error);
+    }
+    return true;
+}
+
+// End sessions that expired from inactivity the same way, so their pipeline watchers stop
+// too. Nobody is waiting on these, so the VRChat logouts go out as background requests.
+export async function endExpiredSessions(): Promise<number> {
+    const ids = listExpiredSessionIds();
+    const ended = await Promise.all(ids.map(id => endSession(id, 'background')));
+    return ended.filter(Boolean).length;
+}
+
+// Run endExpiredSessions now and then every EXPIRED_SESSION_SWEEP_MS
+export function startExpiredSessionSweep(): void {
+    const sweep = () => {
+        endExpiredSessions()
+            .then((count) => {
+                if (count > 0) console.log(`[Sessions] Ended ${count} expired session(s)`);
+            })
+            .catch((error: unknown) => console.error('[Sessions] Failed to end expired sessions:', error));
+    };
+
+    if (globalForRevocation.expiredSessionSweep) clearInterval(globalForRevocation.expiredSessionSweep);
+    globalForRevocation.expiredSessionSweep = setInterval(sweep, EXPIRED_SESSION_SWEEP_MS);
+    globalForRevocation.expiredSessionSweep.unref?.();
+    sweep();
+}
@@ -0,0 +1,71 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+    completeSession,
+    createSession,
+    getSessionAccountId,
+    getSessionId,
+    getStoredSession,
+    listActiveSessions,
+    listExpiredSessionIds,
+    listSessions,
+} from '@/lib/sessionStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let userSeq = 0;
+
+// A completed login for a new account; returns its cookie token and user ID
+function login() {
+    const userId = `usr_session_${++userSeq}`;
+    const token = createSession({ authToken: `authcookie_${userSeq}` }, 'test');
+    completeSession(token, { authToken: `authcookie_${userSeq}` }, { id: userId, displayName: 'Test' });
+    return { token, userId };
+}
+
+beforeAll(() => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vrcs-sessions-'));
+    process.env.SESSION_DB_PATH = path.join(dir, 'sessions.db');
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('session expiry', () => {
+    it('keeps a session that is used', () => {
+        vi.useFakeTimers();
+        const { token, userId } = login();
+
+        vi.advanceTimersByTime(20 * DAY_MS);
+        expect(getStoredSession(token)?.userId).toBe(userId);
+        // Using it pushes the expiry back
+        vi.advanceTimersByTime(20 * DAY_MS);
+        expect(getSessionAccountId(token)).toBe(userId);
+        expect(listExpiredSessionIds()).not.toContain(getSessionId(token));
+    });
+
+    it('ends a session left unused for 30 days everywhere it is looked up', () => {
+        vi.useFakeTimers();
+        const { token, userId } = login();
+        expect(getSessionAccountId(token)).toBe(userId);
+
+        vi.advanceTimersByTime(30 * DAY_MS);
+        expect(getSessionAccountId(token)).toBeNull();
+        expect(getStoredSession(token)).toBeNull();
+        expect(listSessions(userId)).toEqual([]);
+        expect(listActiveSessions().map(stored => stored.userId)).not.toContain(userId);
+        // Kept until endExpiredSessions ends it
+        expect(listExpiredSessionIds()).toContain(getSessionId(token));
+    });
+
+    it('does not list logins still waiting for 2FA as expired', () => {
+        vi.useFakeTimers();
+        const token = createSession({ authToken: 'authcookie_pending' }, 'test');
+
+        vi.advanceTimersByTime(30 * DAY_MS);
+        expect(listExpiredSessionIds()).not.toContain(getSessionId(token));
+    });
+});
@@ -0,0 +1,334 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { VRChatSession } from '@/lib/vrchat';
+
+// Server-side login sessions.
+//
+// The browser only holds an opaque random token (SESSION_COOKIE). The VRChat tokens it stands
+// for live here, encrypted with AES-256-GCM under a key derived from SESSION_SECRET, next to
+// the account and some bookkeeping for the session list. Rows are keyed by a hash of the
+// token, so the database alone can't be used to impersonate anyone.
+//
+// A session is created at login, before 2FA; userId is only filled in once VRChat has
+// accepted the login, so a session without one is not logged in yet. Until then its token
+// sits in PENDING_SESSION_COOKIE, so an abandoned login leaves the browser's accounts alone.
+//
+// A browser can be logged in to several accounts: SESSION_COOKIE lists one token per
+// account, separated by ".", and the first one is the active account.
+
+export const SESSION_COOKIE = 'vrcs_session';
+export const PENDING_SESSION_COOKIE = 'vrcs_pending';
+
+// Accounts one browser can be logged in to at once
+export const MAX_ACCOUNTS = 5;
+
+// How long a login may wait for 2FA
+const PENDING_MAX_AGE_MS = 15 * 60 * 1000;
+
+// Cookie lifetime, and how long an unused session is kept
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// last_used_at is only written when it is at least this old
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export type SessionInfo = {
+    // Hash of the session token; safe to show and to revoke by
+    id: string;
+    userId: string | null;
+    displayName: string | null;
+    userAgent: string | null;
+    createdAt: number;
+    lastUsedAt: number;
+};
+
+export type StoredSession = SessionInfo & {
+    session: VRChatSession;
+};
+
+type SessionRow = {
+    id: string;
+    tokens: string;
+    user_id: string | null;
+    display_name: string | null;
+    user_agent: string | null;
+    created_at: number;
+    last_used_at: number;
+};
+
+type SessionState = {
+    db: Database.Database | undefined;
+    key: Buffer | undefined;
+};
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        tokens TEXT NOT NULL,
+        user_id TEXT,
+        display_name TEXT,
+        user_agent TEXT,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions (user_id);
+`;
+
+// Keep one connection (and the per-process key) across hot reloads in development
+const globalForSessions = globalThis as { sessionStore?: SessionState };
+
+const state: SessionState = globalForSessions.sessionStore ??= {
+    db: undefined,
+    key: undefined,
+};
+
+function getDb(): Database.Database {
+    if (!state.db) {
+        const dbPath = path.resolve(getConfig().sessionDbPath);
+        fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+        const db = new Database(dbPath);
+        db.pragma('journal_mode = WAL');
+        db.exec(SCHEMA);
+        state.db = db;
+    }
+    return state.db;
+}
+
+function getKey(): Buffer {
+    if (!state.key) {
+        const secret = getConfig().sessionSecret;
+        state.key = secret ? createHash('sha256').update(secret).digest() : randomBytes(32);
+    }
+    return state.key;
+}
+
+// Row id of a session token
+export const getSessionId = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// iv | auth tag | ciphertext, base64url
+function seal(value: VRChatSession): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+}
+
+// null when the value was sealed with another key or tampered with
+function unseal(sealed: string): VRChatSession | null {
+    try {
+        const data = Buffer.from(sealed, 'base64url');
+        const decipher = createDecipheriv('aes-256-gcm', getKey(), data.subarray(0, 12));
+        decipher.setAuthTag(data.subarray(12, 28));
+        const json = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+        const value: unknown = JSON.parse(json);
+        if (typeof value !== 'object' || value === null) return null;
+        const { authToken, twoFactorAuth } = value as { authToken?: unknown; twoFactorAuth?: unknown };
+        if (typeof authToken !== 'string') return null;
+        return { authToken, twoFactorAuth: typeof twoFactorAuth === 'string' ? twoFactorAuth : undefined };
+    } catch {
+        return null;
+    }
+}
+
+const toInfo = (row: SessionRow): SessionInfo => ({
+    id: row.id,
+    userId: row.user_id,
+    displayName: row.display_name,
+    userAgent: row.user_agent,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+});
+
+const isExpired = (row: Pick<SessionRow, 'last_used_at'>, now: number) => now - row.last_used_at >= SESSION_MAX_AGE_MS;
+
+// Logins abandoned at 2FA. Expired logged-in sessions are left to endExpiredSessions
+// (lib/sessionRevocation.ts), which also stops their pipeline watchers.
+function cleanupAbandonedLogins(db: Database.Database, now: number): void {
+    db.prepare('DELETE FROM sessions WHERE user_id IS NULL AND created_at < ?').run(now - PENDING_MAX_AGE_MS);
+}
+
+// Store a new session; returns the token for the session cookie
+export function createSession(session: VRChatSession, userAgent: string | null): string {
+    const db = getDb();
+    const now = Date.now();
+
+    // Clean up abandoned logins periodically
+    if (Math.random() < 0.01) {
+        cleanupAbandonedLogins(db, now);
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    db.prepare(`
+        INSERT INTO sessions (id, tokens, user_agent, created_at, last_used_at)
+        VALUES (?, ?, ?, ?, ?)
+    `).run(getSessionId(token), seal(session), userAgent?.slice(0, 200) ?? null, now, now);
+    return token;
+}
+
+// Session behind a token, or null when unknown, expired or unreadable with our key
+export function getStoredSession(token: string): StoredSession | null {
+    const db = getDb();
+    const id = getSessionId(token);
+    const row = db.prepare('SELECT * FROM sessions WHERE id = ?').get(id) as SessionRow | undefined;
+    if (!row) return null;
+
+    const now = Date.now();
+    if (isExpired(row, now)) return null;
+
+    // Sealed with another key (a previous SESSION_SECRET, or another process's random one).
+    // Left in place: this process can't use it, but it isn't ours to throw away either;
+    // it expires like any other session.
+    const session = unseal(row.tokens);
+    if (!session) return null;
+
+    if (now - row.last_used_at >= TOUCH_INTERVAL_MS) {
+        db.prepare('UPDATE sessions SET last_used_at = ? WHERE id = ?').run(now, id);
+        row.last_used_at = now;
+    }
+    return { ...toInfo(row), session };
+}
+
+// When a session ends if it goes unused from now on
+export const getSessionExpiry = (info: SessionInfo) => info.lastUsedAt + SESSION_MAX_AGE_MS;
+
+// Verified account of a session without touching it (null while 2FA is pending or once expired)
+export function getSessionAccountId(token: string): string | null {
+    const row = getDb().prepare('SELECT user_id, last_used_at FROM sessions WHERE id = ?')
+        .get(getSessionId(token)) as Pick<SessionRow, 'user_id' | 'last_used_at'> | undefined;
+    if (!row || isExpired(row, Date.now())) return null;
+    return row.user_id;
+}
+
+// Record a completed login (and any tokens VRChat issued with it)
+export function completeSession(token: string, session: VRChatSession, user: { id: string; displayName: string }): void {
+    getDb().prepare('UPDATE sessions SET tokens = ?, user_id = ?, display_name = ?, last_used_at = ? WHERE id = ?')
+        .run(seal(session), user.id, user.displayName, Date.now(), getSessionId(token));
+}
+
+// Sessions of an account that have not expired, most recently used first
+export function listSessions(userId: string): SessionInfo[] {
+    const rows = getDb().prepare('SELECT * FROM sessions WHERE user_id = ? AND last_used_at > ? ORDER BY last_used_at DESC')
+        .all(userId, Date.now() - SESSION_MAX_AGE_MS) as SessionRow[];
+    return rows.map(toInfo);
+}
+
+// Logged-in sessions that have not expired, e.g. to resume their pipeline watchers after a
+// restart. Doesn't count as use: only requests from the browser keep a session alive.
+export function listActiveSessions(): StoredSession[] {
+    const rows = getDb().prepare('SELECT * FROM sessions WHERE user_id IS NOT NULL AND last_used_at > ?')
+        .all(Date.now() - SESSION_MAX_AGE_MS) as SessionRow[];
+    return rows.flatMap(row => {
+        const session = unseal(row.tokens);
+        return session ? [{ ...toInfo(row), session }] : [];
+    });
+}
+
+// Ids of logged-in sessions that went unused for too long, for endExpiredSessions
+export function listExpiredSessionIds(): string[] {
+    const rows = getDb().prepare('SELECT id FROM sessions WHERE user_id IS NOT NULL AND last_used_at <= ?')
+        .all(Date.now() - SESSION_MAX_AGE_MS) as Pick<SessionRow, 'id'>[];
+    return rows.map(row => row.id);
+}
+
+// Remove a session by id; returns what it held so the caller can log out of VRChat too
+export function deleteSession(id: string): StoredSession | null {
+    const db = getDb();
+    const row = db.prepare('SELECT * FROM sessions WHERE id = ?').get(id) as SessionRow | undefined;
+    if (!row) return null;
+    db.prepare('DELETE FROM sessions WHERE id = ?').run(id);
+    const session = unseal(row.tokens);
+    return session ? { ...toInfo(row), session } : null;
+}
+
+// Tokens listed in a SESSION_COOKIE value, active account first
+export function parseSessionCookie(value: string | undefined): string[] {
+    if (!value) return [];
+    const tokens = value.split('.').filter(token => /^[A-Za-z0-9_-]{43}$/.test(token));
+    return Array.from(new Set(tokens)).slice(0, MAX_ACCOUNTS);
+}
+
+// Session tokens from the request cookies, active account first
+export async function getSessionTokens(): Promise<string[]> {
+    const cookieStore = await cookies();
+    return parseSessionCookie(cookieStore.get(SESSION_COOKIE)?.value);
+}
+
+// Token of the login waiting for 2FA
+export async function getPendingSessionToken(): Promise<string | null> {
+    const cookieStore = await cookies();
+    return cookieStore.get(PENDING_SESSION_COOKIE)?.value || null;
+}
+
+// Session of the current request: the active account, or the next one still valid
+export async function getCurrentSession(): Promise<StoredSession | null> {
+    for (const token of await getSessionTokens()) {
+        const stored = getStoredSession(token);
+        if (stored) return stored;
+    }
+    return null;
+}
+
+// Logged-in accounts of this browser, active first, with the token of each
+export async function getBrowserSessions(): Promise<(StoredSession & { token: string })[]> {
+    const sessions: (StoredSession & { token: string })[] = [];
+    for (const token of await getSessionTokens()) {
+        const stored = getStoredSession(token);
+        if (stored?.userId) sessions.push({ ...stored, token });
+    }
+    return sessions;
+}
+
+// Session of one of this browser's accounts, by VRChat user ID
+export async function getAccountSession(accountId: string): Promise<StoredSession | null> {
+    const sessions = await getBrowserSessions();
+    return sessions.find(session => session.userId === accountId) ?? null;
+}
+
+// Add a completed login as the active account. An older session of the same account is
+// dropped, as is the least recently active one beyond MAX_ACCOUNTS; returns the new
+// token list and the ids of the dropped sessions for the caller to end.
+export function addAccountToken(tokens: string[], token: string, userId: string): { tokens: string[]; replaced: string[] } {
+    const kept: string[] = [];
+    const replaced: string[] = [];
+    tokens.filter(other => other !== token).forEach(other => {
+        if (getSessionAccountId(other) === userId || kept.length >= MAX_ACCOUNTS - 1) {
+            replaced.push(getSessionId(other));
+        } else {
+            kept.push(other);
+        }
+    });
+    return { tokens: [token, ...kept], replaced };
+}
+
+// Write the account list (active first); an empty list removes the cookie
+export function setSessionCookie(response: NextResponse, tokens: string[]): void {
+    if (tokens.length === 0) {
+        response.cookies.delete(SESSION_COOKIE);
+        return;
+    }
+    response.cookies.set({
+        name: SESSION_COOKIE,
+        value: tokens.join('.'),
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        sameSite: 'strict',
+        maxAge: SESSION_MAX_AGE_MS / 1000,
+    });
+}
+
+export function setPendingSessionCookie(response: NextResponse, token: string): void {
+    response.cookies.set({
+        name: PENDING_SESSION_COOKIE,
+        value: token,
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        sameSite: 'strict',
+        maxAge: PENDING_MAX_AGE_MS / 1000,
+    });
+}
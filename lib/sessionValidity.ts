@@ -0,0 +1,63 @@
+import { createVRChatClient, VRChatApiError, VRChatSession } from '@/lib/vrchat';
+
+// Whether VRChat still accepts a session, for GET /api/auth/session.
+//
+// Checked with GET /auth, which only looks at the auth token. Results are kept for a short
+// while and concurrent checks share one request, so every open tab polling costs at most
+// one VRChat call per session and interval. Anything other than a 401 (VRChat down, rate
+// limited) is thrown rather than reported as expired.
+
+export type SessionValidity = {
+    valid: boolean;
+    checkedAt: number;
+};
+
+const CHECK_TTL_MS = 30 * 1000;
+
+type ValidityState = {
+    results: Map<string, SessionValidity>;
+    inFlight: Map<string, Promise<SessionValidity>>;
+};
+
+// Keyed by auth token; survives hot reloads in development
+const globalForSessionValidity = globalThis as { sessionValidity?: ValidityState };
+
+const state: ValidityState = globalForSessionValidity.sessionValidity ??= {
+    results: new Map(),
+    inFlight: new Map(),
+};
+
+async function verify(session: VRChatSession): Promise<SessionValidity> {
+    try {
+        const result = await createVRChatClient(session, { priority: 'interactive' }).verifyAuthToken();
+        return { valid: result.ok, checkedAt: Date.now() };
+    } catch (error: unknown) {
+        if (error instanceof VRChatApiError && error.status === 401) {
+            return { valid: false, checkedAt: Date.now() };
+        }
+        throw error;
+    }
+}
+
+export async function checkSessionValidity(session: VRChatSession): Promise<SessionValidity> {
+    const key = session.authToken;
+    const cached = state.results.get(key);
+    if (cached && Date.now() - cached.checkedAt < CHECK_TTL_MS) return cached;
+
+    let pending = state.inFlight.get(key);
+    if (!pending) {
+        pending = verify(session)
+            .then((result) => {
+                // Drop results nobody asked about lately (ended sessions)
+                state.results.forEach((old, oldKey) => {
+                    if (result.checkedAt - old.checkedAt >= CHECK_TTL_MS) state.results.delete(oldKey);
+                });
+                state.results.set(key, result);
+                return result;
+            })
+            .finally(() => state.inFlight.delete(key));
+        state.inFlight.set(key, pending);
+    }
+    return pending;
+}
+
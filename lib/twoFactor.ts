@@ -0,0 +1,75 @@
+// 2FA methods offered by VRChat at login (requiresTwoFactorAuth) and their code formats.
+// Shared by /api/auth/verify and the login page, so it must stay free of server-only imports.
+
+// Names as VRChat lists them in requiresTwoFactorAuth
+export const TWO_FACTOR_METHODS = ['totp', 'emailOtp', 'otp'] as const;
+
+export type TwoFactorMethod = typeof TWO_FACTOR_METHODS[number];
+
+export type TwoFactorMethodInfo = {
+    label: string;
+    hint: string;
+    placeholder: string;
+    // POST /auth/twofactorauth/{endpoint}/verify
+    endpoint: 'totp' | 'emailotp' | 'otp';
+    // Accepted code after normalizeTwoFactorCode
+    pattern: RegExp;
+    // Characters the input allows before normalization (separators included)
+    maxInputLength: number;
+    numeric: boolean;
+};
+
+export const TWO_FACTOR_METHOD_INFO: Record<TwoFactorMethod, TwoFactorMethodInfo> = {
+    totp: {
+        label: 'Authenticator',
+        hint: 'Enter the 6-digit code from your authenticator app.',
+        placeholder: '000000',
+        endpoint: 'totp',
+        pattern: /^\d{6}$/,
+        maxInputLength: 6,
+        numeric: true,
+    },
+    emailOtp: {
+        label: 'Email',
+        hint: 'Enter the 6-digit code VRChat sent to your email.',
+        placeholder: '000000',
+        endpoint: 'emailotp',
+        pattern: /^\d{6}$/,
+        maxInputLength: 6,
+        numeric: true,
+    },
+    // Recovery codes shown when 2FA was set up; each works once
+    otp: {
+        label: 'Recovery code',
+        hint: 'Enter one of your 8-character recovery codes.',
+        placeholder: 'xxxx-xxxx',
+        endpoint: 'otp',
+        pattern: /^[a-z0-9]{8}$/,
+        maxInputLength: 9,
+        numeric: false,
+    },
+};
+
+export function isTwoFactorMethod(value: unknown): value is TwoFactorMethod {
+    return typeof value === 'string' && (TWO_FACTOR_METHODS as readonly string[]).includes(value);
+}
+
+// Known methods from a requiresTwoFactorAuth list, in our preferred order (totp first)
+export function parseTwoFactorMethods(value: unknown): TwoFactorMethod[] {
+    if (!Array.isArray(value)) return [];
+    // VRChat has used both "emailOtp" and "emailotp"
+    const listed = value.filter((item): item is string => typeof item === 'string').map(item => item.toLowerCase());
+    return TWO_FACTOR_METHODS.filter(method => listed.includes(method.toLowerCase()));
+}
+
+// Half-width, no separators or spaces; digits only for numeric codes, lowercase otherwise
+export function normalizeTwoFactorCode(method: TwoFactorMethod, input: string): string {
+    const halfWidth = input.replace(/[０-９Ａ-Ｚａ-ｚ]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0xFEE0));
+    return TWO_FACTOR_METHOD_INFO[method].numeric
+        ? halfWidth.replace(/[^0-9]/g, '')
+        : halfWidth.replace(/[^0-9a-z]/gi, '').toLowerCase();
+}
+
+export function isValidTwoFactorCode(method: TwoFactorMethod, code: string): boolean {
+    return TWO_FACTOR_METHOD_INFO[method].pattern.test(code);
+}
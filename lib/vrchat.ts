@@ -1,21 +1,465 @@
-// Utility file for VRChat API configuration
-// Note: Currently we are initializing API instances directly in route handlers
-// to avoid import/export quirks with the 'vrchat' package version.
-
-/*
-export const getVRChatConfig = (username?: string, password?: string) => {
-    const Configuration = (vrchat as any).Configuration || (vrchat as any).default?.Configuration;
-    
-    if (!Configuration) return {};
-
-    return new Configuration({
-        username,
-        password,
-        baseOptions: {
-            headers: {
-                'User-Agent': 'VRC Social/1.0.0'
-            }
+import { NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { InviteMessage, InviteMessageType } from '@/lib/invites';
+import { PipelineNotification, PipelineNotificationV2 } from '@/lib/pipelineEvents';
+import { ProfileUpdate } from '@/lib/profile';
+import { getAccountSession, getCurrentSession } from '@/lib/sessionStore';
+import { TWO_FACTOR_METHOD_INFO, TwoFactorMethod } from '@/lib/twoFactor';
+import { scheduleVRChatRequest, VRChatPriority, VRChatQueueError } from '@/lib/vrchatScheduler';
+
+// Shared VRChat API client.
+// Every route talks to VRChat through this module so that headers, cookie
+// handling and error mapping live in one place.
+
+// User-Agent: Specific format required by VRChat API (AppName/Version Contact)
+// Even if not strictly documented in some places, it is enforced by their WAF.
+export const USER_AGENT = 'VRCSocial/1.0.0 (GitHub: vrcsocial-dev)';
+
+type HeadersWithSetCookie = Headers & {
+    getSetCookie?: () => string[];
+};
+
+// Types
+export type VRChatSession = {
+    authToken: string;
+    twoFactorAuth?: string;
+};
+
+export type VrcFriend = {
+    id: string;
+    displayName: string;
+    status?: string;
+    statusDescription?: string;
+    userIcon?: string;
+    profilePicOverride?: string;
+    currentAvatarThumbnailImageUrl?: string;
+    currentAvatarImageUrl?: string;
+    location: string;
+    last_login?: string;
+    last_activity?: string;
+};
+
+export type VrcFavorite = {
+    favoriteId: string;
+    tags?: string[];
+};
+
+export type VrcUser = {
+    id: string;
+    displayName: string;
+    state?: string;
+    status?: string;
+    statusDescription?: string;
+    bio?: string;
+    bioLinks?: string[];
+    tags?: string[];
+    location?: string;
+    userIcon?: string;
+    profilePicOverride?: string;
+    currentAvatarThumbnailImageUrl?: string;
+    currentAvatarImageUrl?: string;
+    isFriend?: boolean;
+    last_login?: string;
+    last_activity?: string;
+    date_joined?: string;
+};
+
+export type VrcCurrentUser = VrcUser & {
+    requiresTwoFactorAuth?: string[];
+    // Home world ID (wrld_xxx)
+    homeLocation?: string;
+    // Where the user is in game (location is often empty for the current user)
+    presence?: {
+        world?: string;
+        instance?: string;
+    };
+};
+
+export type VrcWorld = {
+    id?: string;
+    name?: string;
+    description?: string;
+    authorId?: string;
+    authorName?: string;
+    thumbnailImageUrl?: string;
+    imageUrl?: string;
+    capacity?: number;
+    recommendedCapacity?: number;
+    occupants?: number;
+    publicOccupants?: number;
+    privateOccupants?: number;
+    tags?: string[];
+    releaseStatus?: string;
+    favorites?: number;
+    visits?: number;
+    popularity?: number;
+    heat?: number;
+};
+
+export type VrcGroup = {
+    id?: string;
+    name?: string;
+    // Current user's membership: member, inactive, requested, invited, banned, ...
+    membershipStatus?: string;
+};
+
+export type VrcInstance = {
+    n_users?: number;
+    userCount?: number;
+};
+
+// Same shapes as the pipeline 'notification' / 'notification-v2' payloads
+export type VrcNotification = PipelineNotification;
+
+export type VrcNotificationV2 = PipelineNotificationV2;
+
+export type VrcVerifyResult = {
+    verified: boolean;
+    setCookies: string[];
+};
+
+// GET /auth: whether the auth token is still accepted
+export type VrcAuthTokenCheck = {
+    ok: boolean;
+    token?: string;
+};
+
+// Error raised for any failed VRChat call (non-2xx, unreachable, bad payload)
+export class VRChatApiError extends Error {
+    readonly status: number;
+    readonly path: string;
+
+    constructor(status: number, path: string, message: string) {
+        super(message);
+        this.name = 'VRChatApiError';
+        this.status = status;
+        this.path = path;
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+const parseFriendArray = (value: unknown): VrcFriend[] => {
+    if (!Array.isArray(value)) return [];
+    return value.filter((item): item is VrcFriend =>
+        isObject(item) && typeof item.id === 'string' && typeof item.displayName === 'string' && typeof item.location === 'string'
+    );
+};
+
+const parseFavoriteArray = (value: unknown): VrcFavorite[] => {
+    if (!Array.isArray(value)) return [];
+    return value.filter((item): item is VrcFavorite =>
+        isObject(item) && typeof item.favoriteId === 'string'
+    );
+};
+
+const parseNotificationArray = (value: unknown): VrcNotification[] => {
+    if (!Array.isArray(value)) return [];
+    return value.filter((item): item is VrcNotification =>
+        isObject(item) && typeof item.id === 'string' && typeof item.type === 'string'
+    );
+};
+
+const parseNotificationV2Array = (value: unknown): VrcNotificationV2[] => {
+    if (!Array.isArray(value)) return [];
+    return value.filter((item): item is VrcNotificationV2 =>
+        isObject(item) && typeof item.id === 'string' && typeof item.type === 'string'
+    );
+};
+
+const parseInviteMessageArray = (value: unknown): InviteMessage[] => {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter((item): item is Record<string, unknown> =>
+            isObject(item) && typeof item.slot === 'number' && typeof item.message === 'string'
+        )
+        .map(item => ({
+            slot: item.slot as number,
+            message: item.message as string,
+            remainingCooldownMinutes: typeof item.remainingCooldownMinutes === 'number' ? item.remainingCooldownMinutes : 0,
+            canBeUpdated: item.canBeUpdated !== false,
+        }));
+};
+
+const parseUser = (value: unknown): VrcUser | null => {
+    if (!isObject(value)) return null;
+    if (typeof value.id !== 'string' || typeof value.displayName !== 'string') return null;
+    return value as VrcUser;
+};
+
+const parseCurrentUser = (value: unknown): VrcCurrentUser | null =>
+    isObject(value) ? (value as VrcCurrentUser) : null;
+
+const parseAuthTokenCheck = (value: unknown): VrcAuthTokenCheck | null =>
+    isObject(value) && typeof value.ok === 'boolean' ? (value as VrcAuthTokenCheck) : null;
+
+const parseWorld = (value: unknown): VrcWorld | null =>
+    isObject(value) ? (value as VrcWorld) : null;
+
+const parseGroup = (value: unknown): VrcGroup | null =>
+    isObject(value) ? (value as VrcGroup) : null;
+
+const parseInstance = (value: unknown): VrcInstance | null =>
+    isObject(value) ? (value as VrcInstance) : null;
+
+// Build the Cookie header VRChat expects from a session's tokens
+export function buildCookieHeader(session: Partial<VRChatSession>): string | null {
+    const parts: string[] = [];
+    if (session.authToken) parts.push(`auth=${session.authToken}`);
+    if (session.twoFactorAuth) parts.push(`twoFactorAuth=${session.twoFactorAuth}`);
+    return parts.length > 0 ? parts.join('; ') : null;
+}
+
+// VRChat tokens of the request's login session (see lib/sessionStore.ts): the active
+// account, or with accountId another account this browser is logged in to
+export async function getSession(accountId?: string): Promise<VRChatSession | null> {
+    const stored = accountId ? await getAccountSession(accountId) : await getCurrentSession();
+    return stored?.session ?? null;
+}
+
+// Get Set-Cookie values from a VRChat response
+export function getSetCookies(response: Response): string[] {
+    const headers = response.headers as HeadersWithSetCookie;
+    if (typeof headers.getSetCookie === 'function') {
+        return headers.getSetCookie();
+    }
+    // Fallback for older environments: simplistic split
+    const raw = response.headers.get('set-cookie');
+    if (!raw) return [];
+    return raw.split(/,(?=\s*[a-zA-Z0-9_-]+=)/).map(s => s.trim());
+}
+
+// Extract the VRChat session tokens (auth / twoFactorAuth) from Set-Cookie values
+export function parseSessionCookies(cookieStrings: string[]): Partial<VRChatSession> {
+    const result: Partial<VRChatSession> = {};
+    cookieStrings.forEach(cookieStr => {
+        // Format: Name=Value; Path=/; Secure; HttpOnly...
+        const firstSemi = cookieStr.indexOf(';');
+        const nameValue = firstSemi > 0 ? cookieStr.slice(0, firstSemi) : cookieStr;
+        const [name, ...valParts] = nameValue.split('=');
+        const value = valParts.join('=').trim();
+        if (!name || !value) return;
+
+        switch (name.trim().toLowerCase()) {
+            case 'auth':
+                result.authToken = value;
+                break;
+            case 'twofactorauth':
+                result.twoFactorAuth = value;
+                break;
         }
     });
+    return result;
+}
+
+type VRChatFetchOptions = {
+    method?: string;
+    session?: Partial<VRChatSession> | null;
+    headers?: Record<string, string>;
+    body?: unknown;
+    // Queue priority in the outbound scheduler (see lib/vrchatScheduler.ts)
+    priority?: VRChatPriority;
 };
-*/
+
+// Low-level request to the VRChat API. Returns the raw Response so auth
+// routes can inspect status codes and Set-Cookie headers themselves.
+// Every call waits its turn in the shared outbound budget.
+export async function vrchatFetch(path: string, options: VRChatFetchOptions = {}): Promise<Response> {
+    const headers: Record<string, string> = {
+        'User-Agent': USER_AGENT,
+        'Accept': 'application/json',
+        ...options.headers
+    };
+
+    const cookieHeader = options.session ? buildCookieHeader(options.session) : null;
+    if (cookieHeader) headers['Cookie'] = cookieHeader;
+
+    let body: string | undefined;
+    if (options.body !== undefined) {
+        headers['Content-Type'] = 'application/json';
+        body = JSON.stringify(options.body);
+    }
+
+    try {
+        return await scheduleVRChatRequest(() => fetch(`${getConfig().vrchatApiBase}${path}`, {
+            method: options.method || 'GET',
+            headers,
+            body
+        }), options.priority);
+    } catch (error: unknown) {
+        // Never sent: our own outbound budget is exhausted, not VRChat's
+        if (error instanceof VRChatQueueError) {
+            throw new VRChatApiError(503, path, error.message);
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        throw new VRChatApiError(502, path, `VRChat API unreachable: ${message}`);
+    }
+}
+
+// Typed client bound to one VRChat session.
+// priority applies to every call made through this client (default: normal).
+export function createVRChatClient(session: VRChatSession, { priority }: { priority?: VRChatPriority } = {}) {
+    const request = async <T>(
+        path: string,
+        parse: (value: unknown) => T | null,
+        options: Omit<VRChatFetchOptions, 'session'> = {}
+    ): Promise<T> => {
+        const res = await vrchatFetch(path, { priority, ...options, session });
+        if (!res.ok) {
+            throw new VRChatApiError(res.status, path, `VRChat API error ${res.status}`);
+        }
+        const data = parse(await res.json());
+        if (data === null) {
+            throw new VRChatApiError(502, path, 'Unexpected response from VRChat API');
+        }
+        return data;
+    };
+
+    // Calls whose response body we don't need
+    const perform = async (path: string, options: Omit<VRChatFetchOptions, 'session'>): Promise<void> => {
+        const res = await vrchatFetch(path, { priority, ...options, session });
+        if (!res.ok) {
+            throw new VRChatApiError(res.status, path, `VRChat API error ${res.status}`);
+        }
+    };
+
+    return {
+        getCurrentUser: () =>
+            request('/auth/user', parseCurrentUser),
+
+        // Cheaper than getCurrentUser when only the token's validity matters (401 once expired)
+        verifyAuthToken: () =>
+            request('/auth', parseAuthTokenCheck),
+
+        getUser: (userId: string) =>
+            request(`/users/${encodeURIComponent(userId)}`, parseUser),
+
+        // Edit our own profile (userId is our own ID); returns the updated user
+        updateUser: (userId: string, changes: ProfileUpdate) =>
+            request(`/users/${encodeURIComponent(userId)}`, parseCurrentUser, { method: 'PUT', body: changes }),
+
+        getWorld: (worldId: string) =>
+            request(`/worlds/${encodeURIComponent(worldId)}`, parseWorld),
+
+        getGroup: (groupId: string) =>
+            request(`/groups/${encodeURIComponent(groupId)}`, parseGroup),
+
+        // Instance API format: /instances/{worldId}:{instanceId}
+        getInstance: (location: string) =>
+            request(`/instances/${encodeURIComponent(location)}`, parseInstance),
+
+        getFriends: ({ offline = false, n = 100, offset = 0 }: { offline?: boolean; n?: number; offset?: number } = {}) =>
+            request(`/auth/user/friends?offline=${offline}&n=${n}&offset=${offset}`, parseFriendArray),
+
+        getFavorites: ({ type = 'friend', n = 100, offset = 0 }: { type?: string; n?: number; offset?: number } = {}) =>
+            request(`/favorites?type=${encodeURIComponent(type)}&n=${n}&offset=${offset}`, parseFavoriteArray),
+
+        // Notifications (v1: invites, friend requests, ...; v2: group announcements, ...)
+        getNotifications: ({ n = 100, offset = 0 }: { n?: number; offset?: number } = {}) =>
+            request(`/auth/user/notifications?n=${n}&offset=${offset}`, parseNotificationArray),
+
+        getNotificationsV2: ({ n = 100, offset = 0 }: { n?: number; offset?: number } = {}) =>
+            request(`/notifications?n=${n}&offset=${offset}`, parseNotificationV2Array),
+
+        markNotificationSeen: (notificationId: string) =>
+            perform(`/auth/user/notifications/${encodeURIComponent(notificationId)}/see`, { method: 'PUT' }),
+
+        acceptFriendRequest: (notificationId: string) =>
+            perform(`/auth/user/notifications/${encodeURIComponent(notificationId)}/accept`, { method: 'PUT' }),
+
+        hideNotification: (notificationId: string) =>
+            perform(`/auth/user/notifications/${encodeURIComponent(notificationId)}/hide`, { method: 'PUT' }),
+
+        markNotificationV2Seen: (notificationId: string) =>
+            perform(`/notifications/${encodeURIComponent(notificationId)}/see`, { method: 'POST' }),
+
+        deleteNotificationV2: (notificationId: string) =>
+            perform(`/notifications/${encodeURIComponent(notificationId)}`, { method: 'DELETE' }),
+
+        // Invite a user to an instance we are in (location: wrld_xxx:instance)
+        inviteUser: (userId: string, location: string) =>
+            perform(`/invite/${encodeURIComponent(userId)}`, { method: 'POST', body: { instanceId: location } }),
+
+        // Send ourselves an invite to an instance (lets the game client join it)
+        inviteSelf: (location: string) =>
+            perform(`/invite/myself/to/${encodeURIComponent(location)}`, { method: 'POST' }),
+
+        // Ask a user to invite us, optionally with one of our 'request' message templates
+        requestInvite: (userId: string, requestSlot?: number) =>
+            perform(`/requestInvite/${encodeURIComponent(userId)}`, { method: 'POST', body: requestSlot === undefined ? {} : { requestSlot } }),
+
+        // Invite message templates belong to the logged-in user (userId is our own ID)
+        getInviteMessages: (userId: string, type: InviteMessageType) =>
+            request(`/message/${encodeURIComponent(userId)}/${type}`, parseInviteMessageArray),
+
+        updateInviteMessage: (userId: string, type: InviteMessageType, slot: number, message: string) =>
+            request(`/message/${encodeURIComponent(userId)}/${type}/${slot}`, parseInviteMessageArray, { method: 'PUT', body: { message } }),
+
+        // 2FA verification returns Set-Cookie headers the caller must forward
+        verifyTwoFactor: async (method: TwoFactorMethod, code: string): Promise<VrcVerifyResult> => {
+            const path = `/auth/twofactorauth/${TWO_FACTOR_METHOD_INFO[method].endpoint}/verify`;
+            const res = await vrchatFetch(path, {
+                method: 'POST',
+                session,
+                priority,
+                body: { code }
+            });
+            if (!res.ok) {
+                throw new VRChatApiError(res.status, path, `VRChat API error ${res.status}`);
+            }
+            const data: unknown = await res.json();
+            const verified = isObject(data) && 'verified' in data && Boolean(data.verified);
+            return { verified, setCookies: getSetCookies(res) };
+        },
+
+        logout: () =>
+            perform('/logout', { method: 'PUT' }),
+    };
+}
+
+export type VRChatClient = ReturnType<typeof createVRChatClient>;
+
+// VRChat user ID per auth token, so per-account data doesn't cost an API call per request.
+// Ended sessions are forgotten explicitly; the size bound drops tokens that expired unnoticed.
+const MAX_CACHED_ACCOUNT_IDS = 1000;
+const accountIdCache = new Map<string, string>();
+
+// Resolve the VRChat user ID of the logged-in account
+export async function getAccountId(session: VRChatSession): Promise<string> {
+    const cached = accountIdCache.get(session.authToken);
+    if (cached) {
+        // Re-insert so the least recently used token is the first one evicted
+        accountIdCache.delete(session.authToken);
+        accountIdCache.set(session.authToken, cached);
+        return cached;
+    }
+
+    const user = await createVRChatClient(session).getCurrentUser();
+    if (!user.id) {
+        throw new VRChatApiError(401, '/auth/user', 'Login not completed');
+    }
+    if (accountIdCache.size >= MAX_CACHED_ACCOUNT_IDS) {
+        accountIdCache.delete(accountIdCache.keys().next().value!);
+    }
+    accountIdCache.set(session.authToken, user.id);
+    return user.id;
+}
+
+export function forgetAccountId(authToken: string): void {
+    accountIdCache.delete(authToken);
+}
+
+// Whether the logged-in user is an active member of a group
+export async function isGroupMember(client: VRChatClient, groupId: string): Promise<boolean> {
+    const group = await client.getGroup(groupId);
+    return group.membershipStatus === 'member';
+}
+
+// Map a failed VRChat call to a route response without exposing upstream details
+export function vrchatErrorResponse(error: unknown, message: string): NextResponse {
+    if (error instanceof VRChatApiError) {
+        return NextResponse.json({ error: message }, { status: error.status });
+    }
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+}
@@ -0,0 +1,193 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { getConfig } from '@/lib/config';
+import { VRChatClient, VrcGroup, VrcInstance, VrcUser, VrcWorld } from '@/lib/vrchat';
+
+// Server-side cache of VRChat entities shared by every session of this process.
+//
+// Each kind has two ages:
+//   fresh - served as is
+//   stale - served as is, and refetched in the background so the next read is fresh
+// Older entries are fetched before responding. Concurrent reads of the same missing or
+// stale entry share one VRChat request.
+//
+// With VRCHAT_CACHE_PATH set, entries are also written to SQLite and survive restarts.
+//
+// Worlds, groups and instances look the same to every viewer and are shared. User objects
+// depend on who is asking (location is only visible to friends), so they are cached per account.
+
+export type VRChatCacheKind = 'world' | 'group' | 'user' | 'instance';
+
+type CachePolicy = {
+    freshMs: number;
+    staleMs: number;
+    // Also keep on disk (when VRCHAT_CACHE_PATH is set)
+    persist: boolean;
+};
+
+// Entity-specific cache policies
+const CACHE_CONFIG: Record<VRChatCacheKind, CachePolicy> = {
+    world: { freshMs: 60 * 60 * 1000, staleMs: 24 * 60 * 60 * 1000, persist: true },
+    group: { freshMs: 60 * 60 * 1000, staleMs: 24 * 60 * 60 * 1000, persist: true },
+    user: { freshMs: 5 * 60 * 1000, staleMs: 60 * 60 * 1000, persist: true },
+    // Instance user counts change by the minute
+    instance: { freshMs: 30 * 1000, staleMs: 2 * 60 * 1000, persist: false },
+};
+
+// Per-process entry limit; least recently used entries are dropped first
+const MAX_MEMORY_ENTRIES = 5000;
+
+type CacheEntry = {
+    value: unknown;
+    fetchedAt: number;
+};
+
+type CacheRow = {
+    value: string;
+    fetched_at: number;
+};
+
+type CacheState = {
+    entries: Map<string, CacheEntry>;
+    inFlight: Map<string, Promise<unknown>>;
+    db: Database.Database | null | undefined;
+};
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS entries (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        fetched_at INTEGER NOT NULL
+    );
+`;
+
+// Keep one cache across hot reloads in development
+const globalForCache = globalThis as { vrchatCache?: CacheState };
+
+const cache: CacheState = globalForCache.vrchatCache ??= {
+    entries: new Map(),
+    inFlight: new Map(),
+    db: undefined,
+};
+
+// Disk backing, or null when VRCHAT_CACHE_PATH is not set
+function getDb(): Database.Database | null {
+    if (cache.db === undefined) {
+        const cachePath = getConfig().vrchatCachePath;
+        if (!cachePath) {
+            cache.db = null;
+        } else {
+            const dbPath = path.resolve(cachePath);
+            fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+            const db = new Database(dbPath);
+            db.pragma('journal_mode = WAL');
+            db.exec(SCHEMA);
+            cache.db = db;
+        }
+    }
+    return cache.db;
+}
+
+// Drop disk entries that are too old to be served even as stale
+function cleanupExpiredRows(db: Database.Database, now: number): void {
+    const maxStaleMs = Math.max(...Object.values(CACHE_CONFIG).map(policy => policy.staleMs));
+    db.prepare('DELETE FROM entries WHERE fetched_at < ?').run(now - maxStaleMs);
+}
+
+function remember(key: string, entry: CacheEntry): void {
+    // Re-insert so Map order tracks recency
+    cache.entries.delete(key);
+    cache.entries.set(key, entry);
+    if (cache.entries.size > MAX_MEMORY_ENTRIES) {
+        const oldest = cache.entries.keys().next().value;
+        if (oldest !== undefined) cache.entries.delete(oldest);
+    }
+}
+
+function readEntry(key: string, policy: CachePolicy): CacheEntry | undefined {
+    const entry = cache.entries.get(key);
+    if (entry || !policy.persist) return entry;
+
+    const db = getDb();
+    if (!db) return undefined;
+    try {
+        const row = db.prepare('SELECT value, fetched_at FROM entries WHERE key = ?').get(key) as CacheRow | undefined;
+        if (!row) return undefined;
+        const loaded = { value: JSON.parse(row.value) as unknown, fetchedAt: row.fetched_at };
+        remember(key, loaded);
+        return loaded;
+    } catch (error) {
+        console.error('[VRChatCache] Failed to read from disk:', error);
+        return undefined;
+    }
+}
+
+function writeEntry(key: string, entry: CacheEntry, policy: CachePolicy): void {
+    remember(key, entry);
+    if (!policy.persist) return;
+
+    const db = getDb();
+    if (!db) return;
+    try {
+        // Clean up expired rows periodically
+        if (Math.random() < 0.01) {
+            cleanupExpiredRows(db, entry.fetchedAt);
+        }
+        db.prepare('INSERT OR REPLACE INTO entries (key, value, fetched_at) VALUES (?, ?, ?)')
+            .run(key, JSON.stringify(entry.value), entry.fetchedAt);
+    } catch (error) {
+        console.error('[VRChatCache] Failed to write to disk:', error);
+    }
+}
+
+// Fetch into the cache, sharing the request with concurrent callers for the same key
+function refresh<T>(key: string, policy: CachePolicy, load: () => Promise<T>): Promise<T> {
+    const pending = cache.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = load()
+        .then(value => {
+            writeEntry(key, { value, fetchedAt: Date.now() }, policy);
+            return value;
+        })
+        .finally(() => cache.inFlight.delete(key));
+    cache.inFlight.set(key, request);
+    return request;
+}
+
+async function cached<T>(kind: VRChatCacheKind, id: string, load: () => Promise<T>): Promise<T> {
+    const policy = CACHE_CONFIG[kind];
+    const key = `${kind}:${id}`;
+    const entry = readEntry(key, policy);
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (entry && age < policy.freshMs) {
+        return entry.value as T;
+    }
+    if (entry && age < policy.staleMs) {
+        refresh(key, policy, load).catch(error => {
+            console.error(`[VRChatCache] Failed to revalidate ${key}:`, error);
+        });
+        return entry.value as T;
+    }
+    return refresh(key, policy, load);
+}
+
+export function getCachedWorld(client: VRChatClient, worldId: string): Promise<VrcWorld> {
+    return cached('world', worldId, () => client.getWorld(worldId));
+}
+
+// membershipStatus belongs to the viewer who fetched the group; use isGroupMember() for that
+export function getCachedGroup(client: VRChatClient, groupId: string): Promise<VrcGroup> {
+    return cached('group', groupId, async () => ({ ...await client.getGroup(groupId), membershipStatus: undefined }));
+}
+
+// accountId: the logged-in account the client belongs to
+export function getCachedUser(client: VRChatClient, accountId: string, userId: string): Promise<VrcUser> {
+    return cached('user', `${accountId}:${userId}`, () => client.getUser(userId));
+}
+
+export function getCachedInstance(client: VRChatClient, location: string): Promise<VrcInstance> {
+    return cached('instance', location, () => client.getInstance(location));
+}
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getVRChatSchedulerMetrics, scheduleVRChatRequest, VRChatQueueError } from '@/lib/vrchatScheduler';
+
+const ok = () => Promise.resolve(new Response('{}'));
+const tooManyRequests = (retryAfterSeconds: number) => () =>
+    Promise.resolve(new Response('', { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }));
+
+describe('scheduleVRChatRequest', () => {
+    // The scheduler is process-wide, so the fake clock carries on from one test to the next
+    let now = Date.now();
+
+    beforeEach(() => {
+        vi.useFakeTimers({ now });
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        // Let any pause run out so the next test starts unblocked
+        await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+        now = Date.now();
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('sends requests within the budget', async () => {
+        await expect(scheduleVRChatRequest(ok, 'interactive')).resolves.toBeInstanceOf(Response);
+    });
+
+    it('rejects queued requests that wait past their deadline during a 429 pause', async () => {
+        const limited = scheduleVRChatRequest(tooManyRequests(240), 'background');
+        await vi.advanceTimersByTimeAsync(0);
+
+        // Paused for 4 minutes; an interactive request may wait 15 seconds
+        const waiting = scheduleVRChatRequest(ok, 'interactive');
+        const outcome = waiting.catch((error: unknown) => error);
+        await vi.advanceTimersByTimeAsync(15 * 1000);
+
+        expect(await outcome).toBeInstanceOf(VRChatQueueError);
+        expect(getVRChatSchedulerMetrics().byPriority.interactive.queued).toBe(0);
+
+        // The retried background request runs out of time too instead of waiting for the pause
+        const retried = limited.catch((error: unknown) => error);
+        await vi.advanceTimersByTimeAsync(2 * 60 * 1000);
+        expect(await retried).toBeInstanceOf(VRChatQueueError);
+    });
+
+    it('rejects requests once a queue is full', async () => {
+        scheduleVRChatRequest(tooManyRequests(10), 'normal').catch(() => {});
+        await vi.advanceTimersByTimeAsync(0);
+
+        // Most of these time out behind the budget; only their number matters here
+        const queued = Array.from({ length: 500 }, () => scheduleVRChatRequest(ok, 'normal').catch(() => {}));
+        await expect(scheduleVRChatRequest(ok, 'normal')).rejects.toThrow('Too many queued normal VRChat requests');
+        // Other priorities have their own room
+        const interactive = scheduleVRChatRequest(ok, 'interactive');
+
+        await vi.advanceTimersByTimeAsync(10 * 1000);
+        await expect(interactive).resolves.toBeInstanceOf(Response);
+        await vi.advanceTimersByTimeAsync(60 * 1000);
+        await Promise.all(queued);
+    });
+});
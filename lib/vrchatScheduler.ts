@@ -0,0 +1,284 @@
+// Outbound VRChat API scheduler.
+// Every REST call goes through one process-wide queue so the app as a whole stays within
+// a request budget (token bucket: VRCHAT_API_RATE per minute, VRCHAT_API_BURST back to back),
+// however many users load dashboards at once.
+//
+// Requests are dispatched by priority, FIFO within a priority:
+//   interactive - a user is waiting on this exact call (login, friend detail, actions)
+//   normal      - page loads (friend lists, favorites, notifications)
+//   background  - enrichment and caches (worlds, groups, instances, owner names)
+//
+// A 429 pauses the whole queue for the Retry-After period (VRChat limits per account and
+// IP, so other calls would only be rejected too) and the request is retried.
+//
+// Queues are bounded: a request is rejected with VRChatQueueError when its priority's queue
+// is full, or when it has waited longer than that priority allows (e.g. through a long pause).
+
+import { getConfig } from '@/lib/config';
+import { tokenBucket, TokenBucketRule, TokenBucketState } from '@/lib/rateLimitAlgorithms';
+
+export type VRChatPriority = 'interactive' | 'normal' | 'background';
+
+export const VRCHAT_PRIORITIES: readonly VRChatPriority[] = ['interactive', 'normal', 'background'];
+
+export type VRChatPriorityMetrics = {
+    queued: number;
+    sent: number;
+    averageWaitMs: number;
+    maxWaitMs: number;
+};
+
+export type VRChatSchedulerMetrics = {
+    inFlight: number;
+    sent: number;
+    rateLimited: number;
+    retried: number;
+    failed: number;
+    // Rejected without being sent: queue full or waited too long
+    rejected: number;
+    // Queue is paused after a 429 until this time (ms since epoch), or null
+    pausedUntil: number | null;
+    availableTokens: number;
+    byPriority: Record<VRChatPriority, VRChatPriorityMetrics>;
+};
+
+type QueuedRequest = {
+    run: () => Promise<Response>;
+    priority: VRChatPriority;
+    enqueuedAt: number;
+    attempt: number;
+    // Rejects the request once it has waited too long
+    deadline: ReturnType<typeof setTimeout> | null;
+    resolve: (response: Response) => void;
+    reject: (error: unknown) => void;
+};
+
+type PriorityCounters = { sent: number; totalWaitMs: number; maxWaitMs: number };
+
+type Scheduler = {
+    queues: Record<VRChatPriority, QueuedRequest[]>;
+    bucket: TokenBucketState | undefined;
+    pausedUntil: number;
+    timer: ReturnType<typeof setTimeout> | null;
+    inFlight: number;
+    sent: number;
+    rateLimited: number;
+    retried: number;
+    failed: number;
+    rejected: number;
+    counters: Record<VRChatPriority, PriorityCounters>;
+};
+
+// Raised for a request the scheduler gave up on before sending it
+export class VRChatQueueError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VRChatQueueError';
+    }
+}
+
+// Retries after a 429 before the response is handed back to the caller
+const MAX_RETRIES = 2;
+
+// Pause used when a 429 carries no usable Retry-After
+const DEFAULT_RETRY_AFTER_MS = 5 * 1000;
+
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+// Requests waiting per priority
+const MAX_QUEUE_LENGTH = 500;
+
+// How long a request may wait to be sent (retries after a 429 included)
+const MAX_QUEUE_WAIT_MS: Record<VRChatPriority, number> = {
+    interactive: 15 * 1000,
+    normal: 30 * 1000,
+    background: 2 * 60 * 1000,
+};
+
+const globalForScheduler = globalThis as { vrchatScheduler?: Scheduler };
+
+const scheduler = globalForScheduler.vrchatScheduler ??= {
+    queues: { interactive: [], normal: [], background: [] },
+    bucket: undefined,
+    pausedUntil: 0,
+    timer: null,
+    inFlight: 0,
+    sent: 0,
+    rateLimited: 0,
+    retried: 0,
+    failed: 0,
+    rejected: 0,
+    counters: {
+        interactive: { sent: 0, totalWaitMs: 0, maxWaitMs: 0 },
+        normal: { sent: 0, totalWaitMs: 0, maxWaitMs: 0 },
+        background: { sent: 0, totalWaitMs: 0, maxWaitMs: 0 },
+    },
+};
+
+const getBudget = (): TokenBucketRule => {
+    const config = getConfig();
+    return {
+        algorithm: 'token-bucket',
+        burst: config.vrchatApiBurst,
+        refillAmount: config.vrchatApiRate,
+        refillIntervalMs: 60 * 1000,
+    };
+};
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(value: string | null, now: number): number {
+    if (!value) return DEFAULT_RETRY_AFTER_MS;
+    const seconds = Number(value);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - now;
+    if (!Number.isFinite(delay) || delay <= 0) return DEFAULT_RETRY_AFTER_MS;
+    return Math.min(delay, MAX_RETRY_AFTER_MS);
+}
+
+const rejectRequest = (request: QueuedRequest, message: string) => {
+    scheduler.rejected++;
+    request.reject(new VRChatQueueError(message));
+};
+
+// Add a request to its queue (at the front for retries), unless it is out of time or room
+const enqueue = (request: QueuedRequest, front = false) => {
+    const queue = scheduler.queues[request.priority];
+    const remaining = request.enqueuedAt + MAX_QUEUE_WAIT_MS[request.priority] - Date.now();
+    if (remaining <= 0) {
+        rejectRequest(request, 'Timed out waiting for the VRChat API budget');
+        return;
+    }
+    if (!front && queue.length >= MAX_QUEUE_LENGTH) {
+        rejectRequest(request, `Too many queued ${request.priority} VRChat requests`);
+        return;
+    }
+
+    request.deadline = setTimeout(() => {
+        const index = queue.indexOf(request);
+        if (index < 0) return;
+        queue.splice(index, 1);
+        rejectRequest(request, 'Timed out waiting for the VRChat API budget');
+    }, remaining);
+    if (front) queue.unshift(request);
+    else queue.push(request);
+};
+
+const nextRequest = (): QueuedRequest | undefined => {
+    for (const priority of VRCHAT_PRIORITIES) {
+        const request = scheduler.queues[priority].shift();
+        if (request) {
+            if (request.deadline) clearTimeout(request.deadline);
+            return request;
+        }
+    }
+    return undefined;
+};
+
+const hasQueued = () => VRCHAT_PRIORITIES.some(priority => scheduler.queues[priority].length > 0);
+
+const wakeAfter = (delayMs: number) => {
+    if (scheduler.timer) return;
+    scheduler.timer = setTimeout(() => {
+        scheduler.timer = null;
+        pump();
+    }, Math.max(1, delayMs));
+};
+
+async function dispatch(request: QueuedRequest, now: number) {
+    if (request.attempt === 0) {
+        const wait = now - request.enqueuedAt;
+        const counters = scheduler.counters[request.priority];
+        counters.sent++;
+        counters.totalWaitMs += wait;
+        counters.maxWaitMs = Math.max(counters.maxWaitMs, wait);
+    }
+    scheduler.sent++;
+    scheduler.inFlight++;
+
+    try {
+        const response = await request.run();
+        if (response.status === 429) {
+            scheduler.rateLimited++;
+            const retryAfter = parseRetryAfter(response.headers.get('retry-after'), Date.now());
+            scheduler.pausedUntil = Math.max(scheduler.pausedUntil, Date.now() + retryAfter);
+            console.warn(`[VRChatScheduler] 429 from VRChat; pausing for ${Math.ceil(retryAfter / 1000)}s`);
+
+            if (request.attempt < MAX_RETRIES) {
+                scheduler.retried++;
+                // Drain rather than cancel: Next.js tees fetch bodies, and cancelling one
+                // branch of a tee doesn't settle until the other branch is read
+                await response.text().catch(() => '');
+                // Retry ahead of everything else of the same priority
+                enqueue({ ...request, attempt: request.attempt + 1, deadline: null }, true);
+                return;
+            }
+        }
+        request.resolve(response);
+    } catch (error) {
+        scheduler.failed++;
+        request.reject(error);
+    } finally {
+        scheduler.inFlight--;
+        pump();
+    }
+}
+
+function pump() {
+    while (hasQueued()) {
+        const now = Date.now();
+        if (now < scheduler.pausedUntil) {
+            wakeAfter(scheduler.pausedUntil - now);
+            return;
+        }
+
+        const step = tokenBucket(scheduler.bucket, getBudget(), now);
+        if (step.result.limited) {
+            wakeAfter(step.result.resetIn);
+            return;
+        }
+        scheduler.bucket = step.state;
+
+        const request = nextRequest();
+        if (request) void dispatch(request, now);
+    }
+}
+
+// Queue a VRChat request; resolves with its response once the budget allows it to run,
+// or rejects with VRChatQueueError when it can't be sent in time
+export function scheduleVRChatRequest(run: () => Promise<Response>, priority: VRChatPriority = 'normal'): Promise<Response> {
+    return new Promise((resolve, reject) => {
+        enqueue({ run, priority, enqueuedAt: Date.now(), attempt: 0, deadline: null, resolve, reject });
+        pump();
+    });
+}
+
+export function getVRChatSchedulerMetrics(): VRChatSchedulerMetrics {
+    const now = Date.now();
+    const budget = getBudget();
+    // Peek at the bucket without taking a token
+    const elapsed = scheduler.bucket ? now - scheduler.bucket.updatedAt : 0;
+    const availableTokens = scheduler.bucket
+        ? Math.min(budget.burst, scheduler.bucket.tokens + elapsed * budget.refillAmount / budget.refillIntervalMs)
+        : budget.burst;
+
+    const byPriority = Object.fromEntries(VRCHAT_PRIORITIES.map(priority => {
+        const counters = scheduler.counters[priority];
+        return [priority, {
+            queued: scheduler.queues[priority].length,
+            sent: counters.sent,
+            averageWaitMs: counters.sent > 0 ? Math.round(counters.totalWaitMs / counters.sent) : 0,
+            maxWaitMs: counters.maxWaitMs,
+        }];
+    })) as Record<VRChatPriority, VRChatPriorityMetrics>;
+
+    return {
+        inFlight: scheduler.inFlight,
+        sent: scheduler.sent,
+        rateLimited: scheduler.rateLimited,
+        retried: scheduler.retried,
+        failed: scheduler.failed,
+        rejected: scheduler.rejected,
+        pausedUntil: scheduler.pausedUntil > now ? scheduler.pausedUntil : null,
+        availableTokens: Math.floor(availableTokens),
+        byPriority,
+    };
+}
@@ -0,0 +1,209 @@
+// Fixture data for the mock VRChat server.
+// Everything is generated deterministically so runs are reproducible.
+
+export const SELF_USER_ID = 'usr_mock_self';
+export const ALT_USER_ID = 'usr_mock_alt';
+
+export const worlds = [
+    { id: 'wrld_mock_0001', name: 'The Great Pug', authorId: 'usr_mock_author_1', authorName: 'Mock Author', capacity: 40, recommendedCapacity: 20 },
+    { id: 'wrld_mock_0002', name: 'Japan Shrine', authorId: 'usr_mock_author_2', authorName: 'Shrine Builder', capacity: 32, recommendedCapacity: 16 },
+    { id: 'wrld_mock_0003', name: 'Movie & Chill', authorId: 'usr_mock_author_1', authorName: 'Mock Author', capacity: 24, recommendedCapacity: 12 },
+    { id: 'wrld_mock_0004', name: 'Midnight Rooftop', authorId: 'usr_mock_author_3', authorName: 'Night Owl', capacity: 16, recommendedCapacity: 8 },
+    { id: 'wrld_mock_0005', name: 'Home Sweet Home', authorId: SELF_USER_ID, authorName: 'Mock Self', capacity: 8, recommendedCapacity: 4 },
+].map((w, i) => ({
+    description: `Mock world #${i + 1}`,
+    thumbnailImageUrl: '',
+    imageUrl: '',
+    occupants: 0,
+    publicOccupants: 0,
+    privateOccupants: 0,
+    tags: ['system_approved'],
+    releaseStatus: 'public',
+    favorites: 100 * (i + 1),
+    visits: 1000 * (i + 1),
+    popularity: 5,
+    heat: 3,
+    ...w,
+}));
+
+export const groups = [
+    { id: 'grp_mock_0001', name: 'Mock Social Club', shortCode: 'MOCK', memberCount: 42, membershipStatus: 'member' },
+    { id: 'grp_mock_0002', name: 'Night Owls', shortCode: 'OWLS', memberCount: 7, membershipStatus: 'inactive' },
+];
+
+// Location strings covering every instance type the app renders
+export const locations = [
+    'wrld_mock_0001:10001',
+    'wrld_mock_0002:20002~region(jp)',
+    'wrld_mock_0003:30003~hidden(usr_mock_friend_000)~region(eu)',
+    'wrld_mock_0004:40004~friends(usr_mock_stranger)~region(use)',
+    'wrld_mock_0002:50005~private(usr_mock_friend_001)~canRequestInvite~region(jp)',
+    'wrld_mock_0003:60006~group(grp_mock_0001)~groupAccessType(plus)~region(jp)',
+    'wrld_mock_0004:70007~group(grp_mock_0002)~groupAccessType(members)',
+    'private',
+    'traveling',
+];
+
+const STATUSES = ['active', 'join me', 'ask me', 'busy'];
+
+const FRIEND_COUNT = 130;
+const ONLINE_COUNT = 110; // More than one page (n=100) so pagination is exercised
+
+const pad = (n) => n.toString().padStart(3, '0');
+
+export const friends = Array.from({ length: FRIEND_COUNT }, (_, i) => {
+    const online = i < ONLINE_COUNT;
+    return {
+        id: `usr_mock_friend_${pad(i)}`,
+        displayName: `Mock Friend ${pad(i)}`,
+        status: online ? STATUSES[i % STATUSES.length] : 'offline',
+        statusDescription: i % 3 === 0 ? `Status message ${i}` : '',
+        bio: `Hello from mock friend ${i}`,
+        bioLinks: [],
+        tags: ['system_trust_basic', 'system_trust_known'],
+        userIcon: '',
+        profilePicOverride: '',
+        currentAvatarThumbnailImageUrl: '',
+        currentAvatarImageUrl: '',
+        location: online ? locations[i % locations.length] : 'offline',
+        state: online ? 'online' : 'offline',
+        isFriend: true,
+        last_login: new Date(Date.UTC(2024, 0, 1 + (i % 28))).toISOString(),
+        last_activity: new Date(Date.UTC(2024, 0, 1 + (i % 28))).toISOString(),
+        date_joined: '2020-01-01',
+    };
+});
+
+// Non-friend users referenced as instance owners
+export const strangers = [
+    { id: 'usr_mock_stranger', displayName: 'Mock Stranger', status: 'active', statusDescription: '', tags: [], location: 'private', state: 'online', isFriend: false },
+];
+
+// First 24 online friends plus a handful of offline ones, spread over three favorite groups
+export const favorites = [
+    ...friends.slice(0, 24),
+    ...friends.slice(ONLINE_COUNT, ONLINE_COUNT + 8),
+].map((f, i) => ({
+    id: `fvrt_mock_${pad(i)}`,
+    type: 'friend',
+    favoriteId: f.id,
+    tags: [`group_${i % 3}`],
+}));
+
+export const selfUser = {
+    id: SELF_USER_ID,
+    username: 'mock',
+    displayName: 'Mock Self',
+    status: 'join me',
+    statusDescription: 'Testing VRC Social',
+    bio: 'I am the logged-in mock account.',
+    bioLinks: [],
+    tags: ['system_trust_trusted'],
+    location: 'wrld_mock_0001:10001',
+    homeLocation: 'wrld_mock_0005',
+    state: 'online',
+    currentAvatarThumbnailImageUrl: '',
+    userIcon: '',
+    friends: friends.map(f => f.id),
+};
+
+// Second account for multi-account testing; same friends, partly different favorites
+export const altUser = {
+    ...selfUser,
+    id: ALT_USER_ID,
+    username: 'alt',
+    displayName: 'Mock Alt',
+    statusDescription: 'The alt account',
+    bio: 'I am the second mock account.',
+};
+
+export const altFavorites = [
+    ...friends.slice(20, 30),
+    ...friends.slice(ONLINE_COUNT + 4, ONLINE_COUNT + 12),
+].map((f, i) => ({
+    id: `fvrt_mockalt_${pad(i)}`,
+    type: 'friend',
+    favoriteId: f.id,
+    tags: [`group_${i % 3}`],
+}));
+
+// Pending notifications (one of each type the inbox handles)
+export const notifications = [
+    {
+        id: 'not_mock_0001',
+        type: 'friendRequest',
+        senderUserId: 'usr_mock_stranger',
+        senderUsername: 'Mock Stranger',
+        receiverUserId: SELF_USER_ID,
+        message: '',
+        details: {},
+        seen: false,
+        created_at: '2024-01-28T10:00:00.000Z',
+    },
+    {
+        id: 'not_mock_0002',
+        type: 'invite',
+        senderUserId: friends[0].id,
+        senderUsername: friends[0].displayName,
+        receiverUserId: SELF_USER_ID,
+        message: 'This is a generated invite',
+        // VRChat sometimes sends details as a JSON string
+        details: JSON.stringify({ worldId: locations[1], worldName: worlds[1].name }),
+        seen: false,
+        created_at: '2024-01-28T11:00:00.000Z',
+    },
+    {
+        id: 'not_mock_0003',
+        type: 'requestInvite',
+        senderUserId: friends[1].id,
+        senderUsername: friends[1].displayName,
+        receiverUserId: SELF_USER_ID,
+        message: '',
+        details: {},
+        seen: true,
+        created_at: '2024-01-28T12:00:00.000Z',
+    },
+];
+
+// Notifications v2 (group announcements)
+export const notificationsV2 = [
+    {
+        id: 'ntf_mock_0001',
+        version: 1,
+        type: 'group.announcement',
+        category: 'social.group',
+        isSystem: false,
+        senderUserId: groups[0].id,
+        senderUsername: groups[0].name,
+        receiverUserId: SELF_USER_ID,
+        title: `${groups[0].name} Announcement`,
+        message: 'Weekly meetup this Saturday!',
+        imageUrl: '',
+        link: `group:${groups[0].id}`,
+        responses: [],
+        seen: false,
+        canDelete: true,
+        createdAt: '2024-01-28T09:00:00.000Z',
+        updatedAt: '2024-01-28T09:00:00.000Z',
+    },
+];
+
+// Invite message templates of the mock user: 12 slots per type
+const DEFAULT_MESSAGES = {
+    message: 'Come join me!',
+    response: 'Sorry, maybe later.',
+    request: 'Can I join you?',
+    requestResponse: 'Not right now, sorry.',
+};
+
+export const inviteMessages = Object.fromEntries(
+    Object.entries(DEFAULT_MESSAGES).map(([type, text]) => [type, Array.from({ length: 12 }, (_, slot) => ({
+        id: `invm_mock_${type}_${slot}`,
+        slot,
+        message: slot === 0 ? text : `${text} (${slot})`,
+        messageType: type,
+        remainingCooldownMinutes: 0,
+        canBeUpdated: true,
+        updatedAt: '2024-01-01T00:00:00.000Z',
+    }))])
+);
@@ -0,0 +1,489 @@
+// Mock VRChat server for offline development and tests.
+//
+// Serves a subset of the VRChat REST API under /api/1 and a pipeline
+// WebSocket on the same port that plays back scripted friend and notification events.
+//
+//   npm run mock
+//   VRCHAT_API_BASE=http://localhost:3100/api/1 VRCHAT_PIPELINE_URL=ws://localhost:3100 npm run dev
+//
+// Environment:
+//   MOCK_PORT               - listen port (default 3100)
+//   MOCK_USERNAME           - login username (default "mock")
+//   MOCK_PASSWORD           - login password (default "mock")
+//   MOCK_ALT_USERNAME       - username of a second account with the same password (default "alt")
+//   MOCK_TOTP_CODE          - accepted authenticator code (default "123456")
+//   MOCK_EMAIL_OTP_CODE     - accepted email code (default "654321")
+//   MOCK_RECOVERY_CODE      - accepted recovery code (default "abcd1234")
+//   MOCK_2FA_METHODS        - 2FA methods offered at login (default "totp,otp")
+//   MOCK_EVENT_INTERVAL_MS  - delay between scripted pipeline events (default 5000)
+//   MOCK_SESSION_TTL_MS     - auth tokens stop working this long after login, for exercising
+//                             expired sessions (default 0 = never)
+//   MOCK_RATE_LIMIT         - max API requests per second before answering 429 with
+//                             Retry-After (default 0 = unlimited)
+
+import http from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { WebSocketServer } from 'ws';
+import { altFavorites, altUser, friends, favorites, groups, inviteMessages, locations, notifications, notificationsV2, selfUser, strangers, worlds } from './fixtures.mjs';
+
+const PORT = Number(process.env.MOCK_PORT || 3100);
+const USERNAME = process.env.MOCK_USERNAME || 'mock';
+const PASSWORD = process.env.MOCK_PASSWORD || 'mock';
+const ALT_USERNAME = process.env.MOCK_ALT_USERNAME || 'alt';
+const TOTP_CODE = process.env.MOCK_TOTP_CODE || '123456';
+const TWO_FACTOR_CODES = {
+    totp: TOTP_CODE,
+    emailotp: process.env.MOCK_EMAIL_OTP_CODE || '654321',
+    otp: process.env.MOCK_RECOVERY_CODE || 'abcd1234',
+};
+const TWO_FACTOR_METHODS = (process.env.MOCK_2FA_METHODS || 'totp,otp').split(',').map(method => method.trim()).filter(Boolean);
+const EVENT_INTERVAL_MS = Number(process.env.MOCK_EVENT_INTERVAL_MS || 5000);
+const RATE_LIMIT = Number(process.env.MOCK_RATE_LIMIT || 0);
+const SESSION_TTL_MS = Number(process.env.MOCK_SESSION_TTL_MS || 0);
+const API_PREFIX = '/api/1';
+
+// Fixed one-second window shared by all clients, for exercising 429 handling
+const rateWindow = { start: 0, count: 0 };
+
+function isRateLimited() {
+    if (RATE_LIMIT <= 0) return false;
+    const now = Date.now();
+    if (now - rateWindow.start >= 1000) {
+        rateWindow.start = now;
+        rateWindow.count = 0;
+    }
+    return ++rateWindow.count > RATE_LIMIT;
+}
+
+// authToken -> { verified, user, createdAt }
+const authTokens = new Map();
+// twoFactorAuth cookie value -> id of the user whose next logins skip 2FA
+const twoFactorTokens = new Map();
+
+const token = (prefix) => `${prefix}_${randomBytes(12).toString('hex')}`;
+
+// --- HTTP helpers ---
+
+const sendJson = (res, status, data, cookies = []) => {
+    const headers = { 'Content-Type': 'application/json' };
+    if (cookies.length > 0) headers['Set-Cookie'] = cookies;
+    res.writeHead(status, headers);
+    res.end(JSON.stringify(data));
+};
+
+const sendError = (res, status, message) =>
+    sendJson(res, status, { error: { message, status_code: status } });
+
+const parseCookies = (header = '') => Object.fromEntries(
+    header.split(';')
+        .map(part => part.trim().split('='))
+        .filter(([name, value]) => name && value)
+        .map(([name, ...rest]) => [name, rest.join('=')])
+);
+
+const readBody = (req) => new Promise((resolve) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+        try { resolve(raw ? JSON.parse(raw) : {}); } catch { resolve({}); }
+    });
+});
+
+const cookie = (name, value, maxAgeSeconds) =>
+    `${name}=${value}; Path=/; Max-Age=${maxAgeSeconds}; HttpOnly; SameSite=Lax`;
+
+// Resolve the verified session for a request, or null
+const getAuth = (req) => {
+    const cookies = parseCookies(req.headers.cookie);
+    const entry = cookies.auth ? authTokens.get(cookies.auth) : undefined;
+    if (entry && SESSION_TTL_MS > 0 && Date.now() - entry.createdAt > SESSION_TTL_MS) {
+        authTokens.delete(cookies.auth);
+        return null;
+    }
+    return entry?.verified ? { authToken: cookies.auth, user: entry.user } : null;
+};
+
+const paginate = (items, searchParams) => {
+    const n = Math.min(Number(searchParams.get('n') || 60), 100);
+    const offset = Number(searchParams.get('offset') || 0);
+    return items.slice(offset, offset + n);
+};
+
+const findUser = (id) =>
+    id === selfUser.id ? selfUser : friends.find(f => f.id === id) || strangers.find(s => s.id === id);
+
+const findNotification = (id) => notifications.find(n => n.id === id && !n.hidden);
+
+const visibleNotifications = () => notifications.filter(n => !n.hidden);
+
+const instanceUsers = (location) => friends.filter(f => f.location === location).length;
+
+// Build an instance object from a location string
+const buildInstance = (location) => {
+    const [worldId, raw = ''] = location.split(':');
+    const world = worlds.find(w => w.id === worldId);
+    if (!world || !raw) return null;
+
+    const ownerMatch = raw.match(/~(?:hidden|friends|private)\((usr_[^)]+)\)/);
+    const groupMatch = raw.match(/~group\((grp_[^)]+)\)/);
+    const regionMatch = raw.match(/~region\(([^)]+)\)/);
+    let type = 'public';
+    if (raw.includes('~group(')) type = 'group';
+    else if (raw.includes('~private(')) type = 'private';
+    else if (raw.includes('~friends(')) type = 'friends';
+    else if (raw.includes('~hidden(')) type = 'hidden';
+
+    // Pretend a few non-friends are in every instance
+    const count = instanceUsers(location) + 3;
+    return {
+        id: location,
+        location,
+        instanceId: raw,
+        name: raw.split('~')[0],
+        worldId,
+        world,
+        type,
+        region: regionMatch ? regionMatch[1] : 'us',
+        ownerId: ownerMatch ? ownerMatch[1] : (groupMatch ? groupMatch[1] : null),
+        groupId: groupMatch ? groupMatch[1] : undefined,
+        canRequestInvite: raw.includes('~canRequestInvite'),
+        n_users: count,
+        userCount: count,
+        capacity: world.capacity,
+    };
+};
+
+// --- Routes ---
+
+const handleLogin = (req, res) => {
+    const cookies = parseCookies(req.headers.cookie);
+    const authHeader = req.headers.authorization || '';
+
+    // Cookie-only call: return the current user for an already verified session
+    if (!authHeader.startsWith('Basic ')) {
+        const auth = getAuth(req);
+        if (auth) return sendJson(res, 200, auth.user);
+        return sendError(res, 401, 'Missing Credentials');
+    }
+
+    const [username, password] = Buffer.from(authHeader.slice(6), 'base64').toString().split(':');
+    const user = username === USERNAME ? selfUser : username === ALT_USERNAME ? altUser : null;
+    if (!user || password !== PASSWORD) {
+        return sendError(res, 401, 'Invalid Username/Email or Password');
+    }
+
+    const authToken = token('authcookie');
+    const remembered = Boolean(cookies.twoFactorAuth && twoFactorTokens.get(cookies.twoFactorAuth) === user.id);
+    authTokens.set(authToken, { verified: remembered, user, createdAt: Date.now() });
+    const setCookies = [cookie('auth', authToken, 60 * 60 * 24 * 7)];
+
+    if (remembered) {
+        return sendJson(res, 200, user, setCookies);
+    }
+    // Matches VRChat: 200 with the list of available 2FA methods
+    return sendJson(res, 200, { requiresTwoFactorAuth: TWO_FACTOR_METHODS }, setCookies);
+};
+
+const handleVerify = async (req, res, match) => {
+    const cookies = parseCookies(req.headers.cookie);
+    const entry = cookies.auth ? authTokens.get(cookies.auth) : undefined;
+    if (!entry) return sendError(res, 401, 'Missing Credentials');
+
+    const body = await readBody(req);
+    if (body.code !== TWO_FACTOR_CODES[match[1]]) {
+        return sendError(res, 400, 'Invalid 2FA code');
+    }
+
+    entry.verified = true;
+    const twoFactorAuth = token('twofactor');
+    twoFactorTokens.set(twoFactorAuth, entry.user.id);
+    return sendJson(res, 200, { verified: true }, [cookie('twoFactorAuth', twoFactorAuth, 60 * 60 * 24 * 30)]);
+};
+
+const routes = [
+    { method: 'GET', pattern: /^\/config$/, handler: (req, res) => sendJson(res, 200, { appName: 'VRChat Mock' }), public: true },
+    { method: 'GET', pattern: /^\/auth\/user$/, handler: handleLogin, public: true },
+    { method: 'GET', pattern: /^\/auth$/, handler: (req, res) => sendJson(res, 200, { ok: true, token: getAuth(req).authToken }) },
+    { method: 'POST', pattern: /^\/auth\/twofactorauth\/(totp|otp|emailotp)\/verify$/, handler: handleVerify, public: true },
+    {
+        method: 'PUT', pattern: /^\/logout$/, handler: (req, res) => {
+            authTokens.delete(parseCookies(req.headers.cookie).auth);
+            sendJson(res, 200, { success: { message: 'Ok!', status_code: 200 } });
+        }
+    },
+    {
+        method: 'GET', pattern: /^\/auth\/user\/friends$/, handler: (req, res, _match, url) => {
+            const offline = url.searchParams.get('offline') === 'true';
+            const list = friends.filter(f => (f.location === 'offline') === offline);
+            sendJson(res, 200, paginate(list, url.searchParams));
+        }
+    },
+    {
+        method: 'GET', pattern: /^\/favorites$/, handler: (req, res, _match, url) => {
+            const type = url.searchParams.get('type');
+            const own = getAuth(req).user === altUser ? altFavorites : favorites;
+            const list = type && type !== 'friend' ? [] : own;
+            sendJson(res, 200, paginate(list, url.searchParams));
+        }
+    },
+    {
+        method: 'GET', pattern: /^\/users\/([^/]+)$/, handler: (req, res, match) => {
+            const user = findUser(match[1]);
+            if (!user) return sendError(res, 404, 'User not found');
+            sendJson(res, 200, user);
+        }
+    },
+    {
+        method: 'PUT', pattern: /^\/users\/([^/]+)$/, handler: async (req, res, match) => {
+            const body = await readBody(req);
+            const { user } = getAuth(req);
+            if (match[1] !== user.id) return sendError(res, 403, 'You can only edit yourself');
+            if (body.status !== undefined && !['join me', 'active', 'ask me', 'busy'].includes(body.status)) {
+                return sendError(res, 400, 'Invalid status');
+            }
+            if (typeof body.statusDescription === 'string' && body.statusDescription.length > 32) {
+                return sendError(res, 400, 'Status description is too long');
+            }
+            if (typeof body.bio === 'string' && body.bio.length > 512) return sendError(res, 400, 'Bio is too long');
+            for (const key of ['status', 'statusDescription', 'bio']) {
+                if (typeof body[key] === 'string') user[key] = body[key];
+            }
+            sendJson(res, 200, user);
+        }
+    },
+    {
+        method: 'GET', pattern: /^\/worlds\/([^/]+)$/, handler: (req, res, match) => {
+            const world = worlds.find(w => w.id === match[1]);
+            if (!world) return sendError(res, 404, 'World not found');
+            sendJson(res, 200, { ...world, occupants: friends.filter(f => f.location.startsWith(`${world.id}:`)).length });
+        }
+    },
+    {
+        method: 'GET', pattern: /^\/groups\/([^/]+)$/, handler: (req, res, match) => {
+            const group = groups.find(g => g.id === match[1]);
+            if (!group) return sendError(res, 404, 'Group not found');
+            sendJson(res, 200, group);
+        }
+    },
+    {
+        method: 'GET', pattern: /^\/auth\/user\/notifications$/, handler: (req, res, _match, url) => {
+            sendJson(res, 200, paginate(visibleNotifications(), url.searchParams));
+        }
+    },
+    {
+        method: 'PUT', pattern: /^\/auth\/user\/notifications\/([^/]+)\/(see|accept|hide)$/, handler: (req, res, match) => {
+            const notification = findNotification(match[1]);
+            if (!notification) return sendError(res, 404, 'Notification not found');
+            if (match[2] === 'accept' && notification.type !== 'friendRequest') {
+                return sendError(res, 400, 'Only friend requests can be accepted');
+            }
+            if (match[2] === 'see') notification.seen = true;
+            else notification.hidden = true;
+            sendJson(res, 200, notification);
+        }
+    },
+    {
+        method: 'GET', pattern: /^\/notifications$/, handler: (req, res, _match, url) => {
+            sendJson(res, 200, paginate(notificationsV2.filter(n => !n.hidden), url.searchParams));
+        }
+    },
+    {
+        method: 'POST', pattern: /^\/notifications\/([^/]+)\/see$/, handler: (req, res, match) => {
+            const notification = notificationsV2.find(n => n.id === match[1] && !n.hidden);
+            if (!notification) return sendError(res, 404, 'Notification not found');
+            notification.seen = true;
+            sendJson(res, 200, notification);
+        }
+    },
+    {
+        method: 'DELETE', pattern: /^\/notifications\/([^/]+)$/, handler: (req, res, match) => {
+            const notification = notificationsV2.find(n => n.id === match[1] && !n.hidden);
+            if (!notification) return sendError(res, 404, 'Notification not found');
+            notification.hidden = true;
+            sendJson(res, 200, { success: { message: 'Ok!', status_code: 200 } });
+        }
+    },
+    {
+        method: 'POST', pattern: /^\/invite\/myself\/to\/(.+)$/, handler: (req, res, match) => {
+            if (!buildInstance(decodeURIComponent(match[1]))) return sendError(res, 404, 'Instance not found');
+            sendJson(res, 200, { id: token('not'), type: 'invite', receiverUserId: getAuth(req).user.id, senderUserId: getAuth(req).user.id });
+        }
+    },
+    {
+        method: 'POST', pattern: /^\/invite\/(usr_[^/]+)$/, handler: async (req, res, match) => {
+            const body = await readBody(req);
+            if (!findUser(match[1])) return sendError(res, 404, 'User not found');
+            if (typeof body.instanceId !== 'string' || !buildInstance(body.instanceId)) {
+                return sendError(res, 400, 'Invalid instanceId');
+            }
+            sendJson(res, 200, { id: token('not'), type: 'invite', receiverUserId: match[1], senderUserId: getAuth(req).user.id, details: { worldId: body.instanceId } });
+        }
+    },
+    {
+        method: 'POST', pattern: /^\/requestInvite\/(usr_[^/]+)$/, handler: async (req, res, match) => {
+            const body = await readBody(req);
+            if (!findUser(match[1])) return sendError(res, 404, 'User not found');
+            if (body.requestSlot !== undefined && !inviteMessages.request[body.requestSlot]) {
+                return sendError(res, 400, 'Invalid requestSlot');
+            }
+            sendJson(res, 200, { id: token('not'), type: 'requestInvite', receiverUserId: match[1], senderUserId: getAuth(req).user.id });
+        }
+    },
+    {
+        method: 'GET', pattern: /^\/message\/(usr_[^/]+)\/([A-Za-z]+)$/, handler: (req, res, match) => {
+            if (match[1] !== getAuth(req).user.id) return sendError(res, 403, 'Not your messages');
+            const list = inviteMessages[match[2]];
+            if (!list) return sendError(res, 400, 'Invalid message type');
+            sendJson(res, 200, list);
+        }
+    },
+    {
+        method: 'PUT', pattern: /^\/message\/(usr_[^/]+)\/([A-Za-z]+)\/(\d+)$/, handler: async (req, res, match) => {
+            const body = await readBody(req);
+            if (match[1] !== getAuth(req).user.id) return sendError(res, 403, 'Not your messages');
+            const entry = inviteMessages[match[2]]?.[Number(match[3])];
+            if (!entry) return sendError(res, 404, 'Message not found');
+            if (typeof body.message !== 'string' || !body.message) return sendError(res, 400, 'Invalid message');
+            entry.message = body.message;
+            entry.updatedAt = new Date().toISOString();
+            sendJson(res, 200, inviteMessages[match[2]]);
+        }
+    },
+    {
+        method: 'GET', pattern: /^\/instances\/(.+)$/, handler: (req, res, match) => {
+            const instance = buildInstance(decodeURIComponent(match[1]));
+            if (!instance) return sendError(res, 404, 'Instance not found');
+            sendJson(res, 200, instance);
+        }
+    },
+];
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    console.log(`[Mock] ${req.method} ${url.pathname}${url.search}`);
+
+    if (!url.pathname.startsWith(API_PREFIX)) {
+        return sendError(res, 404, 'Not found');
+    }
+    const path = url.pathname.slice(API_PREFIX.length);
+
+    if (isRateLimited()) {
+        res.setHeader('Retry-After', '1');
+        return sendError(res, 429, 'Too many requests');
+    }
+
+    for (const route of routes) {
+        const match = route.method === req.method ? path.match(route.pattern) : null;
+        if (!match) continue;
+        if (!route.public && !getAuth(req)) {
+            return sendError(res, 401, 'Missing Credentials');
+        }
+        try {
+            return await route.handler(req, res, match, url);
+        } catch (error) {
+            console.error('[Mock] Handler error:', error);
+            return sendError(res, 500, 'Internal mock error');
+        }
+    }
+    return sendError(res, 404, 'Not found');
+});
+
+// --- Pipeline WebSocket ---
+
+const wss = new WebSocketServer({ noServer: true });
+
+server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const authToken = url.searchParams.get('authToken');
+    if (!authToken || !authTokens.get(authToken)?.verified) {
+        // VRChat rejects the handshake for unknown tokens
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => {
+        console.log('[Mock] Pipeline client connected');
+        wss.emit('connection', ws, req);
+    });
+});
+
+const broadcast = (type, content) => {
+    // VRChat double-encodes: content is a JSON string inside the message
+    const message = JSON.stringify({ type, content: JSON.stringify(content) });
+    wss.clients.forEach(client => {
+        if (client.readyState === client.OPEN) client.send(message);
+    });
+    console.log(`[Mock] Pipeline event: ${type}`);
+};
+
+// Pipeline user payloads omit location/state (they are sent as separate fields)
+const userPayload = (friend) => {
+    const user = { ...friend };
+    delete user.location;
+    delete user.state;
+    return user;
+};
+
+// Scripted events: cycle offline favorites through online -> move -> invite -> status change -> offline
+const scriptedFriends = favorites
+    .map(fav => friends.find(f => f.id === fav.favoriteId))
+    .filter(f => f && f.location === 'offline');
+const worldLocations = locations.filter(l => l.startsWith('wrld_'));
+
+const script = scriptedFriends.flatMap((friend, i) => {
+    const first = worldLocations[i % worldLocations.length];
+    const second = worldLocations[(i + 1) % worldLocations.length];
+    const worldFor = (location) => worlds.find(w => w.id === location.split(':')[0]);
+    return [
+        () => {
+            friend.location = first;
+            friend.state = 'online';
+            friend.status = 'active';
+            broadcast('friend-online', { userId: friend.id, platform: 'standalonewindows', location: first, canRequestInvite: true, user: userPayload(friend) });
+        },
+        () => {
+            friend.location = second;
+            broadcast('friend-location', { userId: friend.id, location: second, travelingToLocation: '', worldId: second.split(':')[0], canRequestInvite: true, user: userPayload(friend), world: worldFor(second) });
+        },
+        () => {
+            // The friend invites us to where they are
+            const notification = {
+                id: token('not'),
+                type: 'invite',
+                senderUserId: friend.id,
+                senderUsername: friend.displayName,
+                receiverUserId: selfUser.id,
+                message: '',
+                details: { worldId: second, worldName: worldFor(second)?.name },
+                seen: false,
+                created_at: new Date().toISOString(),
+            };
+            notifications.unshift(notification);
+            broadcast('notification', notification);
+        },
+        () => {
+            friend.status = 'join me';
+            friend.statusDescription = 'Come hang out';
+            broadcast('friend-update', { userId: friend.id, user: userPayload(friend) });
+        },
+        () => {
+            friend.location = 'offline';
+            friend.state = 'offline';
+            friend.status = 'offline';
+            broadcast('friend-offline', { userId: friend.id, platform: '' });
+        },
+    ];
+});
+
+let step = 0;
+setInterval(() => {
+    if (wss.clients.size === 0 || script.length === 0) return;
+    script[step % script.length]();
+    step++;
+}, EVENT_INTERVAL_MS);
+
+server.listen(PORT, () => {
+    console.log(`[Mock] VRChat mock listening on http://localhost:${PORT}${API_PREFIX}`);
+    console.log(`[Mock] Pipeline WebSocket on ws://localhost:${PORT}`);
+    console.log(`[Mock] Login with ${USERNAME} / ${PASSWORD}, 2FA codes ${JSON.stringify(TWO_FACTOR_CODES)}`);
+});